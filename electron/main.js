@@ -5,6 +5,7 @@ import fs from 'node:fs';
 import { fileURLToPath, pathToFileURL } from 'node:url';
 import { spawn } from 'node:child_process';
 import { Chess } from 'chess.js';
+import { withFileLock, writeFileSafe, listBackups, backupPath, restoreBackup } from '../scripts/cards-file.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname  = path.dirname(__filename);
@@ -23,6 +24,11 @@ const CONFIG_PATH  = path.resolve(ROOT, 'src', 'data', 'cardgen.config.json');
 const SCANNED_PATH = path.resolve(ROOT, 'src', 'data', 'chesscom-scanned.json');
 const ANS_OVR_PATH = path.resolve(ROOT, 'src', 'data', 'answer-overrides.json');
 const DECK_LIMITS_PATH = path.resolve(ROOT, 'src', 'data', 'deckSettings.json');
+const DECKS_PATH = path.resolve(ROOT, 'src', 'data', 'decks.json');
+const DECK_RULES_PATH = path.resolve(ROOT, 'src', 'data', 'deckRules.json');
+const COLLECTION_PATH = path.resolve(ROOT, 'src', 'data', 'collection.json');
+const JOURNAL_PATH    = path.resolve(ROOT, 'src', 'data', 'collection.journal'); // one JSON op per line
+const JOURNAL_COMPACT_AT = 500; // ops replayed before the journal is folded into the snapshot
 
 // -------------------- Answer overrides helpers (moved up: used by IPC) --------------------
 function loadAnswerOverrides() {
@@ -48,6 +54,108 @@ function saveAnswerOverrides(obj) {
   }
 }
 
+// -------------------- Collection database (see src/data/collectionDb.ts) --------------------
+// Snapshot + append-only journal. Ops mirror applyOp() in collectionDb.ts.
+// Each journal line carries a sequence number and the snapshot records the last
+// one it includes, so ops left in the journal by an interrupted compaction are
+// skipped instead of applied twice. Lines without one predate sequencing (seq 0).
+let collectionSeq = null; // last sequence number written; null until loaded
+
+function applyCollectionOp(snap, o) {
+  if (!o || typeof o !== 'object') return;
+  const stores = snap.stores;
+  switch (o.op) {
+    case 'put':
+      stores[o.store] = (stores[o.store] && typeof stores[o.store] === 'object') ? stores[o.store] : {};
+      stores[o.store][o.key] = o.value;
+      break;
+    case 'delete':
+      if (stores[o.store]) delete stores[o.store][o.key];
+      break;
+    case 'push':
+      stores[o.store] = Array.isArray(stores[o.store]) ? stores[o.store] : [];
+      stores[o.store].push(...(Array.isArray(o.values) ? o.values : []));
+      break;
+    case 'removeAt':
+      if (Array.isArray(stores[o.store]) && o.index >= 0) stores[o.store].splice(o.index, 1);
+      break;
+    case 'reset':
+      stores[o.store] = o.value;
+      break;
+    case 'version':
+      snap.schemaVersion = o.schemaVersion;
+      break;
+  }
+}
+
+function writeCollectionSnapshot(snap) {
+  fs.mkdirSync(path.dirname(COLLECTION_PATH), { recursive: true });
+  const tmp = COLLECTION_PATH + '.tmp';
+  fs.writeFileSync(tmp, JSON.stringify(snap) + '\n', 'utf-8');
+  fs.renameSync(tmp, COLLECTION_PATH);
+}
+
+/** Snapshot with the journal replayed; null when there is no collection yet. */
+function loadCollection() {
+  const hasSnap = fs.existsSync(COLLECTION_PATH);
+  const hasJournal = fs.existsSync(JOURNAL_PATH);
+  if (!hasSnap && !hasJournal) return null;
+  let snap = { schemaVersion: 0, stores: {} };
+  try {
+    if (hasSnap) {
+      const parsed = JSON.parse(fs.readFileSync(COLLECTION_PATH, 'utf-8'));
+      if (parsed && typeof parsed === 'object' && parsed.stores && typeof parsed.stores === 'object') snap = parsed;
+    }
+  } catch (e) {
+    console.error('[collection] snapshot unreadable; replaying journal only:', e);
+  }
+  // A snapshot without a sequence number predates sequencing: the whole journal is newer
+  const covered = Number.isFinite(snap.seq) ? snap.seq : -1;
+  let seq = Math.max(0, covered);
+  let replayed = 0;
+  if (hasJournal) {
+    const lines = fs.readFileSync(JOURNAL_PATH, 'utf-8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      let o;
+      try { o = JSON.parse(line); }
+      catch { console.warn('[collection] skipping corrupt journal line'); continue; } // e.g. a write cut short
+      const lineSeq = Number.isFinite(o?.seq) ? o.seq : 0;
+      seq = Math.max(seq, lineSeq);
+      if (lineSeq <= covered) continue; // already in the snapshot
+      applyCollectionOp(snap, o);
+      replayed++;
+    }
+  }
+  snap.seq = seq;
+  collectionSeq = seq;
+  if (replayed >= JOURNAL_COMPACT_AT) {
+    // Snapshot first: once it is in place the journal's ops are all covered by its seq
+    try {
+      writeCollectionSnapshot(snap);
+      fs.writeFileSync(JOURNAL_PATH, '', 'utf-8');
+    } catch (e) {
+      console.error('[collection] compaction failed:', e);
+    }
+  }
+  return snap;
+}
+
+function appendCollectionOps(ops) {
+  if (!Array.isArray(ops) || !ops.length) return true;
+  try {
+    if (collectionSeq === null) loadCollection();
+    if (collectionSeq === null) collectionSeq = 0; // no collection yet
+    const lines = ops.map(o => JSON.stringify({ ...o, seq: ++collectionSeq }));
+    fs.mkdirSync(path.dirname(JOURNAL_PATH), { recursive: true });
+    fs.appendFileSync(JOURNAL_PATH, lines.join('\n') + '\n', 'utf-8');
+    return true;
+  } catch (e) {
+    console.error('[collection] append failed:', e);
+    return false;
+  }
+}
+
 function createWindow() {
   console.log('[main] preload path:', PRELOAD, 'exists=', fs.existsSync(PRELOAD));
 
@@ -166,9 +274,16 @@ function formatCardsJson(arr) {
   return formatValue(arr, 0, '') + '\n';
 }
 function saveCardsArray(arr) {
-  fs.mkdirSync(path.dirname(CARDS_PATH), { recursive: true });
-  const out = formatCardsJson(arr);
-  fs.writeFileSync(CARDS_PATH, out, 'utf-8');
+  writeFileSafe(CARDS_PATH, formatCardsJson(arr));
+}
+/** Read-modify-write under the cards.json lock; mutate returns false to skip saving. */
+function updateCardsArray(mutate) {
+  return withFileLock(CARDS_PATH, () => {
+    const arr = loadCardsArray();
+    const res = mutate(arr);
+    if (res !== false) saveCardsArray(arr);
+    return res;
+  });
 }
 
 function registerIpc() {
@@ -240,6 +355,10 @@ function registerIpc() {
 
 
   const findCardByFenDeck = (arr, fen, deckId) => arr.find(c => c?.fields?.fen === fen && c?.deck === deckId);
+  // A move sequence identifies a card wherever the user has filed it; only
+  // the empty sequence (FEN-only cards) is still matched within the deck.
+  const findCardByPath = (arr, pathKey, deckId) =>
+    arr.find(c => (c?.fields?.moveSequence || '') === pathKey && (pathKey !== '' || c?.deck === deckId));
 
   // ---------- Make-card runner (packaging-safe) ----------
   function runMakeCardWithMoves(movesSAN = [], { timeoutMs = 30000 } = {}) {
@@ -327,7 +446,25 @@ function registerIpc() {
     return total || 1;
   }
 
-  async function scanOneGameForUser(game, usernameLC, onPosProgress /* (posIdx, posTotal) => void */) {
+  // Tally opponent moves by position (4-field FEN before the move -> SAN -> count) for reply weighting
+  const REPLY_TALLY_MAX_PLIES = 40;
+  function tallyOpponentReplies(sans, userColor, replies) {
+    const c = new Chess();
+    const n = Math.min(sans.length, REPLY_TALLY_MAX_PLIES);
+    for (let i = 0; i < n; i++) {
+      const before = c.fen().split(/\s+/).slice(0, 4).join(' ');
+      const isOpp = c.turn() !== userColor;
+      let mv = null;
+      try { mv = c.move(sans[i]); } catch {}
+      if (!mv) break;
+      if (isOpp) {
+        const row = replies[before] || (replies[before] = {});
+        row[mv.san] = (row[mv.san] || 0) + 1;
+      }
+    }
+  }
+
+  async function scanOneGameForUser(game, usernameLC, onPosProgress /* (posIdx, posTotal) => void */, replies /* optional tally */) {
     const url = String(game?.url || '').trim();
     const pgn = String(game?.pgn || '').trim();
     if (!url || !pgn) return { skipped: true };
@@ -337,6 +474,7 @@ function registerIpc() {
     if (!userColor) { console.log('[scanGame] skip (not user game):', url); return { skipped: true }; }
 
     const sans = pgnToSANArray(pgn);
+    if (replies) tallyOpponentReplies(sans, userColor, replies);
     const chess = new Chess();
     let i = 0;
     let created = 0;
@@ -366,7 +504,7 @@ function registerIpc() {
       // Ensure a card exists for this exact PGN path (create if missing)
       let arr = loadCardsArray();
       const pathKey = chess.history().join(' ');
-      let card = arr.find(c => c?.deck === deckId && (c?.fields?.moveSequence || '') === pathKey);
+      let card = findCardByPath(arr, pathKey, deckId);
       if (!card) {
         const historySans = chess.history(); // SAN[] up to this position
         console.log('[scanGame] creating card for pathKey:', pathKey);
@@ -378,7 +516,7 @@ function registerIpc() {
         created += 1;
         // Reload and find new card
         arr = loadCardsArray();
-        card = arr.find(c => c?.deck === deckId && (c?.fields?.moveSequence || '') === pathKey);
+        card = findCardByPath(arr, pathKey, deckId);
         if (!card) {
           console.warn('[scanGame] created card not found after reload');
           return { created, stopped: true };
@@ -491,31 +629,50 @@ function registerIpc() {
 
   ipcMain.handle('cards:update', async (_evt, updated) => {
     try {
-      const arr = loadCardsArray();
-      const idx = arr.findIndex(x => x && x.id === updated.id);
-      if (idx === -1) {
-        console.warn('[cards:update] id not found:', updated?.id);
-        return false;
-      }
-      arr[idx] = updated;
-      saveCardsArray(arr);
-      return true;
+      return updateCardsArray(arr => {
+        const idx = arr.findIndex(x => x && x.id === updated.id);
+        if (idx === -1) {
+          console.warn('[cards:update] id not found:', updated?.id);
+          return false;
+        }
+        arr[idx] = updated;
+        return true;
+      });
     } catch (e) {
       console.error('[cards:update] failed:', e);
       return false;
     }
   });
 
+  // Replace several cards in one write (deck moves, archiving)
+  ipcMain.handle('cards:updateMany', async (_evt, list) => {
+    try {
+      if (!Array.isArray(list) || !list.length) return true;
+      const next = new Map(list.filter(c => c && c.id).map(c => [c.id, c]));
+      return updateCardsArray(arr => {
+        let n = 0;
+        for (let i = 0; i < arr.length; i++) {
+          const c = next.get(arr[i]?.id);
+          if (c) { arr[i] = c; n++; }
+        }
+        return n > 0;
+      }) || false;
+    } catch (e) {
+      console.error('[cards:updateMany] failed:', e);
+      return false;
+    }
+  });
+
   ipcMain.handle('cards:create', async (_evt, card) => {
     try {
-      const arr = loadCardsArray();
-      if (arr.some(x => x && x.id === card?.id)) {
-        console.warn('[cards:create] duplicate id:', card?.id);
-        return false;
-      }
-      arr.push(card);
-      saveCardsArray(arr);
-      return true;
+      return updateCardsArray(arr => {
+        if (arr.some(x => x && x.id === card?.id)) {
+          console.warn('[cards:create] duplicate id:', card?.id);
+          return false;
+        }
+        arr.push(card);
+        return true;
+      });
     } catch (e) {
       console.error('[cards:create] failed:', e);
       return false;
@@ -558,40 +715,41 @@ function registerIpc() {
       }
 
       if (changed.length) {
-        const cards = loadCardsArray();
-        const byId = new Map(cards.map(c => [c.id, c]));
-        const childrenOf = (id) => {
-          const c = byId.get(id);
-          return (c && c.fields && Array.isArray(c.fields.children)) ? c.fields.children : [];
-        };
-        const fen4 = (fen) => { try { return String(fen||'').split(/\s+/).slice(0,4).join(' '); } catch { return String(fen||''); } };
-        const ensureArchived = (c) => {
-          const tags = Array.isArray(c.tags) ? c.tags : [];
-          if (!tags.includes('Archived')) { c.tags = [...tags, 'Archived']; return true; }
-          return false;
-        };
-
-        let mutated = false;
-        for (const key4 of changed) {
-          for (const root of cards) {
-            if (!root || !root.fields) continue;
-            if (fen4(root.fields.fen) !== key4) continue;
-            // Archive root and descendants
-            const stack = [root.id];
-            const seen = new Set();
-            while (stack.length) {
-              const id = stack.pop();
-              if (!id || seen.has(id)) continue;
-              seen.add(id);
-              const node = byId.get(id);
-              if (!node) continue;
-              if (ensureArchived(node)) mutated = true;
-              const kids = childrenOf(id);
-              for (const kid of kids) stack.push(kid);
+        updateCardsArray(cards => {
+          const byId = new Map(cards.map(c => [c.id, c]));
+          const childrenOf = (id) => {
+            const c = byId.get(id);
+            return (c && c.fields && Array.isArray(c.fields.children)) ? c.fields.children : [];
+          };
+          const fen4 = (fen) => { try { return String(fen||'').split(/\s+/).slice(0,4).join(' '); } catch { return String(fen||''); } };
+          const ensureArchived = (c) => {
+            const tags = Array.isArray(c.tags) ? c.tags : [];
+            if (!tags.includes('Archived')) { c.tags = [...tags, 'Archived']; return true; }
+            return false;
+          };
+
+          let mutated = false;
+          for (const key4 of changed) {
+            for (const root of cards) {
+              if (!root || !root.fields) continue;
+              if (fen4(root.fields.fen) !== key4) continue;
+              // Archive root and descendants
+              const stack = [root.id];
+              const seen = new Set();
+              while (stack.length) {
+                const id = stack.pop();
+                if (!id || seen.has(id)) continue;
+                seen.add(id);
+                const node = byId.get(id);
+                if (!node) continue;
+                if (ensureArchived(node)) mutated = true;
+                const kids = childrenOf(id);
+                for (const kid of kids) stack.push(kid);
+              }
             }
           }
-        }
-        if (mutated) saveCardsArray(cards);
+          return mutated;
+        });
       }
 
       return true;
@@ -601,7 +759,7 @@ function registerIpc() {
     }
   });
 
-  // ---- Deck limits (per-deck pacing + thresholds) ----
+  // ---- Deck limits (legacy deckSettings.json; imported once into the collection database) ----
   function loadDeckLimits() {
     try {
       if (!fs.existsSync(DECK_LIMITS_PATH)) return {};
@@ -613,18 +771,50 @@ function registerIpc() {
       return {};
     }
   }
-  function saveDeckLimits(storeObj) {
+  ipcMain.handle('decks:getLimits', async () => {
+    return loadDeckLimits();
+  });
+
+  // ---- Deck tree (user-editable; src/decks.ts) ----
+  ipcMain.handle('decks:getTree', async () => {
+    try {
+      if (!fs.existsSync(DECKS_PATH)) return null;
+      const parsed = JSON.parse(fs.readFileSync(DECKS_PATH, 'utf-8'));
+      return Array.isArray(parsed) ? parsed : null;
+    } catch (e) {
+      console.error('[decks:getTree] load failed:', e);
+      return null;
+    }
+  });
+  ipcMain.handle('decks:getRules', async () => {
     try {
-      fs.mkdirSync(path.dirname(DECK_LIMITS_PATH), { recursive: true });
-      fs.writeFileSync(DECK_LIMITS_PATH, JSON.stringify(storeObj || {}, null, 2) + '\n', 'utf-8');
+      if (!fs.existsSync(DECK_RULES_PATH)) return null;
+      const parsed = JSON.parse(fs.readFileSync(DECK_RULES_PATH, 'utf-8'));
+      return Array.isArray(parsed) ? parsed : null;
+    } catch (e) {
+      console.error('[decks:getRules] load failed:', e);
+      return null;
+    }
+  });
+  ipcMain.handle('decks:setRules', async (_evt, list) => {
+    try {
+      if (!Array.isArray(list)) return false;
+      writeFileSafe(DECK_RULES_PATH, JSON.stringify(list, null, 2) + '\n');
       return true;
     } catch (e) {
-      console.error('[decks:setLimits] save failed:', e);
+      console.error('[decks:setRules] save failed:', e);
+      return false;
+    }
+  });
+  ipcMain.handle('decks:setTree', async (_evt, list) => {
+    try {
+      if (!Array.isArray(list)) return false;
+      writeFileSafe(DECKS_PATH, JSON.stringify(list, null, 2) + '\n');
+      return true;
+    } catch (e) {
+      console.error('[decks:setTree] save failed:', e);
       return false;
     }
-  }
-  ipcMain.handle('decks:getLimits', async () => {
-    return loadDeckLimits();
   });
 
   // -------------------- Chess.com Auto-Scan --------------------
@@ -635,6 +825,21 @@ function registerIpc() {
     try { console.log(`[scan] cancel requested from wc=${id}`); } catch {}
   });
 
+  // Opponent reply counts gathered by scans, merged across all scanned accounts
+  ipcMain.handle('autogen:getReplyCounts', async () => {
+    const ledger = loadScannedLedger();
+    const merged = {};
+    for (const entry of Object.values(ledger)) {
+      const replies = entry && typeof entry === 'object' ? entry.replies : null;
+      if (!replies || typeof replies !== 'object') continue;
+      for (const [fen, row] of Object.entries(replies)) {
+        const out = merged[fen] || (merged[fen] = {});
+        for (const [san, n] of Object.entries(row || {})) out[san] = (out[san] || 0) + (Number(n) || 0);
+      }
+    }
+    return merged;
+  });
+
   ipcMain.handle('autogen:scan-chesscom', async (evt, payload) => {
     const usernameLC = String(payload?.username || '').trim().toLowerCase();
     if (!usernameLC) {
@@ -661,6 +866,7 @@ function registerIpc() {
       const ledger = loadScannedLedger();
       const userKey = `chesscom:${usernameLC}`;
       const scannedMap = new Set(Object.keys(ledger[userKey]?.games || {}));
+      const replies = { ...(ledger[userKey]?.replies || {}) };
 
       // Get monthly archives
       const archUrl = `https://api.chess.com/pub/player/${encodeURIComponent(usernameLC)}/games/archives`;
@@ -716,7 +922,7 @@ function registerIpc() {
           // Fractional index within the game
           const frac = Math.min(1, Math.max(0, posIdx / Math.max(1, posTotal)));
           sendProgress({ phase: 'position', index: idx + frac, total: queue.length, url: gameKey });
-        });
+        }, replies);
 
         scannedMap.add(gameKey);
         scannedCount += 1;
@@ -732,7 +938,7 @@ function registerIpc() {
       // Persist ledger
       const nextMap = {};
       for (const k of scannedMap) nextMap[k] = true;
-      ledger[userKey] = { games: nextMap, lastScan: new Date().toISOString() };
+      ledger[userKey] = { games: nextMap, lastScan: new Date().toISOString(), replies };
       saveScannedLedger(ledger);
 
       const cancelled = !!cancelFlags.get(wcId);
@@ -749,8 +955,16 @@ function registerIpc() {
       cancelFlags.set(wcId, false);
     }
   });
-  ipcMain.handle('decks:setLimits', async (_evt, storeObj) => {
-    return saveDeckLimits(storeObj);
+  // Collection database: loaded synchronously so the renderer can read it at startup
+  ipcMain.on('collection:loadSync', (evt) => {
+    try { evt.returnValue = loadCollection(); }
+    catch (e) {
+      console.error('[collection:loadSync] failed:', e);
+      evt.returnValue = null;
+    }
+  });
+  ipcMain.handle('collection:append', async (_evt, ops) => {
+    return appendCollectionOps(ops);
   });
 
   // Export cards to user's Downloads folder
@@ -788,28 +1002,60 @@ function registerIpc() {
     }
   });
 
+  // Rolling backups of cards.json (written by saveCardsArray via scripts/cards-file.js)
+  ipcMain.handle('cards:listBackups', async () => {
+    try {
+      return listBackups(CARDS_PATH).map(({ name, createdAt, size }) => ({ name, createdAt, size }));
+    } catch (e) {
+      console.error('[cards:listBackups] failed:', e);
+      return [];
+    }
+  });
+  ipcMain.handle('cards:readBackup', async (_evt, name) => {
+    try {
+      const p = backupPath(CARDS_PATH, name);
+      if (!p) return null;
+      const parsed = JSON.parse(fs.readFileSync(p, 'utf-8'));
+      if (Array.isArray(parsed)) return parsed;
+      if (parsed && Array.isArray(parsed.cards)) return parsed.cards; // legacy
+      return null;
+    } catch (e) {
+      console.error('[cards:readBackup] failed:', e);
+      return null;
+    }
+  });
+  ipcMain.handle('cards:restoreBackup', async (_evt, name) => {
+    try {
+      restoreBackup(CARDS_PATH, name);
+      return { ok: true };
+    } catch (e) {
+      console.error('[cards:restoreBackup] failed:', e);
+      return { ok: false, message: e?.message || 'Restore failed' };
+    }
+  });
+
   // Update only the 'due' field of a card by id
   ipcMain.handle('cards:setDue', async (_evt, payload) => {
     try {
       const { id, due } = payload || {};
       if (!id || typeof id !== 'string') return false;
-      const arr = loadCardsArray();
-      const idx = arr.findIndex(x => x && x.id === id);
-      if (idx === -1) return false;
-      if (typeof due === 'undefined') {
-        delete arr[idx].due;
-      } else {
-        arr[idx].due = due;
-      }
-      saveCardsArray(arr);
-      return true;
+      return updateCardsArray(arr => {
+        const idx = arr.findIndex(x => x && x.id === id);
+        if (idx === -1) return false;
+        if (typeof due === 'undefined') {
+          delete arr[idx].due;
+        } else {
+          arr[idx].due = due;
+        }
+        return true;
+      });
     } catch (e) {
       console.error('[cards:setDue] failed:', e);
       return false;
     }
   });
 
-  console.log('[main] IPC handlers registered: cardgen:save-config, cardgen:make-card, autogen:scan-chesscom, cards:readOne, cards:update, cards:create, cards:setDue, cards:exportToDownloads, cards:exportJsonToDownloads, decks:getLimits, decks:setLimits');
+  console.log('[main] IPC handlers registered: cardgen:save-config, cardgen:make-card, autogen:scan-chesscom, autogen:getReplyCounts, cards:readOne, cards:update, cards:updateMany, cards:create, cards:setDue, cards:exportToDownloads, cards:exportJsonToDownloads, cards:listBackups, cards:readBackup, cards:restoreBackup, decks:getLimits, decks:getTree, decks:setTree, decks:getRules, decks:setRules, collection:loadSync, collection:append');
 }
 
 app.whenReady().then(() => {
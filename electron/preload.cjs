@@ -15,6 +15,7 @@ try {
   contextBridge.exposeInMainWorld('autogen', {
     scanChessCom: (opts) => ipcRenderer.invoke('autogen:scan-chesscom', opts || {}),
     cancel: () => ipcRenderer.send('autogen:cancel'),
+    getReplyCounts: () => ipcRenderer.invoke('autogen:getReplyCounts'),
     onProgress: (cb) => {
       const fn = (_evt, payload) => { try { cb(payload); } catch { /* no-op */ } };
       ipcRenderer.on('autogen:progress', fn);
@@ -32,10 +33,14 @@ try {
     readAll: () => ipcRenderer.invoke('cards:readAll'),
     readOne: (id)   => ipcRenderer.invoke('cards:readOne', id),
     update:  (card) => ipcRenderer.invoke('cards:update', card),
+    updateMany: (cards) => ipcRenderer.invoke('cards:updateMany', cards),
     create:  (card) => ipcRenderer.invoke('cards:create', card),
     setDue:  (id, due) => ipcRenderer.invoke('cards:setDue', { id, due }),
     exportToDownloads: () => ipcRenderer.invoke('cards:exportToDownloads'),
     exportJsonToDownloads: (cards, name) => ipcRenderer.invoke('cards:exportJsonToDownloads', { cards, name }),
+    listBackups: () => ipcRenderer.invoke('cards:listBackups'),
+    readBackup: (name) => ipcRenderer.invoke('cards:readBackup', name),
+    restoreBackup: (name) => ipcRenderer.invoke('cards:restoreBackup', name),
   });
 
   // Forced Answers (override map of FEN -> SAN)
@@ -44,10 +49,19 @@ try {
     saveAll: (map) => ipcRenderer.invoke('answers:saveAll', map),
   });
 
-  // Deck limits I/O (per-deck pacing settings)
+  // Deck limits and deck tree I/O
   contextBridge.exposeInMainWorld('decks', {
     getLimits: () => ipcRenderer.invoke('decks:getLimits'),
-    setLimits: (storeObj) => ipcRenderer.invoke('decks:setLimits', storeObj),
+    getTree: () => ipcRenderer.invoke('decks:getTree'),
+    setTree: (list) => ipcRenderer.invoke('decks:setTree', list),
+    getRules: () => ipcRenderer.invoke('decks:getRules'),
+    setRules: (list) => ipcRenderer.invoke('decks:setRules', list),
+  });
+
+  // Collection database (scheduling state, review log); see src/data/collectionDb.ts
+  contextBridge.exposeInMainWorld('collection', {
+    loadSync: () => ipcRenderer.sendSync('collection:loadSync'),
+    append: (ops) => ipcRenderer.invoke('collection:append', ops),
   });
 
   // Zoom controls
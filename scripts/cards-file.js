@@ -0,0 +1,161 @@
+// Crash-safe writes of cards.json, shared by electron/main.js and make-card.js.
+//  - writes go to a temp file that is renamed over the target (never half-written)
+//  - a lock file serializes writers across processes (app + make-card CLI)
+//  - the previous contents are kept as timestamped rolling backups
+import fs from 'node:fs';
+import path from 'node:path';
+
+export const BACKUP_KEEP = 10;
+const BACKUP_INTERVAL_MS = 15 * 60 * 1000; // reviews write often; keep at most one backup per interval
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_STALE_MS = 30_000;              // a lock older than this is left over from a crash
+
+const held = new Map(); // lock path -> depth (re-entrant within one process)
+
+function sleepSync(ms) {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function pidAlive(pid) {
+  if (!Number.isInteger(pid) || pid <= 0) return false;
+  try { process.kill(pid, 0); return true; }
+  catch (e) { return e?.code === 'EPERM'; }
+}
+
+function isStale(lockPath) {
+  try {
+    const info = JSON.parse(fs.readFileSync(lockPath, 'utf-8'));
+    if (info?.pid === process.pid) return false;
+    return !pidAlive(info?.pid) || Date.now() - Number(info?.at || 0) > LOCK_STALE_MS;
+  } catch {
+    // Unreadable: the owner may be mid-write; only treat as stale once it is old
+    try { return Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS; } catch { return false; }
+  }
+}
+
+/** Run fn while holding the cross-process lock for `file` (synchronous; throws on timeout). */
+export function withFileLock(file, fn) {
+  const lockPath = file + '.lock';
+  const depth = held.get(lockPath) || 0;
+  if (depth > 0) {
+    held.set(lockPath, depth + 1);
+    try { return fn(); } finally { held.set(lockPath, depth); }
+  }
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      const fd = fs.openSync(lockPath, 'wx');
+      try { fs.writeSync(fd, JSON.stringify({ pid: process.pid, at: Date.now() })); } finally { fs.closeSync(fd); }
+      break;
+    } catch (e) {
+      if (e?.code !== 'EEXIST') throw e;
+      if (isStale(lockPath)) {
+        try { fs.unlinkSync(lockPath); } catch {}
+        continue;
+      }
+      if (Date.now() > deadline) throw new Error(`${path.basename(file)} is locked by another process`);
+      sleepSync(25);
+    }
+  }
+  held.set(lockPath, 1);
+  try {
+    return fn();
+  } finally {
+    held.delete(lockPath);
+    try { fs.unlinkSync(lockPath); } catch {}
+  }
+}
+
+/** Write via a temp file + rename so readers see the old or the new file, never a partial one. */
+export function writeFileAtomic(file, text) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  const fd = fs.openSync(tmp, 'w');
+  try {
+    fs.writeFileSync(fd, text, 'utf-8');
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  try {
+    fs.renameSync(tmp, file);
+  } catch (e) {
+    try { fs.unlinkSync(tmp); } catch {}
+    throw e;
+  }
+}
+
+// ---------- Backups ----------
+
+export function backupDir(file) {
+  return path.join(path.dirname(file), 'backups');
+}
+
+function backupPrefix(file) {
+  return path.basename(file, path.extname(file)) + '-';
+}
+
+function stamp(d) {
+  const pad = (n, w = 2) => String(n).padStart(w, '0');
+  return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}-${pad(d.getMilliseconds(), 3)}`;
+}
+
+/** Backups of `file`, newest first. */
+export function listBackups(file) {
+  const dir = backupDir(file);
+  const prefix = backupPrefix(file);
+  let names = [];
+  try { names = fs.readdirSync(dir); } catch { return []; }
+  return names
+    .filter(n => n.startsWith(prefix) && n.endsWith(path.extname(file)))
+    .map(name => {
+      try {
+        const st = fs.statSync(path.join(dir, name));
+        return { name, path: path.join(dir, name), createdAt: st.mtimeMs, size: st.size };
+      } catch { return null; }
+    })
+    .filter(Boolean)
+    .sort((a, b) => b.createdAt - a.createdAt || b.name.localeCompare(a.name));
+}
+
+/** Resolve a backup name to its path; rejects anything outside the backup folder. */
+export function backupPath(file, name) {
+  const base = path.basename(String(name || ''));
+  if (!base || base !== name || !base.startsWith(backupPrefix(file))) return null;
+  const p = path.join(backupDir(file), base);
+  return fs.existsSync(p) ? p : null;
+}
+
+/** Copy the current file into the backups (unless a recent one exists) and prune old ones. */
+export function backupFile(file, { force = false, keep = BACKUP_KEEP } = {}) {
+  if (!fs.existsSync(file)) return null;
+  const existing = listBackups(file);
+  if (!force && existing[0] && Date.now() - existing[0].createdAt < BACKUP_INTERVAL_MS) return null;
+  const dir = backupDir(file);
+  fs.mkdirSync(dir, { recursive: true });
+  const dest = path.join(dir, `${backupPrefix(file)}${stamp(new Date())}${path.extname(file)}`);
+  fs.copyFileSync(file, dest);
+  for (const old of listBackups(file).slice(Math.max(1, keep))) {
+    try { fs.unlinkSync(old.path); } catch {}
+  }
+  return dest;
+}
+
+/** Locked, backed-up, atomic replacement of `file`. */
+export function writeFileSafe(file, text, opts = {}) {
+  withFileLock(file, () => {
+    try { backupFile(file, opts); }
+    catch (e) { console.warn('[cards-file] backup failed:', e); }
+    writeFileAtomic(file, text);
+  });
+}
+
+/** Replace `file` with a backup; the current contents are backed up first so this can be undone. */
+export function restoreBackup(file, name) {
+  const src = backupPath(file, name);
+  if (!src) throw new Error(`Backup not found: ${name}`);
+  const text = fs.readFileSync(src, 'utf-8');
+  JSON.parse(text); // refuse to restore a corrupt backup
+  writeFileSafe(file, text, { force: true });
+}
@@ -0,0 +1,28 @@
+// Types for deck-rules.js (imported by the app from src/state/deckRules.ts)
+
+export type DeckRuleKind = 'moves' | 'eco' | 'fen' | 'tag';
+
+export type DeckRule = {
+  id: string;
+  kind: DeckRuleKind;
+  pattern: string;
+  deckId: string;
+  /** Only cards with this side to move; 'any' (or absent) for both */
+  side?: 'w' | 'b' | 'any';
+  enabled?: boolean;
+};
+
+export type DeckRuleInput = {
+  sans: string[];
+  fen: string;
+  eco?: string;
+  tags?: string[];
+};
+
+export const RULE_KINDS: DeckRuleKind[];
+export function normalizeSans(text: string): string[];
+export function sideToMove(fen: string): 'w' | 'b';
+export function validateRule(rule: DeckRule): string | null;
+export function ruleMatches(rule: DeckRule, input: DeckRuleInput): boolean;
+export function matchRule(rules: DeckRule[], input: DeckRuleInput, deckExists?: (deckId: string) => boolean): number;
+export function assignDeck(rules: DeckRule[], input: DeckRuleInput, fallbackDeckId: string, deckExists?: (deckId: string) => boolean): string;
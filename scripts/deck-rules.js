@@ -0,0 +1,118 @@
+// Deck assignment rules, shared by make-card.js and the app (src/state/deckRules.ts).
+// Pure functions only (no Node APIs) so the renderer can import this file too.
+//
+// A rule maps cards to a deck when its pattern matches. Rules are tried in
+// order (first match wins); cards no rule matches keep the default deck.
+//   moves: move-sequence prefix, e.g. "1.e4 c5 2.Nf3" ("*" matches any one move)
+//   eco:   ECO code, prefix or range, e.g. "B90", "B2", "C60-C99"
+//   fen:   FEN piece placement, "?" for any square, e.g. "????????/pp1ppppp/8/2p5/4P3/8/????????/????????"
+//   tag:   card tag (case-insensitive)
+// `side` limits a rule to cards with White or Black to move (the repertoire side).
+
+export const RULE_KINDS = ['moves', 'eco', 'fen', 'tag'];
+
+/** SAN tokens from a move text; drops move numbers, comments, results and !? marks. */
+export function normalizeSans(text) {
+  return String(text || '')
+    .replace(/\{[^}]*\}/g, ' ')
+    .split(/\s+/)
+    .map(t => t.replace(/^\d+\.(\.\.)?/, '').replace(/[!?]+$/, ''))
+    .filter(t => t && !/^(1-0|0-1|1\/2-1\/2)$/.test(t));
+}
+
+/** 'w' or 'b' from a FEN (defaults to 'w'). */
+export function sideToMove(fen) {
+  return String(fen || '').trim().split(/\s+/)[1] === 'b' ? 'b' : 'w';
+}
+
+function expandPlacement(placement) {
+  const ranks = String(placement || '').trim().split(/\s+/)[0].split('/');
+  if (ranks.length !== 8) return null;
+  const out = [];
+  for (const r of ranks) {
+    let row = '';
+    for (const ch of r) row += /[1-8]/.test(ch) ? '.'.repeat(Number(ch)) : ch;
+    if (row.length !== 8) return null;
+    out.push(row);
+  }
+  return out.join('');
+}
+
+const ECO_RE = /^[A-E]\d{0,2}$/;
+
+function ecoRange(pattern) {
+  const p = String(pattern || '').trim().toUpperCase();
+  const m = p.split('-').map(s => s.trim());
+  if (m.length === 2 && /^[A-E]\d{2}$/.test(m[0]) && /^[A-E]\d{2}$/.test(m[1])) {
+    return m[0] <= m[1] ? [m[0], m[1]] : [m[1], m[0]];
+  }
+  if (m.length === 1 && ECO_RE.test(m[0])) {
+    // Prefix: "B" = B00-B99, "B2" = B20-B29, "B20" = B20
+    return [m[0].padEnd(3, '0'), m[0].padEnd(3, '9')];
+  }
+  return null;
+}
+
+/** Why a rule can't be used, or null when it is valid. */
+export function validateRule(rule) {
+  if (!rule || !RULE_KINDS.includes(rule.kind)) return 'Unknown rule type';
+  if (!rule.deckId) return 'Choose a deck';
+  const pattern = String(rule.pattern || '').trim();
+  if (!pattern) return 'Pattern is empty';
+  if (rule.kind === 'eco' && !ecoRange(pattern)) return 'Use an ECO code, prefix or range (e.g. B90, B2, C60-C99)';
+  if (rule.kind === 'fen' && !expandPlacement(pattern.replace(/\?/g, 'x'))) {
+    return 'Use a FEN piece placement with 8 ranks ("?" for any square)';
+  }
+  if (rule.kind === 'moves' && !normalizeSans(pattern).length) return 'No moves in the pattern';
+  return null;
+}
+
+/**
+ * Does `rule` match a card?
+ * input: { sans: string[], fen: string, eco?: string, tags?: string[] }
+ */
+export function ruleMatches(rule, input) {
+  if (!rule || rule.enabled === false || validateRule(rule)) return false;
+  if (rule.side && rule.side !== 'any' && sideToMove(input.fen) !== rule.side) return false;
+  const pattern = String(rule.pattern).trim();
+  switch (rule.kind) {
+    case 'moves': {
+      const want = normalizeSans(pattern);
+      const sans = input.sans || [];
+      if (sans.length < want.length) return false;
+      return want.every((m, i) => m === '*' || m === sans[i]);
+    }
+    case 'eco': {
+      const eco = String(input.eco || '').trim().toUpperCase().slice(0, 3);
+      const range = ecoRange(pattern);
+      return !!eco && !!range && eco >= range[0] && eco <= range[1];
+    }
+    case 'fen': {
+      const want = expandPlacement(pattern.replace(/\?/g, 'x'));
+      const have = expandPlacement(input.fen);
+      if (!want || !have) return false;
+      for (let i = 0; i < 64; i++) if (want[i] !== 'x' && want[i] !== have[i]) return false;
+      return true;
+    }
+    case 'tag': {
+      const t = pattern.toLowerCase();
+      return (input.tags || []).some(x => String(x).toLowerCase() === t);
+    }
+  }
+  return false;
+}
+
+/**
+ * Index of the first rule that matches and points at an existing deck, or -1.
+ * deckExists: (deckId) => boolean
+ */
+export function matchRule(rules, input, deckExists = () => true) {
+  if (!Array.isArray(rules)) return -1;
+  return rules.findIndex(r => ruleMatches(r, input) && deckExists(r.deckId));
+}
+
+/** Deck for a card: the first matching rule's deck, else `fallbackDeckId`. */
+export function assignDeck(rules, input, fallbackDeckId, deckExists = () => true) {
+  const i = matchRule(rules, input, deckExists);
+  return i >= 0 ? rules[i].deckId : fallbackDeckId;
+}
@@ -28,6 +28,9 @@ import { fileURLToPath, pathToFileURL } from 'node:url';
 import { spawn } from 'node:child_process';
 import { Chess } from 'chess.js';
 import { resolveEnginePath } from './engine-path.js';
+import { withFileLock, writeFileSafe } from './cards-file.js';
+import { assignDeck } from './deck-rules.js';
+import { buildOpeningIndex, classifyOpening } from './openings.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -36,6 +39,9 @@ const ROOT = process.cwd();
 const CARDS_PATH = path.resolve(ROOT, 'src', 'data', 'cards.json');
 const CONFIG_PATH = path.resolve(ROOT, 'src', 'data', 'cardgen.config.json');
 const ANS_OVR_PATH = path.resolve(ROOT, 'src', 'data', 'answer-overrides.json');
+const DECKS_PATH = path.resolve(ROOT, 'src', 'data', 'decks.json');
+const DECK_RULES_PATH = path.resolve(ROOT, 'src', 'data', 'deckRules.json');
+const OPENINGS_PATH = path.resolve(ROOT, 'src', 'data', 'openings.json');
 
 // Allow the Electron app to cancel an in-flight Stockfish analysis
 let CURRENT_ENGINE = null;
@@ -165,9 +171,18 @@ function formatCardsJson(arr) {
   return formatValue(arr, 0, '') + '\n';
 }
 function saveCardsArray(arr) {
-  fs.mkdirSync(path.dirname(CARDS_PATH), { recursive: true });
-  const out = formatCardsJson(arr);
-  fs.writeFileSync(CARDS_PATH, out, 'utf-8');
+  writeFileSafe(CARDS_PATH, formatCardsJson(arr));
+}
+/**
+ * Re-read cards.json under the lock, apply `mutate` and save. Analysis can take
+ * a while; edits made in the meantime (reviews, the app, a scan) are kept.
+ */
+function updateCardsArray(mutate) {
+  withFileLock(CARDS_PATH, () => {
+    const fresh = loadCardsArray();
+    mutate(fresh);
+    saveCardsArray(fresh);
+  });
 }
 
 // ---------- Forced Answers (FEN -> SAN) ----------
@@ -184,6 +199,27 @@ function loadAnswerOverrides() {
 }
 const OVR = loadAnswerOverrides();
 
+// ---------- Deck rules (edited in the app; read per card so changes apply mid-scan) ----------
+function readJsonArray(file) {
+  try {
+    if (!fs.existsSync(file)) return [];
+    const parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+/** Deck for a new card: the first matching rule, else the side's default deck. */
+function chooseDeck(review, opening, fallbackDeckId) {
+  const rules = readJsonArray(DECK_RULES_PATH);
+  if (!rules.length) return fallbackDeckId;
+  const deckIds = new Set(readJsonArray(DECKS_PATH).map(d => d?.id));
+  return assignDeck(rules, { sans: review.sans, fen: review.fen, eco: opening?.eco, tags: [] }, fallbackDeckId, id => deckIds.has(id));
+}
+
+// ---------- Opening names (ECO) ----------
+const OPENINGS = buildOpeningIndex(readJsonArray(OPENINGS_PATH));
+
 // ---------- PGN / moves ----------
 function pgnToSANArray(pgn) {
   const s = String(pgn || '');
@@ -421,7 +457,9 @@ export async function createCard({
   const review = (typeof fen === 'string' && fen.trim())
     ? buildReviewFromFEN(fen)
     : buildReviewFromSANs(sans);
-  const { fen: reviewFEN, deckId, depthMove } = review;
+  const { fen: reviewFEN, depthMove } = review;
+  const opening = classifyOpening(OPENINGS, review.sans, reviewFEN);
+  const deckId = chooseDeck(review, opening, review.deckId);
 
   // Load cards and compute path key (duplicate handling occurs after config is loaded)
   const arr = loadCardsArray();
@@ -444,7 +482,8 @@ export async function createCard({
   // Duplicate handling (by exact move sequence for this deck)
   console.log(`[make-card] createCard: deck=${deckId} pathKey='${pathKey}' dupStrategy='${duplicateStrategy}'`);
   let overwriteId = null;
-  const dupPath = arr.find(c => c?.fields?.moveSequence === pathKey && c?.deck === deckId);
+  // Decks are user-editable: a move sequence is a duplicate in any deck (FEN-only cards match within the deck)
+  const dupPath = arr.find(c => (c?.fields?.moveSequence || '') === pathKey && (pathKey !== '' || c?.deck === deckId));
   if (dupPath) {
     const mode = String(duplicateStrategy || 'skip');
     if (mode === 'skip') {
@@ -461,7 +500,8 @@ export async function createCard({
 
   // Transposition-aware; run engine only if needed or forced
   const key4 = (() => { try { return reviewFEN.split(/\s+/).slice(0,4).join(' '); } catch { return reviewFEN; } })();
-  const sameFenCards = arr.filter(c => c?.deck === deckId && typeof c?.fields?.fen === 'string' && c.fields.fen.split(/\s+/).slice(0,4).join(' ') === key4);
+  // Transpositions share an answer across decks (the key includes the side to move)
+  const sameFenCards = arr.filter(c => typeof c?.fields?.fen === 'string' && c.fields.fen.split(/\s+/).slice(0,4).join(' ') === key4);
   const forceEntry = OVR[key4] ?? OVR[reviewFEN];
   const forcedSAN = (typeof forceEntry === 'string') ? String(forceEntry) : (forceEntry && typeof forceEntry === 'object' ? String(forceEntry.move || '') : undefined);
   let infos = [];
@@ -636,6 +676,7 @@ export async function createCard({
     otherAnswers: others,
     depth: depthMove,
     creationCriteria,
+    ...(opening ? { eco: opening.eco, opening: opening.name } : {}),
     ...(parentId ? { parent: parentId } : {}),
   };
 
@@ -644,6 +685,7 @@ export async function createCard({
   const card = { id, deck: deckId, tags: [], fields, due: 'new' };
 
   // Apply forced/anchor answer selection and transposition rules
+  const syncAnswerIds = new Set(); // transpositions whose answer follows this card's
   try {
     const chosenForced = (() => { const v = OVR[key4] ?? OVR[reviewFEN]; if (!v) return ''; if (typeof v === 'string') return v; if (typeof v === 'object') return v.move || ''; return ''; })();
     const chosen = ( chosenForced || (sameFenCards[0]?.fields?.answer) || bestAnswerSAN || '' ).trim();
@@ -673,51 +715,51 @@ export async function createCard({
         card.fields.exampleLine = [...anchor.fields.exampleLine];
       }
     }
-    if (sameFenCards.length) {
-      let mutated = false;
-      for (const c of sameFenCards) {
-        if (c?.fields?.answer !== card.fields.answer) {
-          c.fields.answer = card.fields.answer;
-          try {
-            const chessY = new Chess(c.fields.fen || reviewFEN);
-            const mvY = chessY.move(card.fields.answer, { sloppy: true });
-            if (mvY) c.fields.answerFen = chessY.fen();
-          } catch {}
-          mutated = true;
-        }
-      }
-      if (mutated) saveCardsArray(arr);
+    for (const c of sameFenCards) {
+      if (c?.fields?.answer !== card.fields.answer) syncAnswerIds.add(c.id);
     }
   } catch {}
 
-  // If we found a parent, add this card id to its children (dedup)
-  if (parentId) {
-    const p = arr.find(c => c.id === parentId);
-    if (p) {
-      const next = new Set([...(p.fields.children || []), id]);
-      p.fields.children = [...next];
+  updateCardsArray(arr => {
+    // Transpositions share one answer
+    for (const c of arr) {
+      if (!syncAnswerIds.has(c?.id) || c.fields?.answer === card.fields.answer) continue;
+      c.fields.answer = card.fields.answer;
+      try {
+        const chessY = new Chess(c.fields.fen || reviewFEN);
+        const mvY = chessY.move(card.fields.answer, { sloppy: true });
+        if (mvY) c.fields.answerFen = chessY.fen();
+      } catch {}
+    }
+
+    // If we found a parent, add this card id to its children (dedup)
+    if (parentId) {
+      const p = arr.find(c => c.id === parentId);
+      if (p) {
+        const next = new Set([...(p.fields.children || []), id]);
+        p.fields.children = [...next];
+      }
     }
-  }
 
-  // Append or overwrite in cards.json
-  if (overwriteId) {
-    const idx = arr.findIndex(c => c.id === overwriteId);
-    console.log(`[make-card] overwrite path: overwriteId=${overwriteId} idx=${idx}`);
-    if (idx >= 0) {
-      // Overwrite entirely (do not preserve tags or due)
-      const prev = arr[idx];
-      const next = { id: prev.id, deck: deckId, tags: [], fields: card.fields, due: 'new' };
-      arr[idx] = next;
-      console.log(`[make-card] overwrote existing card id=${prev.id}`);
+    // Append or overwrite in cards.json
+    if (overwriteId) {
+      const idx = arr.findIndex(c => c.id === overwriteId);
+      console.log(`[make-card] overwrite path: overwriteId=${overwriteId} idx=${idx}`);
+      if (idx >= 0) {
+        // Overwrite entirely (do not preserve tags or due)
+        const prev = arr[idx];
+        const next = { id: prev.id, deck: deckId, tags: [], fields: card.fields, due: 'new' };
+        arr[idx] = next;
+        console.log(`[make-card] overwrote existing card id=${prev.id}`);
+      } else {
+        console.log(`[make-card] overwriteId not found; pushing as new card id=${id}`);
+        arr.push(card);
+      }
     } else {
-      console.log(`[make-card] overwriteId not found; pushing as new card id=${id}`);
       arr.push(card);
+      console.log(`[make-card] appended new card id=${id}`);
     }
-  } else {
-    arr.push(card);
-    console.log(`[make-card] appended new card id=${id}`);
-  }
-  saveCardsArray(arr);
+  });
 
   // Console output summary
   console.log(`${overwriteId ? '[make-card] Overwrote card' : '[make-card] Added card'} ${id} to ${path.relative(ROOT, CARDS_PATH)}`);
@@ -0,0 +1,9 @@
+// Types for openings.js (imported by the app from src/state/openings.ts)
+
+export type OpeningEntry = { eco: string; name: string; pgn: string };
+export type Opening = { eco: string; name: string };
+export type OpeningIndex = Map<string, Opening>;
+
+export function fen4(fen: string): string;
+export function buildOpeningIndex(entries: OpeningEntry[]): OpeningIndex;
+export function classifyOpening(index: OpeningIndex, sans: string[], fen?: string): Opening | null;
@@ -0,0 +1,49 @@
+// ECO codes and opening names, shared by make-card.js and the app (src/state/openings.ts).
+// The table is src/data/openings.json: { eco, name, pgn } per named line. Lines are
+// keyed by the 4-field FEN they reach (as in answer-overrides.json), so a card is
+// named by position and transpositions find the same opening whatever the move order.
+import { Chess } from 'chess.js';
+
+/** Placement, side to move, castling and en passant; drops the move counters. */
+export function fen4(fen) {
+  return String(fen || '').trim().split(/\s+/).slice(0, 4).join(' ');
+}
+
+/**
+ * 4-field FEN -> { eco, name } for every line in the table. When two lines
+ * reach the same position the first one listed keeps it.
+ */
+export function buildOpeningIndex(entries) {
+  const index = new Map();
+  for (const e of Array.isArray(entries) ? entries : []) {
+    if (!e || !e.eco || !e.name) continue;
+    const chess = new Chess();
+    const sans = String(e.pgn || '').split(/\s+/).filter(t => t && !/^\d+\.+$/.test(t));
+    let ok = true;
+    for (const san of sans) {
+      try { chess.move(san); } catch { ok = false; break; }
+    }
+    if (!ok) continue;
+    const key = fen4(chess.fen());
+    if (!index.has(key)) index.set(key, { eco: e.eco, name: e.name });
+  }
+  return index;
+}
+
+/**
+ * Deepest named position along `sans` (played from the start), or the card's own
+ * `fen` when that is named, or null. Stops at the first illegal move.
+ */
+export function classifyOpening(index, sans, fen) {
+  if (!index || !index.size) return null;
+  const own = fen ? index.get(fen4(fen)) : undefined;
+  if (own) return own;
+  let best = null;
+  const chess = new Chess();
+  for (const san of Array.isArray(sans) ? sans : []) {
+    try { chess.move(san); } catch { break; }
+    const hit = index.get(fen4(chess.fen()));
+    if (hit) best = hit;
+  }
+  return best;
+}
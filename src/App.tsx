@@ -17,7 +17,14 @@ import ManageDeckPage from './pages/ManageDeckPage';
 import { useEffect, useMemo, useRef, useState } from 'react';
 import { useSettings } from './state/settings';
 import { replaceCards } from './data/cardStore';
+import { loadDecksFromFileIfAvailable } from './decks';
+import { loadDeckRulesFromFileIfAvailable } from './state/deckRules';
+import { importDeckLimitsFileIfAvailable } from './state/deckLimits';
+import { loadReplyCountsFromScanIfAvailable } from './state/replyWeights';
 import ForcedAnswersPage from './pages/ForcedAnswersPage';
+import DrillPage from './pages/DrillPage';
+import CustomStudyPage from './pages/CustomStudyPage';
+import DeckRulesPage from './pages/DeckRulesPage';
 
 declare global {
   interface Window {
@@ -65,6 +72,8 @@ function Header() {
           const arr = await (window as any).cards?.readAll?.();
           if (arr) replaceCards(arr as any);
         } catch {}
+        // Scans also tally opponent replies; refresh the weights used by drills/queues
+        loadReplyCountsFromScanIfAvailable();
       }) || undefined;
 
       // Limit to recent 5 games for testing
@@ -275,6 +284,16 @@ export default function App() {
     return () => { try { mo.disconnect(); } catch {} };
   }, []);
 
+  // Mirror opponent reply counts from the scan ledger (Electron only)
+  useEffect(() => { loadReplyCountsFromScanIfAvailable(); }, []);
+
+  // decks.json / deckRules.json may have changed since the bundle was built; re-render once they're read
+  // (and once deck limits from an older deckSettings.json are imported)
+  const [, setDecksLoaded] = useState(0);
+  useEffect(() => {
+    Promise.all([loadDecksFromFileIfAvailable(), loadDeckRulesFromFileIfAvailable(), importDeckLimitsFileIfAvailable()]).then(() => setDecksLoaded(v => v + 1));
+  }, []);
+
   // Keep a CSS var of the app header height for sticky page titles
   useEffect(() => {
     const updateVar = () => {
@@ -297,6 +316,9 @@ export default function App() {
               <Routes>
                 <Route path="/" element={<DecksPage />} />
                 <Route path="/review/:deckId" element={<ReviewPage />} />
+                <Route path="/drill/:deckId" element={<DrillPage />} />
+                <Route path="/custom-study/:deckId" element={<CustomStudyPage />} />
+                <Route path="/custom-review/:deckId" element={<ReviewPage custom />} />
                 <Route path="/settings" element={<SettingsPage />} />
                 <Route path="/settings/keybinds" element={<KeybindsPage />} />
                 <Route path="/settings/forced-answers" element={<ForcedAnswersPage />} />
@@ -305,6 +327,7 @@ export default function App() {
                 <Route path="/manual-add" element={<ManualAddPage />} />
                 <Route path="/edit/:cardId" element={<EditCardPage />} /> {/* NEW */}
                 <Route path="/manage/:deckId" element={<ManageDeckPage />} />
+                <Route path="/deck-rules" element={<DeckRulesPage />} />
               </Routes>
             </ErrorBoundary>
           </div>
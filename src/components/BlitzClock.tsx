@@ -0,0 +1,43 @@
+import { useEffect, useRef, useState } from 'react';
+
+type Props = {
+  limitMs: number;
+  /** fired once when the clock reaches zero */
+  onTimeout: () => void;
+  width?: number;
+};
+
+/** Per-card countdown for blitz review. Starts when mounted; remount (key) to restart. */
+export default function BlitzClock({ limitMs, onTimeout, width = 420 }: Props) {
+  const [startedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(startedAt);
+  const onTimeoutRef = useRef(onTimeout);
+  onTimeoutRef.current = onTimeout;
+
+  useEffect(() => {
+    const t = window.setInterval(() => {
+      const n = Date.now();
+      setNow(n);
+      if (n - startedAt >= limitMs) {
+        window.clearInterval(t);
+        onTimeoutRef.current();
+      }
+    }, 100);
+    return () => window.clearInterval(t);
+  }, [startedAt, limitMs]);
+
+  const remaining = Math.max(0, limitMs - (now - startedAt));
+  const frac = limitMs > 0 ? remaining / limitMs : 0;
+  const low = frac <= 0.25;
+
+  return (
+    <div style={{ width, margin: '0 auto', display: 'grid', gap: 4 }} aria-label="Time remaining">
+      <div style={{ height: 6, borderRadius: 999, background: 'rgba(255,255,255,0.08)', overflow: 'hidden' }}>
+        <div style={{ width: `${frac * 100}%`, height: '100%', background: low ? '#f87171' : 'var(--accent, #ffd54f)', transition: 'width 100ms linear' }} />
+      </div>
+      <div className="sub" style={{ textAlign: 'center', fontVariantNumeric: 'tabular-nums', color: low ? '#f87171' : undefined }}>
+        {(remaining / 1000).toFixed(1)}s
+      </div>
+    </div>
+  );
+}
@@ -3,12 +3,21 @@ import { Chess } from 'chess.js';
 
 type Orientation = 'white' | 'black';
 
+export type BoardMark = { square: string; kind: 'selected' | 'target' | 'hint' };
+export type BoardArrow = { from: string; to: string };
+
 type BoardProps = {
   fen: string;
   size?: number;
   orientation?: Orientation;
   /** highlight the last move's from/to squares (algebraic, e.g. "e2","e4") */
   highlight?: { from?: string; to?: string } | null;
+  /** extra square markers: 'selected' fills the square, 'target' draws a dot, 'hint' outlines it */
+  marks?: BoardMark[];
+  /** arrows drawn above the pieces */
+  arrows?: BoardArrow[];
+  /** enables pointer input; reports the square under the pointer on press/release */
+  onSquarePointer?: (square: string, phase: 'down' | 'up') => void;
 };
 
 /** fallback to start if FEN is bad */
@@ -56,11 +65,29 @@ function fileRankToXY(
   }
 }
 
+/** inverse of fileRankToXY for a pointer position inside the board's bounding box */
+function pointToSquare(
+  clientX: number,
+  clientY: number,
+  rect: DOMRect,
+  orientation: Orientation,
+): string | null {
+  const x = Math.floor(((clientX - rect.left) / rect.width) * 8);
+  const y = Math.floor(((clientY - rect.top) / rect.height) * 8);
+  if (x < 0 || x > 7 || y < 0 || y > 7) return null;
+  const file = orientation === 'white' ? x : 7 - x;
+  const rank = orientation === 'white' ? 7 - y : y;
+  return String.fromCharCode(97 + file) + String(rank + 1);
+}
+
 export default function Board({
   fen,
   size = 360,
   orientation = 'white',
   highlight = null,
+  marks,
+  arrows,
+  onSquarePointer,
 }: BoardProps) {
   const sFen = useMemo(() => safeFen(fen), [fen]);
 
@@ -94,6 +121,37 @@ export default function Board({
     return out;
   }, [highlight, orientation]);
 
+  const markShapes = useMemo(() => {
+    const out: Array<{ x: number; y: number; kind: BoardMark['kind'] }> = [];
+    for (const m of marks || []) {
+      const fr = squareToFileRank(m.square);
+      if (!fr) continue;
+      const { x, y } = fileRankToXY(fr[0], fr[1], orientation);
+      out.push({ x, y, kind: m.kind });
+    }
+    return out;
+  }, [marks, orientation]);
+
+  // arrows in square-center coordinates
+  const arrowLines = useMemo(() => {
+    const out: Array<{ x1: number; y1: number; x2: number; y2: number }> = [];
+    for (const a of arrows || []) {
+      const f = squareToFileRank(a.from);
+      const t = squareToFileRank(a.to);
+      if (!f || !t) continue;
+      const p1 = fileRankToXY(f[0], f[1], orientation);
+      const p2 = fileRankToXY(t[0], t[1], orientation);
+      out.push({ x1: p1.x + 0.5, y1: p1.y + 0.5, x2: p2.x + 0.5, y2: p2.y + 0.5 });
+    }
+    return out;
+  }, [arrows, orientation]);
+
+  const pointerHandler = (phase: 'down' | 'up') => (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!onSquarePointer) return;
+    const square = pointToSquare(e.clientX, e.clientY, e.currentTarget.getBoundingClientRect(), orientation);
+    if (square) onSquarePointer(square, phase);
+  };
+
   return (
     <svg
       role="img"
@@ -101,7 +159,15 @@ export default function Board({
       width={size}
       height={size}
       viewBox="0 0 8 8"
-      style={{ borderRadius: 8, overflow: 'hidden', boxShadow: '0 0 0 1px var(--border-strong)' }}
+      style={{
+        borderRadius: 8,
+        overflow: 'hidden',
+        boxShadow: '0 0 0 1px var(--border-strong)',
+        cursor: onSquarePointer ? 'pointer' : undefined,
+        touchAction: onSquarePointer ? 'none' : undefined,
+      }}
+      onPointerDown={onSquarePointer ? pointerHandler('down') : undefined}
+      onPointerUp={onSquarePointer ? pointerHandler('up') : undefined}
     >
       {/* squares */}
       {Array.from({ length: 64 }, (_, idx) => {
@@ -135,6 +201,41 @@ export default function Board({
         />
       ))}
 
+      {/* input markers (selected piece, legal destinations, hint squares) */}
+      {markShapes.map(({ x, y, kind }, i) =>
+        kind === 'hint' ? (
+          <rect
+            key={`mk-${i}`}
+            x={x + 0.05}
+            y={y + 0.05}
+            width={0.9}
+            height={0.9}
+            fill="none"
+            stroke="var(--accent, #ffd54f)"
+            strokeWidth={0.1}
+            rx={0.08}
+          />
+        ) : kind === 'selected' ? (
+          <rect
+            key={`mk-${i}`}
+            x={x}
+            y={y}
+            width={1}
+            height={1}
+            fill="var(--accent, #ffd54f)"
+            opacity={0.45}
+          />
+        ) : (
+          <circle
+            key={`mk-${i}`}
+            cx={x + 0.5}
+            cy={y + 0.5}
+            r={0.15}
+            fill="rgba(0, 0, 0, 0.3)"
+          />
+        )
+      )}
+
       {/* pieces */}
       {(() => {
         const nodes: React.ReactNode[] = [];
@@ -166,6 +267,36 @@ export default function Board({
         }
         return nodes;
       })()}
+
+      {/* arrows */}
+      {arrowLines.length > 0 && (
+        <defs>
+          <marker id="board-arrowhead" viewBox="0 0 4 4" refX={2} refY={2} markerWidth={3} markerHeight={3} orient="auto">
+            <path d="M0,0 L4,2 L0,4 z" fill="rgba(255, 170, 0, 0.85)" />
+          </marker>
+        </defs>
+      )}
+      {arrowLines.map((l, i) => {
+        // stop short of the target center so the head sits on the square
+        const dx = l.x2 - l.x1;
+        const dy = l.y2 - l.y1;
+        const len = Math.hypot(dx, dy) || 1;
+        const trim = 0.3;
+        return (
+          <line
+            key={`ar-${i}`}
+            x1={l.x1}
+            y1={l.y1}
+            x2={l.x2 - (dx / len) * trim}
+            y2={l.y2 - (dy / len) * trim}
+            stroke="rgba(255, 170, 0, 0.85)"
+            strokeWidth={0.16}
+            strokeLinecap="round"
+            markerEnd="url(#board-arrowhead)"
+            style={{ pointerEvents: 'none' }}
+          />
+        );
+      })}
     </svg>
   );
 }
@@ -1,5 +1,5 @@
-import React, { useMemo, useState, useCallback, useEffect } from 'react';
-import Board from './Board';
+import React, { useMemo, useState, useCallback, useEffect, useRef } from 'react';
+import Board, { BoardMark, BoardArrow } from './Board';
 import { Chess } from 'chess.js';
 import './boardplayer.css'; // nav button styles
 import { useBoardKeybinds } from '../hooks/useBoardKeybinds';
@@ -40,6 +40,19 @@ type Base = {
   labelForIndex?: (idx: number, moveSan: string | null) => React.ReactNode;
   /** notify external listeners when index changes */
   onIndexChange?: (idx: number) => void;
+  /**
+   * enables move input (click-click or drag) on the last frame;
+   * called with the played move, promotions default to a queen
+   */
+  onMove?: (move: { from: string; to: string; san: string; fen: string }) => void;
+  /** extra marks/arrows drawn on the last frame (e.g. review hints) */
+  overlay?: { marks?: BoardMark[]; arrows?: BoardArrow[] } | null;
+  /** hide the board and show the moves as text; move input becomes a text field */
+  blindfold?: boolean;
+  /** replay from the first frame, one move every N ms (manual navigation stops it) */
+  autoplayMs?: number;
+  /** called once the autoplay reaches the last frame */
+  onAutoplayEnd?: () => void;
 };
 
 export type BoardPlayerProps = (PgnMode | SanMode | FramesMode) & Base;
@@ -57,6 +70,20 @@ function pgnToSanArray(pgn: string): string[] {
     .filter(Boolean);
 }
 
+/** "1. e4 e5 2. Nf3" style text for the moves leading up to frame idx. */
+function movesText(frames: string[], moves: LastMove[], idx: number): string {
+  const out: string[] = [];
+  for (let i = 1; i <= idx && i < frames.length; i++) {
+    const mv = moves[i];
+    if (!mv) continue;
+    const [, side, , , , full] = (frames[i - 1] || '').split(' ');
+    const n = parseInt(full || '1', 10) || 1;
+    if (side === 'b') out.push(out.length === 0 ? `${n}... ${mv.san}` : mv.san);
+    else out.push(`${n}. ${mv.san}`);
+  }
+  return out.join(' ');
+}
+
 /** Inline, solid SVG icons (consistent across platforms) */
 function Icon({ name }: { name: 'first' | 'prev' | 'next' | 'last' }) {
   if (name === 'prev') {
@@ -161,6 +188,7 @@ export default function BoardPlayer(props: BoardPlayerProps & WithFlip) {
       const i = Math.max(0, Math.min(props.startIndex, frames.length - 1));
       return i;
     }
+    if (props.autoplayMs) return 0;
     return startAt === 'last' ? Math.max(0, frames.length - 1) : 0;
   }, [props, frames, startAt]);
 
@@ -170,11 +198,29 @@ export default function BoardPlayer(props: BoardPlayerProps & WithFlip) {
   const atStart = idx <= 0;
   const atEnd = idx >= frames.length - 1;
 
+  // --- autoplay (replay the line before the prompt) ---
+  const [autoplaying, setAutoplaying] = useState(() => !!props.autoplayMs && frames.length > 1);
+  const autoplayEndedRef = useRef(false);
+  useEffect(() => {
+    if (!autoplaying || !props.autoplayMs) return;
+    const t = window.setInterval(() => setIdx(i => Math.min(frames.length - 1, i + 1)), props.autoplayMs);
+    return () => window.clearInterval(t);
+  }, [autoplaying, props.autoplayMs, frames.length]);
+  useEffect(() => {
+    if (!props.autoplayMs || autoplayEndedRef.current) return;
+    if (atEnd || !autoplaying) {
+      // Finished (or interrupted): the prompt starts now
+      autoplayEndedRef.current = true;
+      setAutoplaying(false);
+      props.onAutoplayEnd?.();
+    }
+  }, [atEnd, autoplaying]);
+
   // --- keybind handlers (ArrowDown=first, ArrowLeft=prev, ArrowRight=next, ArrowUp=last) ---
-  const goFirst = useCallback(() => setIdx(0), []);
-  const goPrev  = useCallback(() => setIdx(i => Math.max(0, i - 1)), []);
-  const goNext  = useCallback(() => setIdx(i => Math.min(frames.length - 1, i + 1)), [frames.length]);
-  const goLast  = useCallback(() => setIdx(frames.length - 1), [frames.length]);
+  const goFirst = useCallback(() => { setAutoplaying(false); setIdx(0); }, []);
+  const goPrev  = useCallback(() => { setAutoplaying(false); setIdx(i => Math.max(0, i - 1)); }, []);
+  const goNext  = useCallback(() => { setAutoplaying(false); setIdx(i => Math.min(frames.length - 1, i + 1)); }, [frames.length]);
+  const goLast  = useCallback(() => { setAutoplaying(false); setIdx(frames.length - 1); }, [frames.length]);
 
   // Attach keybinds globally while this component is mounted.
   useBoardKeybinds(
@@ -184,17 +230,120 @@ export default function BoardPlayer(props: BoardPlayerProps & WithFlip) {
 
   const moveNow: LastMove = lastMoves[idx] ?? null;
 
+  // --- move input (only on the final frame) ---
+  const inputEnabled = !!props.onMove && atEnd;
+  const [selected, setSelected] = useState<string | null>(null);
+  const selectedRef = useRef<string | null>(null);
+  const selectSquare = useCallback((sq: string | null) => {
+    selectedRef.current = sq;
+    setSelected(sq);
+  }, []);
+  useEffect(() => { selectSquare(null); }, [idx, frames, selectSquare]);
+
+  const targets = useMemo(() => {
+    if (!inputEnabled || !selected) return [] as string[];
+    try {
+      return new Chess(frames[idx]).moves({ square: selected as any, verbose: true }).map(m => m.to);
+    } catch {
+      return [];
+    }
+  }, [inputEnabled, selected, frames, idx]);
+
+  // Blindfold input: type the move (SAN or UCI)
+  const [typed, setTyped] = useState('');
+  const [typedError, setTypedError] = useState('');
+  const submitTyped = useCallback(() => {
+    const m = typed.trim();
+    if (!m) return;
+    try {
+      const chess = new Chess(frames[idx]);
+      const uci = /^([a-h][1-8])([a-h][1-8])([qrbn])?$/i.exec(m);
+      const mv = uci
+        ? chess.move({ from: uci[1].toLowerCase(), to: uci[2].toLowerCase(), promotion: (uci[3] || 'q').toLowerCase() })
+        : chess.move(m);
+      if (!mv) throw new Error('illegal');
+      setTyped('');
+      setTypedError('');
+      props.onMove?.({ from: mv.from, to: mv.to, san: mv.san, fen: chess.fen() });
+    } catch {
+      setTypedError(`Not a legal move: ${m}`);
+    }
+  }, [typed, frames, idx, props.onMove]);
+
+  const tryMove = useCallback((from: string, to: string): boolean => {
+    try {
+      const chess = new Chess(frames[idx]);
+      const mv = chess.move({ from, to, promotion: 'q' });
+      if (!mv) return false;
+      selectSquare(null);
+      props.onMove?.({ from: mv.from, to: mv.to, san: mv.san, fen: chess.fen() });
+      return true;
+    } catch {
+      return false; // chess.js throws on illegal moves
+    }
+  }, [frames, idx, props.onMove, selectSquare]);
+
+  const onSquarePointer = useCallback((sq: string, phase: 'down' | 'up') => {
+    const from = selectedRef.current;
+    if (phase === 'up') {
+      // drag release onto another square
+      if (from && from !== sq) tryMove(from, sq);
+      return;
+    }
+    if (from && from !== sq && tryMove(from, sq)) return;
+    try {
+      const chess = new Chess(frames[idx]);
+      const piece = chess.get(sq as any);
+      selectSquare(piece && piece.color === chess.turn() && from !== sq ? sq : null);
+    } catch {
+      selectSquare(null);
+    }
+  }, [frames, idx, tryMove, selectSquare]);
+
+  const marks = useMemo(() => {
+    const out: BoardMark[] = atEnd ? [...(props.overlay?.marks || [])] : [];
+    if (inputEnabled && selected) {
+      out.push({ square: selected, kind: 'selected' });
+      for (const t of targets) out.push({ square: t, kind: 'target' });
+    }
+    return out.length ? out : undefined;
+  }, [atEnd, props.overlay, inputEnabled, selected, targets]);
+
   return (
     <div className="bp-wrap">
-      <Board
-        fen={frames[idx]}
-        size={size}
-        orientation={orientation}
-        highlight={moveNow ? { from: moveNow.from, to: moveNow.to } : null}
-      />
+      {props.blindfold ? (
+        <div className="bp-blindfold" style={{ width: size, height: size }} aria-label="Moves (board hidden)">
+          <div className="bp-blindfold-moves">{movesText(frames, lastMoves, idx) || 'Initial position'}</div>
+          <div className="sub">{(frames[idx] || '').split(' ')[1] === 'b' ? 'Black' : 'White'} to move</div>
+          {inputEnabled && (
+            <div style={{ display: 'grid', gap: 4 }}>
+              <input
+                type="text"
+                value={typed}
+                placeholder="Your move (e.g. Nf3)"
+                autoFocus
+                onChange={e => { setTyped(e.currentTarget.value); setTypedError(''); }}
+                onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); e.stopPropagation(); submitTyped(); } }}
+                style={{ backgroundColor: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px' }}
+              />
+              {typedError && <div className="sub" style={{ color: '#f87171' }}>{typedError}</div>}
+            </div>
+          )}
+        </div>
+      ) : (
+        <Board
+          fen={frames[idx]}
+          size={size}
+          orientation={orientation}
+          highlight={moveNow ? { from: moveNow.from, to: moveNow.to } : null}
+          marks={marks}
+          arrows={atEnd ? props.overlay?.arrows : undefined}
+          onSquarePointer={inputEnabled ? onSquarePointer : undefined}
+        />
+      )}
 
       {/* Current move label */}
-      {showMoveLabel && (
+      {showMoveLabel && !props.blindfold && (
         <div className="bp-move sub" style={{ textAlign: 'center', marginTop: 6, minHeight: 18 }}>
           {props.labelForIndex
             ? (props.labelForIndex(idx, moveNow?.san ?? null) as any)
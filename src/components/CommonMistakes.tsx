@@ -0,0 +1,53 @@
+import React from 'react';
+import type { WrongAnswer } from '../data/types';
+
+type Props = {
+  mistakes: WrongAnswer[];
+  /** max rows shown (default: all) */
+  limit?: number;
+  /** optional action shown in the header, e.g. a Clear button */
+  action?: React.ReactNode;
+};
+
+function fmtDate(iso: string): string {
+  const t = Date.parse(iso);
+  return Number.isFinite(t) ? new Date(t).toLocaleDateString() : '—';
+}
+
+/** Wrong moves played in this position, most frequent first. */
+export default function CommonMistakes({ mistakes, limit, action }: Props) {
+  const rows = [...mistakes]
+    .sort((a, b) => (b.count - a.count) || b.lastTs.localeCompare(a.lastTs))
+    .slice(0, limit ?? mistakes.length);
+
+  return (
+    <div className="section" style={{ padding: 8 }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 4 }}>
+        <div style={{ fontWeight: 600 }}>Common Mistakes</div>
+        {action}
+      </div>
+      {rows.length === 0 ? (
+        <div className="sub">No wrong moves recorded for this card.</div>
+      ) : (
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr className="sub" style={{ textAlign: 'left' }}>
+              <th style={{ fontWeight: 500 }}>Move</th>
+              <th style={{ fontWeight: 500 }}>Times</th>
+              <th style={{ fontWeight: 500 }}>Last played</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(w => (
+              <tr key={w.move}>
+                <td><strong>{w.move}</strong></td>
+                <td>{w.count}×</td>
+                <td className="sub">{fmtDate(w.lastTs)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -2,10 +2,18 @@ import { useState } from 'react';
 import { Deck, getChildrenOf, getDeckById } from '../decks';
 import { useNavigate } from 'react-router-dom';
 import { getDueCountForDeck } from '../data/cardStore';
+import { deckRemovalBlocker, isSideDeck } from '../state/deckEdits';
 
-type Props = { rootId: string };
+export type DeckEditAction = 'add' | 'rename' | 'move' | 'merge' | 'delete';
 
-export default function DeckTree({ rootId }: Props) {
+type Props = {
+  rootId: string;
+  /** Show deck editing buttons instead of Review/Drill/Manage */
+  editing?: boolean;
+  onEdit?: (action: DeckEditAction, deck: Deck) => void;
+};
+
+export default function DeckTree({ rootId, editing = false, onEdit }: Props) {
   const navigate = useNavigate();
   const [expanded, setExpanded] = useState<Set<string>>(new Set());
 
@@ -21,6 +29,8 @@ export default function DeckTree({ rootId }: Props) {
     const isBranch = kids.length > 0;
     const isOpen = expanded.has(deck.id);
     const due = getDueCountForDeck(deck.id, true);
+    const isTop = !deck.parentId;
+    const blocker = editing ? deckRemovalBlocker(deck.id) : null;
 
     return (
       <div className="grid" style={{ paddingLeft: 12 + depth * 18 }}>
@@ -43,11 +53,22 @@ export default function DeckTree({ rootId }: Props) {
             <span title="Cards due today" style={{ display: 'inline-flex', alignItems: 'center', justifyContent: 'center', minWidth: 28, height: 28, padding: '0 8px', borderRadius: 999, fontWeight: 700, fontSize: 12, border: '1px solid rgba(255,255,255,0.12)', background: 'rgba(255,255,255,0.04)', color: 'var(--text)' }}>
               {due}
             </span>
-            <div style={{ display: 'flex', gap: 8 }}>
-              <button className="button" onClick={() => navigate(`/review/${deck.id}`)}>Review</button>
-              {/* Changed to primary style to match Review button */}
-              <button className="button" onClick={() => navigate(`/manage/${deck.id}`)}>Manage</button>
-            </div>
+            {editing ? (
+              <div style={{ display: 'flex', gap: 8 }}>
+                <button className="button secondary" onClick={() => onEdit?.('add', deck)} title="Create a deck inside this one">Add Sub-deck</button>
+                <button className="button secondary" onClick={() => onEdit?.('rename', deck)}>Rename</button>
+                <button className="button secondary" disabled={isTop || isSideDeck(deck.id)} onClick={() => onEdit?.('move', deck)} title="Move under another deck (with its sub-decks and cards)">Move</button>
+                <button className="button secondary" disabled={!!blocker} onClick={() => onEdit?.('merge', deck)} title={blocker || 'Move its cards and sub-decks into another deck, then remove it'}>Merge</button>
+                <button className="button secondary" disabled={!!blocker} onClick={() => onEdit?.('delete', deck)} title={blocker || 'Remove with its sub-decks; cards are moved or archived'}>Delete</button>
+              </div>
+            ) : (
+              <div style={{ display: 'flex', gap: 8 }}>
+                <button className="button" onClick={() => navigate(`/review/${deck.id}`)}>Review</button>
+                <button className="button" onClick={() => navigate(`/drill/${deck.id}`)} title="Play through a whole line, from a root card down to a leaf">Drill</button>
+                {/* Changed to primary style to match Review button */}
+                <button className="button" onClick={() => navigate(`/manage/${deck.id}`)}>Manage</button>
+              </div>
+            )}
           </div>
         </div>
 
@@ -0,0 +1,40 @@
+import type { KeyAction } from '../context/KeybindsProvider';
+import type { Grade } from '../state/scheduler';
+import { gradeRank } from '../state/moveCheck';
+
+type Props = {
+  onGrade: (grade: Grade) => void;
+  /** grades above this are locked (the auto-grade, lowered by hints) */
+  ceiling?: Grade;
+  /** outlined as the suggested grade */
+  suggested?: Grade;
+  /** keys bound to an action, for the tooltips ('' if none) */
+  keysFor: (action: KeyAction) => string;
+};
+
+const GRADES: Grade[] = ['again', 'hard', 'good', 'easy'];
+
+/** Again / Hard / Good / Easy row on the back of a card. */
+export default function GradeButtons({ onGrade, ceiling = 'easy', suggested, keysFor }: Props) {
+  return (
+    <div style={{ display: 'flex', gap: 10, justifyContent: 'center' }}>
+      {GRADES.map(g => {
+        const label = g.charAt(0).toUpperCase() + g.slice(1);
+        const keys = keysFor(`review.${g}` as KeyAction);
+        const isSuggested = suggested === g;
+        return (
+          <button
+            key={g}
+            className="button"
+            onClick={() => onGrade(g)}
+            disabled={gradeRank(g) > gradeRank(ceiling)}
+            style={isSuggested ? { outline: '2px solid var(--accent, #ffd54f)', outlineOffset: 2 } : undefined}
+            title={`${label}${isSuggested ? ' (suggested)' : ''}${keys ? ` (${keys})` : ''}`}
+          >
+            {label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
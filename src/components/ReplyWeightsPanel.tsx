@@ -0,0 +1,74 @@
+import { useMemo, useState } from 'react';
+import type { Card } from '../data/types';
+import { allCards } from '../data/cardStore';
+import { getReplyWeight, setManualReplyWeight } from '../state/replyWeights';
+import { replyMoveOf } from '../state/lineDrill';
+
+type Props = { card: Card };
+
+/** Opponent replies out of this card (its children) with their weights; manual weights save immediately. */
+export default function ReplyWeightsPanel({ card }: Props) {
+  const [, setBump] = useState(0);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const children = useMemo(() => {
+    const map = new Map(allCards().map(c => [c.id, c]));
+    // Prefer the in-memory card: children are recomputed from parent pointers at load
+    const ids = map.get(card.id)?.fields.children ?? card.fields.children ?? [];
+    return ids.map(id => map.get(id)).filter((c): c is Card => !!c);
+  }, [card]);
+
+  const rows = children.map(c => ({ card: c, reply: replyMoveOf(c), w: getReplyWeight(c) }));
+  const total = rows.reduce((a, r) => a + r.w.weight, 0);
+
+  const commit = (childId: string) => {
+    const raw = (drafts[childId] ?? '').trim();
+    const n = Number(raw);
+    setManualReplyWeight(childId, raw === '' || !Number.isFinite(n) ? null : n);
+    setDrafts(d => { const next = { ...d }; delete next[childId]; return next; });
+    setBump(v => v + 1);
+  };
+
+  return (
+    <div className="section" style={{ padding: 8 }}>
+      <div style={{ fontWeight: 600, marginBottom: 4 }}>Opponent Replies</div>
+      {rows.length === 0 ? (
+        <div className="sub">No child cards: this position ends the line.</div>
+      ) : (
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr className="sub" style={{ textAlign: 'left' }}>
+              <th style={{ fontWeight: 500 }}>Reply</th>
+              <th style={{ fontWeight: 500 }} title="Times seen in scanned Chess.com games">Chess.com</th>
+              <th style={{ fontWeight: 500 }} title="Times seen in imported PGN games">Games</th>
+              <th style={{ fontWeight: 500 }} title="Overrides the counts; leave blank to use them">Manual</th>
+              <th style={{ fontWeight: 500 }}>Share</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(r => (
+              <tr key={r.card.id}>
+                <td><strong>{r.reply || '?'}</strong> <span className="sub">{r.card.id}</span></td>
+                <td>{r.w.chesscom}</td>
+                <td>{r.w.games}</td>
+                <td>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={drafts[r.card.id] ?? (r.w.manual !== undefined ? String(r.w.manual) : '')}
+                    placeholder="auto"
+                    onChange={e => { const v = e.currentTarget.value; setDrafts(d => ({ ...d, [r.card.id]: v })); }}
+                    onBlur={() => { if (r.card.id in drafts) commit(r.card.id); }}
+                    onKeyDown={e => { if (e.key === 'Enter') commit(r.card.id); }}
+                    style={{ backgroundColor: '#ffffff', color: '#000000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '4px 6px', width: 70 }}
+                  />
+                </td>
+                <td>{total > 0 ? `${Math.round((r.w.weight / total) * 100)}%` : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
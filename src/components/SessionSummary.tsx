@@ -0,0 +1,125 @@
+import { Link } from 'react-router-dom';
+import type { Card } from '../data/types';
+import { allCards } from '../data/cardStore';
+import type { Grade, ReviewLogEntry } from '../state/scheduler';
+
+type Props = {
+  /** Review log entries written during this session */
+  entries: ReviewLogEntry[];
+  onReviewFailed?: (cardIds: string[]) => void;
+  nextDeck?: { id: string; name: string } | null;
+  onNextDeck?: () => void;
+  onDone: () => void;
+  doneLabel?: string;
+};
+
+const GRADES: Grade[] = ['again', 'hard', 'good', 'easy'];
+
+const GRADE_COLOR: Record<Grade, string> = {
+  again: '#f87171',
+  hard: '#fbbf24',
+  good: '#4ade80',
+  easy: '#60a5fa',
+};
+
+function formatDuration(ms: number): string {
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  const m = Math.floor(s / 60);
+  if (m < 60) return `${m}m ${String(s % 60).padStart(2, '0')}s`;
+  return `${Math.floor(m / 60)}h ${String(m % 60).padStart(2, '0')}m`;
+}
+
+/** End-of-queue report built from the review log entries of one session. */
+export default function SessionSummary({ entries, onReviewFailed, nextDeck, onNextDeck, onDone, doneLabel = 'Done' }: Props) {
+  const counts: Record<Grade, number> = { again: 0, hard: 0, good: 0, easy: 0 };
+  let timeMs = 0;
+  let timed = 0;
+  let newCount = 0;
+  for (const e of entries) {
+    counts[e.grade] = (counts[e.grade] || 0) + 1;
+    if (typeof e.durationMs === 'number') { timeMs += e.durationMs; timed++; }
+    if (e.wasNew) newCount++;
+  }
+  const total = entries.length;
+  const uniqueCards = new Set(entries.map(e => e.id)).size;
+
+  // Failed = graded Again at least once this session, most recent first
+  const byId = new Map(allCards().map(c => [c.id, c]));
+  const failedIds: string[] = [];
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const e = entries[i];
+    if (e.grade === 'again' && !failedIds.includes(e.id)) failedIds.push(e.id);
+  }
+  const failed = failedIds.map(id => byId.get(id)).filter((c): c is Card => !!c);
+
+  return (
+    <div className="grid" style={{ gap: 12 }}>
+      <div style={{ fontWeight: 700 }}>Session complete</div>
+
+      <div className="row" style={{ display: 'flex', gap: 20, flexWrap: 'wrap' }}>
+        <div>Reviews: <strong>{total}</strong>{uniqueCards !== total ? <span className="sub"> ({uniqueCards} cards)</span> : null}</div>
+        <div>New: <strong>{newCount}</strong></div>
+        <div>Review: <strong>{total - newCount}</strong></div>
+        <div title="Sum of answer times">Time: <strong>{formatDuration(timeMs)}</strong></div>
+        {timed > 0 && <div>Avg: <strong>{(timeMs / timed / 1000).toFixed(1)}s</strong></div>}
+      </div>
+
+      <div className="grid" style={{ gap: 4 }}>
+        <div style={{ display: 'flex', height: 10, borderRadius: 999, overflow: 'hidden', background: 'rgba(255,255,255,0.06)' }}>
+          {total > 0 && GRADES.map(g => counts[g] > 0 && (
+            <div key={g} title={`${g}: ${counts[g]}`} style={{ width: `${(counts[g] / total) * 100}%`, background: GRADE_COLOR[g] }} />
+          ))}
+        </div>
+        <div className="sub" style={{ display: 'flex', gap: 16 }}>
+          {GRADES.map(g => (
+            <span key={g}>
+              <span style={{ color: GRADE_COLOR[g] }}>●</span> {g.charAt(0).toUpperCase() + g.slice(1)}: <strong>{counts[g]}</strong>
+              {total > 0 ? ` (${Math.round((counts[g] / total) * 100)}%)` : ''}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {failed.length > 0 && (
+        <div className="section" style={{ padding: 8 }}>
+          <div style={{ fontWeight: 600, marginBottom: 4 }}>Failed Cards</div>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr className="sub" style={{ textAlign: 'left' }}>
+                <th style={{ fontWeight: 500 }}>Card</th>
+                <th style={{ fontWeight: 500 }}>Moves</th>
+                <th style={{ fontWeight: 500 }}>Answer</th>
+              </tr>
+            </thead>
+            <tbody>
+              {failed.map(c => (
+                <tr key={c.id}>
+                  <td>
+                    <Link to={`/edit/${c.id}`} state={{ card: c, from: 'review' }} title="Edit this card">{c.id}</Link>
+                  </td>
+                  <td className="sub" style={{ maxWidth: 320, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{c.fields.moveSequence}</td>
+                  <td><strong>{c.fields.answer}</strong></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: 10, justifyContent: 'center', flexWrap: 'wrap' }}>
+        {failed.length > 0 && onReviewFailed && (
+          <button className="button" onClick={() => onReviewFailed(failed.map(c => c.id))} title="Go through the failed cards once more (doesn't change their regular schedule)">
+            Review Failed Cards Again
+          </button>
+        )}
+        {nextDeck && onNextDeck && (
+          <button className="button" onClick={onNextDeck} title={`Continue with ${nextDeck.name}`}>
+            Continue with {nextDeck.name}
+          </button>
+        )}
+        <button className="button secondary" onClick={onDone}>{doneLabel}</button>
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ export type KeyAction =
   | 'board.flip'
   // Review actions
   | 'review.showAnswer'
+  | 'review.hint'
   | 'review.again'
   | 'review.hard'
   | 'review.good'
@@ -48,6 +49,7 @@ const DEFAULT_BINDS: KeybindMap = {
 
   // Review
   'review.showAnswer': ['Space', 'Enter'],
+  'review.hint':       ['H', ''],
   'review.again':      ['1', ''],
   'review.hard':       ['2', ''],
   'review.good':       ['3', 'Space'],
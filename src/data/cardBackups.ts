@@ -0,0 +1,62 @@
+import { Card } from './types';
+
+// Preview of what restoring a cards.json backup would change, computed from
+// the current file and the backup (both as read from disk).
+
+export type CardChange = {
+  id: string;
+  label: string;      // move sequence, or the id when there is none
+  changed: string[];  // 'deck', 'tags' or a fields key
+};
+
+export type BackupDiff = {
+  /** cards only in the backup (restoring brings them back) */
+  added: CardChange[];
+  /** cards only in the current file (restoring drops them) */
+  removed: CardChange[];
+  changed: CardChange[];
+  unchanged: number;
+};
+
+// Due dates aren't compared: the scheduler's due in the collection database
+// overrides cards.json, so restoring a backup doesn't bring its due dates back.
+
+// Derived at load time, not stored meaningfully
+const IGNORED_FIELDS = new Set(['descendants']);
+
+function label(c: Card): string {
+  return (c.fields?.moveSequence || '').trim() || c.id;
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function changedKeys(cur: Card, bak: Card): string[] {
+  const out: string[] = [];
+  if (cur.deck !== bak.deck) out.push('deck');
+  if (!same(cur.tags ?? [], bak.tags ?? [])) out.push('tags');
+  const curFields = (cur.fields || {}) as Record<string, unknown>;
+  const bakFields = (bak.fields || {}) as Record<string, unknown>;
+  for (const k of new Set([...Object.keys(curFields), ...Object.keys(bakFields)])) {
+    if (!IGNORED_FIELDS.has(k) && !same(curFields[k], bakFields[k])) out.push(k);
+  }
+  return out;
+}
+
+export function diffBackup(current: Card[], backup: Card[]): BackupDiff {
+  const curById = new Map(current.filter(c => c?.id).map(c => [c.id, c]));
+  const bakById = new Map(backup.filter(c => c?.id).map(c => [c.id, c]));
+  const diff: BackupDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+  for (const [id, bak] of bakById) {
+    const cur = curById.get(id);
+    if (!cur) { diff.added.push({ id, label: label(bak), changed: [] }); continue; }
+    const keys = changedKeys(cur, bak);
+    if (keys.length) diff.changed.push({ id, label: label(bak), changed: keys });
+    else diff.unchanged++;
+  }
+  for (const [id, cur] of curById) {
+    if (!bakById.has(id)) diff.removed.push({ id, label: label(cur), changed: [] });
+  }
+  return diff;
+}
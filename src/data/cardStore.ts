@@ -1,5 +1,7 @@
-import { Card } from './types';
+import { Card, WrongAnswer } from './types';
 import { getChildrenOf } from '../decks';
+import { getNow } from '../state/clock';
+import { getMapStore, putEntry } from './collectionDb';
 import jsonRaw from './cards.json?raw';
 
 // ---------- Parse cards.json (array-only; supports 0-byte) ----------
@@ -22,28 +24,11 @@ try {
 
 let byId = new Map<string, Card>(cards.map(c => [c.id, c]));
 
-// ---------- Local overrides (persist due changes for testing) ----------
-const OV_KEY = 'chessflashcards.cardOverrides.v1';
+// ---------- Due overrides (collection database; win over cards.json) ----------
+type Override = { due?: string | 'new' };
 
-type Overrides = Record<string, { due?: string | 'new' }>;
-
-function loadOverrides(): Overrides {
-  try {
-    const raw = localStorage.getItem(OV_KEY);
-    if (!raw) return {};
-    const parsed = JSON.parse(raw);
-    return parsed && typeof parsed === 'object' ? parsed : {};
-  } catch {
-    return {};
-  }
-}
-
-function saveOverrides(ov: Overrides) {
-  try {
-    localStorage.setItem(OV_KEY, JSON.stringify(ov));
-  } catch {
-    /* ignore */
-  }
+function loadOverrides(): Readonly<Record<string, Override>> {
+  return getMapStore<Override>('cardOverrides');
 }
 
 // apply overrides to in-memory cards
@@ -58,18 +43,22 @@ function saveOverrides(ov: Overrides) {
 })();
 
 // ---------- Helpers ----------
-function isDueCard(c: Card, now = new Date()): boolean {
+function isDueCard(c: Card, now = getNow()): boolean {
   if (!('due' in c) || (c as any).due == null) return false;
   const due = (c as any).due as string | 'new';
   if (due === 'new') return true;
   const t = Date.parse(due);
-  return Number.isFinite(t) && t <= now.getTime();
+  return Number.isFinite(t) && t <= now;
 }
 
 export function allCards(): Card[] {
   return cards;
 }
 
+export function getCard(cardId: string): Card | undefined {
+  return byId.get(cardId);
+}
+
 export function cardsByDeck(deckId: string): Card[] {
   return cards.filter(c => c.deck === deckId);
 }
@@ -172,36 +161,96 @@ export function setCardDueFlexible(cardId: string, due: string | 'new' | undefin
   const card = byId.get(cardId);
   if (!card) return false;
 
-  const ov = loadOverrides();
+  const cur = loadOverrides()[cardId];
 
   if (typeof due === 'undefined') {
     delete (card as any).due;
-    if (ov[cardId]) {
-      delete ov[cardId].due;
-      if (Object.keys(ov[cardId]).length === 0) {
-        delete ov[cardId];
-      }
+    if (cur) {
+      const { due: _removed, ...rest } = cur;
+      putEntry('cardOverrides', cardId, Object.keys(rest).length ? rest : undefined);
     }
-    saveOverrides(ov);
     return true;
   }
 
   (card as any).due = due;
-  ov[cardId] = { ...(ov[cardId] || {}), due };
-  saveOverrides(ov);
+  putEntry('cardOverrides', cardId, { ...(cur || {}), due });
   return true;
 }
 
-/** Set exact ISO due (or 'new') for a card and persist to localStorage overrides. */
+/** Set exact ISO due (or 'new') for a card and persist it as an override. */
 export function setCardDue(cardId: string, due: string | 'new'): boolean {
   return setCardDueFlexible(cardId, due);
 }
 
 /** Push due time forward by N minutes from now (testing). */
 export function pushCardDueMinutes(cardId: string, minutes: number): boolean {
-  const dueISO = new Date(Date.now() + minutes * 60_000).toISOString();
+  const dueISO = new Date(getNow() + minutes * 60_000).toISOString();
   return setCardDue(cardId, dueISO);
 }
 
+// ---------- Deck moves ----------
+
+/**
+ * Move cards to another deck, optionally tagging them Archived (hidden from
+ * reviews). Persists to cards.json in one write via the Electron bridge.
+ */
+export function moveCardsToDeck(cardIds: string[], deckId: string, opts: { archive?: boolean } = {}): number {
+  const changed: Card[] = [];
+  for (const id of cardIds) {
+    const card = byId.get(id);
+    if (!card) continue;
+    const tags = card.tags || [];
+    const archive = !!opts.archive && !tags.includes('Archived');
+    if (card.deck === deckId && !archive) continue;
+    card.deck = deckId;
+    if (archive) card.tags = [...tags, 'Archived'];
+    changed.push(card);
+  }
+  if (changed.length) {
+    try {
+      (window as any).cards?.updateMany?.(changed).catch(() => {});
+    } catch {}
+  }
+  return changed.length;
+}
+
+// ---------- Review feedback ----------
+
+/** wrongAnswers as structured entries (legacy bare SAN strings count once, without timestamps). */
+export function getWrongAnswers(card: Card | null | undefined): WrongAnswer[] {
+  const list = card?.fields.wrongAnswers;
+  if (!Array.isArray(list)) return [];
+  const out: WrongAnswer[] = [];
+  for (const it of list) {
+    if (typeof it === 'string') {
+      if (it) out.push({ move: it, count: 1, firstTs: '', lastTs: '' });
+    } else if (it && typeof it.move === 'string') {
+      out.push({ move: it.move, count: Math.max(1, Number(it.count) || 1), firstTs: it.firstTs || '', lastTs: it.lastTs || '' });
+    }
+  }
+  return out;
+}
+
+/** Count a wrong move on the card; persists to cards.json via Electron bridge if available. */
+export function recordWrongAnswer(cardId: string, move: string): WrongAnswer[] {
+  const card = byId.get(cardId);
+  if (!card || !move) return [];
+  const nowISO = new Date(getNow()).toISOString();
+  const list = getWrongAnswers(card);
+  const hit = list.find(w => w.move === move);
+  if (hit) {
+    hit.count += 1;
+    hit.lastTs = nowISO;
+    if (!hit.firstTs) hit.firstTs = nowISO;
+  } else {
+    list.push({ move, count: 1, firstTs: nowISO, lastTs: nowISO });
+  }
+  card.fields.wrongAnswers = list;
+  try {
+    (window as any).cards?.update?.(card).catch(() => {});
+  } catch {}
+  return list;
+}
+
 // Initialize relations (safe with zero cards)
 computeChildren();
@@ -0,0 +1,43 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The database loads and migrates when the module is first imported
+async function freshDb() {
+  vi.resetModules();
+  return import('./collectionDb');
+}
+
+beforeEach(() => localStorage.clear());
+
+describe('migrations', () => {
+  it('imports the legacy scheduler presets and config into their stores', async () => {
+    const preset = { name: 'Slow', config: { initialEase: 2 }, createdAt: '2025-01-01T00:00:00.000Z' };
+    localStorage.setItem('chessflashcards.collection.v1', JSON.stringify({ schemaVersion: 1, stores: { scheduler: { c1: { state: 'new' } } } }));
+    localStorage.setItem('chessflashcards.scheduler.presets.v1', JSON.stringify([preset, { bogus: true }]));
+    localStorage.setItem('chessflashcards.scheduler.config.v1', JSON.stringify({ preset: 'Slow', algorithm: 'fsrs' }));
+
+    const db = await freshDb();
+    expect(db.getSchemaVersion()).toBe(db.SCHEMA_VERSION);
+    expect(db.getMapStore('customPresets')).toEqual({ Slow: preset });
+    expect(db.getMapStore('settings')).toEqual({ schedulerConfig: { preset: 'Slow', algorithm: 'fsrs' } });
+    expect(db.getMapStore('scheduler')).toEqual({ c1: { state: 'new' } });
+    // Persisted, so the next load doesn't migrate again
+    expect(JSON.parse(localStorage.getItem('chessflashcards.collection.v1')!).schemaVersion).toBe(db.SCHEMA_VERSION);
+  });
+
+  it('imports the legacy scheduling prefs and reply weights', async () => {
+    localStorage.setItem('chessflashcards.collection.v1', JSON.stringify({ schemaVersion: 2, stores: { replyWeights: {} } }));
+    localStorage.setItem('chessflashcards.cardScheduling.v1', JSON.stringify({ fuzzPercent: 0, dayRolloverHour: 6 }));
+    localStorage.setItem('chessflashcards.replyWeights.v1', JSON.stringify({ games: { fen: { e5: 2 } }, gamesImported: 1, manual: { c2: 4 } }));
+
+    const db = await freshDb();
+    expect(db.getMapStore('settings')).toEqual({ schedulingPrefs: { fuzzPercent: 0, dayRolloverHour: 6 } });
+    expect(db.getMapStore('replyWeights')).toEqual({ games: { fen: { e5: 2 } }, gamesImported: 1, manual: { c2: 4 } });
+  });
+
+  it('starts an empty database at the current version', async () => {
+    const db = await freshDb();
+    expect(db.getSchemaVersion()).toBe(db.SCHEMA_VERSION);
+    expect(db.getMapStore('customPresets')).toEqual({});
+    expect(db.getListStore('reviewLog')).toEqual([]);
+  });
+});
@@ -0,0 +1,260 @@
+// ---------- Collection database ----------
+// All scheduling state in one versioned store: scheduler records, the review
+// log, due overrides, deck limits, deck preset assignments, new-card order,
+// custom scheduler presets, opponent reply weights, and the global scheduler
+// config and card scheduling prefs ('settings').
+// Reads are synchronous from memory. Every change is an op:
+//   Electron: ops are appended to a journal next to cards.json through the
+//             `collection` bridge; the main process replays and compacts it
+//             into a snapshot on load.
+//   Browser:  the whole database is kept under one localStorage key.
+// cards.json stays the source of the cards themselves; a card's due value in
+// here wins over the one in cards.json.
+
+export const SCHEMA_VERSION = 3;
+
+export type MapStoreName = 'scheduler' | 'cardOverrides' | 'deckLimits' | 'deckPresets' | 'newCardOrder' | 'customPresets' | 'replyWeights' | 'settings';
+export type ListStoreName = 'reviewLog';
+export type StoreName = MapStoreName | ListStoreName;
+
+export type CollectionOp =
+  | { op: 'put'; store: MapStoreName; key: string; value: unknown }
+  | { op: 'delete'; store: MapStoreName; key: string }
+  | { op: 'push'; store: ListStoreName; values: unknown[] }
+  | { op: 'removeAt'; store: ListStoreName; index: number }
+  | { op: 'reset'; store: StoreName; value: unknown }
+  | { op: 'version'; schemaVersion: number };
+
+export type CollectionSnapshot = {
+  schemaVersion: number;
+  stores: Partial<Record<StoreName, unknown>>;
+  /** Electron: last journal sequence number the snapshot includes */
+  seq?: number;
+};
+
+/** Electron bridge exposed by preload.cjs */
+export type CollectionBridge = {
+  /** Snapshot with the journal replayed; null when no collection file exists yet */
+  loadSync: () => CollectionSnapshot | null;
+  append: (ops: CollectionOp[]) => Promise<boolean>;
+};
+
+declare global {
+  interface Window {
+    collection?: CollectionBridge;
+  }
+}
+
+type Db = {
+  schemaVersion: number;
+  maps: Record<MapStoreName, Record<string, unknown>>;
+  lists: Record<ListStoreName, unknown[]>;
+};
+
+export const MAP_STORES: MapStoreName[] = ['scheduler', 'cardOverrides', 'deckLimits', 'deckPresets', 'newCardOrder', 'customPresets', 'replyWeights', 'settings'];
+export const LIST_STORES: ListStoreName[] = ['reviewLog'];
+
+const LS_KEY = 'chessflashcards.collection.v1';
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v);
+}
+
+function emptyDb(schemaVersion = 0): Db {
+  return {
+    schemaVersion,
+    maps: { scheduler: {}, cardOverrides: {}, deckLimits: {}, deckPresets: {}, newCardOrder: {}, customPresets: {}, replyWeights: {}, settings: {} },
+    lists: { reviewLog: [] },
+  };
+}
+
+function fromSnapshot(s: CollectionSnapshot | null | undefined): Db {
+  const db = emptyDb(s && Number.isFinite(s.schemaVersion) ? s.schemaVersion : 0);
+  const stores = (s && isObject(s.stores)) ? s.stores : {};
+  for (const name of MAP_STORES) if (isObject(stores[name])) db.maps[name] = { ...(stores[name] as Record<string, unknown>) };
+  for (const name of LIST_STORES) if (Array.isArray(stores[name])) db.lists[name] = [...(stores[name] as unknown[])];
+  return db;
+}
+
+function toSnapshot(d: Db): CollectionSnapshot {
+  return { schemaVersion: d.schemaVersion, stores: { ...d.maps, ...d.lists } };
+}
+
+function isMapStore(name: StoreName): name is MapStoreName {
+  return (MAP_STORES as string[]).includes(name);
+}
+
+/** Apply one op in memory (the main process mirrors this when replaying the journal). */
+function applyOp(d: Db, o: CollectionOp): void {
+  switch (o.op) {
+    case 'put': d.maps[o.store][o.key] = o.value; break;
+    case 'delete': delete d.maps[o.store][o.key]; break;
+    case 'push': d.lists[o.store].push(...o.values); break;
+    case 'removeAt': if (o.index >= 0) d.lists[o.store].splice(o.index, 1); break;
+    case 'reset':
+      if (isMapStore(o.store)) d.maps[o.store] = isObject(o.value) ? { ...o.value } : {};
+      else d.lists[o.store] = Array.isArray(o.value) ? [...o.value] : [];
+      break;
+    case 'version': d.schemaVersion = o.schemaVersion; break;
+  }
+}
+
+function bridge(): CollectionBridge | undefined {
+  try {
+    const b = (window as any).collection as CollectionBridge | undefined;
+    return typeof b?.loadSync === 'function' && typeof b.append === 'function' ? b : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function persist(ops: CollectionOp[]): void {
+  if (!ops.length) return;
+  const b = bridge();
+  if (b) {
+    b.append(ops).catch(() => {});
+    return;
+  }
+  try { localStorage.setItem(LS_KEY, JSON.stringify(toSnapshot(db))); } catch {}
+}
+
+// ---------- Migrations ----------
+// MIGRATIONS[n] upgrades a database at version n - 1 to version n and returns
+// the ops that record the change.
+
+/** localStorage keys used before the collection database existed */
+const LEGACY_KEYS: [StoreName, string][] = [
+  ['scheduler', 'chessflashcards.scheduler.v2'],
+  ['reviewLog', 'chessflashcards.reviewLog.v1'],
+  ['cardOverrides', 'chessflashcards.cardOverrides.v1'],
+  ['deckLimits', 'chessflashcards.deckLimits.v1'],
+  ['deckPresets', 'chessflashcards.deckPresets.v1'],
+  ['newCardOrder', 'chessflashcards.newCardOrder.v1'],
+];
+
+function readLegacy(key: string): unknown {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const MIGRATIONS: Record<number, (d: Db) => CollectionOp[]> = {
+  // 1: import the separate localStorage stores
+  1: d => {
+    const ops: CollectionOp[] = [];
+    for (const [store, key] of LEGACY_KEYS) {
+      const value = readLegacy(key);
+      const valid = isMapStore(store) ? isObject(value) : Array.isArray(value);
+      if (!valid) continue;
+      // Keep anything the collection already has (e.g. written by another window)
+      const merged = isMapStore(store)
+        ? { ...(value as Record<string, unknown>), ...d.maps[store] }
+        : [...(value as unknown[]), ...d.lists[store as ListStoreName]];
+      ops.push({ op: 'reset', store, value: merged });
+    }
+    return ops;
+  },
+  // 2: import the custom scheduler presets (a list, now keyed by name) and the global scheduler config
+  2: d => {
+    const ops: CollectionOp[] = [];
+    const presets = readLegacy('chessflashcards.scheduler.presets.v1');
+    if (Array.isArray(presets)) {
+      const byName: Record<string, unknown> = {};
+      for (const p of presets) if (isObject(p) && typeof p.name === 'string' && p.config) byName[p.name] = p;
+      ops.push({ op: 'reset', store: 'customPresets', value: { ...byName, ...d.maps.customPresets } });
+    }
+    const config = readLegacy('chessflashcards.scheduler.config.v1');
+    if (isObject(config) && !('schedulerConfig' in d.maps.settings)) {
+      ops.push({ op: 'put', store: 'settings', key: 'schedulerConfig', value: config });
+    }
+    return ops;
+  },
+  // 3: import the card scheduling prefs and the opponent reply weights (one entry per part)
+  3: d => {
+    const ops: CollectionOp[] = [];
+    const prefs = readLegacy('chessflashcards.cardScheduling.v1');
+    if (isObject(prefs) && !('schedulingPrefs' in d.maps.settings)) {
+      ops.push({ op: 'put', store: 'settings', key: 'schedulingPrefs', value: prefs });
+    }
+    const weights = readLegacy('chessflashcards.replyWeights.v1');
+    if (isObject(weights)) {
+      ops.push({ op: 'reset', store: 'replyWeights', value: { ...weights, ...d.maps.replyWeights } });
+    }
+    return ops;
+  },
+};
+
+function readDb(): Db {
+  try {
+    const b = bridge();
+    if (b) return fromSnapshot(b.loadSync());
+    const raw = localStorage.getItem(LS_KEY);
+    return fromSnapshot(raw ? JSON.parse(raw) : null);
+  } catch {
+    return fromSnapshot(null);
+  }
+}
+
+/** Bring `d` up to SCHEMA_VERSION in place; returns the ops to persist. */
+function migrate(d: Db): CollectionOp[] {
+  const ops: CollectionOp[] = [];
+  for (let v = d.schemaVersion + 1; v <= SCHEMA_VERSION; v++) {
+    const stepOps = MIGRATIONS[v]?.(d) ?? [];
+    stepOps.push({ op: 'version', schemaVersion: v });
+    for (const o of stepOps) applyOp(d, o);
+    ops.push(...stepOps);
+  }
+  return ops;
+}
+
+const db: Db = readDb();
+persist(migrate(db));
+
+// ---------- Reads ----------
+// Returned objects are the live store contents: read them, never mutate them.
+
+export function getMapStore<T>(store: MapStoreName): Readonly<Record<string, T>> {
+  return db.maps[store] as Record<string, T>;
+}
+
+export function getListStore<T>(store: ListStoreName): readonly T[] {
+  return db.lists[store] as T[];
+}
+
+export function getSchemaVersion(): number {
+  return db.schemaVersion;
+}
+
+// ---------- Writes ----------
+
+/** Apply ops in memory and persist them. */
+export function applyOps(ops: CollectionOp[]): void {
+  for (const o of ops) applyOp(db, o);
+  persist(ops);
+}
+
+/** Set (or, with undefined, delete) entries of a map store. */
+export function putEntries<T>(store: MapStoreName, entries: Record<string, T | undefined>): void {
+  applyOps(Object.entries(entries).map(([key, value]): CollectionOp => (
+    value === undefined ? { op: 'delete', store, key } : { op: 'put', store, key, value }
+  )));
+}
+
+export function putEntry<T>(store: MapStoreName, key: string, value: T | undefined): void {
+  putEntries(store, { [key]: value });
+}
+
+export function appendToList<T>(store: ListStoreName, ...values: T[]): void {
+  if (values.length) applyOps([{ op: 'push', store, values }]);
+}
+
+export function removeFromList(store: ListStoreName, index: number): void {
+  applyOps([{ op: 'removeAt', store, index }]);
+}
+
+export function resetStore(store: StoreName, value: unknown): void {
+  applyOps([{ op: 'reset', store, value }]);
+}
@@ -26,8 +26,23 @@ export type EvalInfo = {
  *  - children?: string[]  immediate children (positions after playing this card's best answer, then one opponent reply)
  *  - descendants?: string[] all descendants (children + their children, etc.), computed at load
  *
+ * Opening (stamped by make-card; the app looks it up from openings.json):
+ *  - eco?: ECO code, e.g. "B12"
+ *  - opening?: opening name, e.g. "Caro-Kann Defense: Advance Variation"
+ *
+ * User feedback:
+ *  - wrongAnswers?: incorrect moves played in review, with counts (see WrongAnswer)
+ *
  * (No `last` flag anymore.)
  */
+/** A wrong move played during review; legacy entries may be bare SAN strings. */
+export type WrongAnswer = {
+  move: string;     // SAN
+  count: number;    // times played
+  firstTs: string;  // ISO
+  lastTs: string;   // ISO
+};
+
 export type CardFields = {
   // Front
   moveSequence: string;
@@ -49,6 +64,10 @@ export type CardFields = {
   // creation metadata
   creationCriteria?: any;
 
+  // Opening
+  eco?: string;
+  opening?: string;
+
   // (Legacy/optional scratch fields allowed but not required)
   parentInterval?: number;
   ancestors?: string[];
@@ -57,7 +76,7 @@ export type CardFields = {
   // User feedback (optional)
   suggestedAnswer?: string;
   nonViableAnswers?: string[];
-  wrongAnswers?: string[];
+  wrongAnswers?: (string | WrongAnswer)[];
 };
 
 export type Card = {
@@ -1,24 +1,80 @@
+import jsonRaw from './data/decks.json?raw';
+
 export type Deck = {
   id: string;
   name: string;
   parentId?: string | null;
 };
 
-export const decks: Deck[] = [
-  { id: 'openings', name: 'Openings', parentId: null },
-  { id: 'openings-white', name: 'White', parentId: 'openings' },
-  { id: 'openings-black', name: 'Black', parentId: 'openings' },
+// The deck tree lives in src/data/decks.json next to cards.json and is edited
+// from the Decks page (see state/deckEdits.ts). Ids never change once created,
+// so cards, deck limits and preset assignments follow renames and moves.
+
+/** Top of the tree; always present, can't be moved or deleted. */
+export const ROOT_DECK_ID = 'openings';
+
+/** Where new cards are filed (by side to move); can be renamed or moved but not deleted. */
+export const NEW_CARD_DECK_IDS = ['white-other', 'black-other'];
 
-  // White subdecks
-  { id: 'white-scotch', name: 'Scotch', parentId: 'openings-white' },
-  { id: 'white-caro-kann', name: 'Caro Kann', parentId: 'openings-white' },
-  { id: 'white-other', name: 'Other', parentId: 'openings-white' },
+/** Decks whose cards are studied from that side; can be renamed but not moved or deleted. */
+export const SIDE_DECK_IDS = { white: 'openings-white', black: 'openings-black' } as const;
 
-  // Black subdecks
-  { id: 'black-italian', name: 'Italian', parentId: 'openings-black' },
-  { id: 'black-queens-gambit', name: "Queen's Gambit", parentId: 'openings-black' },
-  { id: 'black-other', name: 'Other', parentId: 'openings-black' }
-];
+// Mutated in place so importers of `decks` always see the current tree
+export const decks: Deck[] = [];
+
+function sanitize(list: unknown): Deck[] {
+  if (!Array.isArray(list)) return [];
+  const out: Deck[] = [];
+  const seen = new Set<string>();
+  for (const d of list) {
+    if (!d || typeof d.id !== 'string' || !d.id || seen.has(d.id)) continue;
+    seen.add(d.id);
+    out.push({ id: d.id, name: String(d.name ?? d.id), parentId: typeof d.parentId === 'string' && d.parentId ? d.parentId : null });
+  }
+  if (!seen.has(ROOT_DECK_ID)) out.unshift({ id: ROOT_DECK_ID, name: 'Openings', parentId: null });
+  // Re-attach decks whose parent is missing or that sit in a cycle
+  const byId = new Map(out.map(d => [d.id, d]));
+  for (const d of out) {
+    if (d.id === ROOT_DECK_ID) { d.parentId = null; continue; }
+    const chain = new Set([d.id]);
+    let cur = d.parentId ? byId.get(d.parentId) : undefined;
+    while (cur && cur.id !== ROOT_DECK_ID && !chain.has(cur.id)) {
+      chain.add(cur.id);
+      cur = cur.parentId ? byId.get(cur.parentId) : undefined;
+    }
+    if (cur?.id !== ROOT_DECK_ID) d.parentId = ROOT_DECK_ID;
+  }
+  return out;
+}
+
+/** Replace the in-memory tree (e.g. with decks.json as read by the main process). */
+export function replaceDecks(next: unknown): void {
+  decks.splice(0, decks.length, ...sanitize(next));
+}
+
+try {
+  replaceDecks(JSON.parse((jsonRaw ?? '').trim() || '[]'));
+} catch (e) {
+  console.warn('[decks] Failed to parse decks.json; using the root deck only.', e);
+  replaceDecks([]);
+}
+
+/** Persist the tree to decks.json via the Electron bridge (in-memory only in the browser). */
+export function saveDecks(): void {
+  try { (window as any).decks?.setTree?.(decks.map(d => ({ ...d }))).catch(() => {}); } catch {}
+}
+
+export function loadDecksFromFileIfAvailable(): Promise<void> {
+  try {
+    const api = (window as any).decks;
+    if (!api?.getTree) return Promise.resolve();
+    return api.getTree().then((list: unknown) => {
+      if (Array.isArray(list) && list.length) replaceDecks(list);
+    }).catch(() => {});
+  } catch {
+    return Promise.resolve();
+  }
+}
 
 export function getRootDecks() {
   return decks.filter(d => !d.parentId);
@@ -72,3 +128,16 @@ export function getDeckPath(id?: string | null): Deck[] {
   }
   return path;
 }
+
+/**
+ * The side a deck's cards are studied from: White or Black by the side deck
+ * it sits under. Outside both, the side to move in `fen` (the card's own
+ * position), else White.
+ */
+export function getDeckSide(id?: string | null, fen?: string): 'white' | 'black' {
+  for (const d of getDeckPath(id)) {
+    if (d.id === SIDE_DECK_IDS.white) return 'white';
+    if (d.id === SIDE_DECK_IDS.black) return 'black';
+  }
+  return fen?.split(' ')[1] === 'b' ? 'black' : 'white';
+}
@@ -0,0 +1,45 @@
+import { useState } from 'react';
+import type { Card } from '../data/types';
+import type { Grade } from '../state/scheduler';
+import type { GradeTiming } from '../state/moveCheck';
+import { Attempt, RetryPrompt, evaluateAttempt, missedAttempt } from '../state/moveAttempt';
+
+/**
+ * Play-the-move state for the card on screen: the attempt once answered, a
+ * pending retry prompt, and when the front appeared (for response time).
+ */
+export function useMoveAttempt(timing?: GradeTiming) {
+  const [attempt, setAttempt] = useState<Attempt | null>(null);
+  const [retryFrom, setRetryFrom] = useState<RetryPrompt | null>(null);
+  const [shownAt, setShownAt] = useState<number>(() => Date.now());
+
+  /** Grade a move played on the board; null when it only asked for a retry. */
+  const play = (card: Card, move: string, cap?: Grade): Attempt | null => {
+    const res = evaluateAttempt(card, move, { durationMs: Date.now() - shownAt, retryFrom, timing, cap });
+    if ('retry' in res) {
+      setRetryFrom(res.retry);
+      return null;
+    }
+    setAttempt(res.attempt);
+    return res.attempt;
+  };
+
+  /** Answer without a move (graded Again). */
+  const miss = (outcome: 'gave-up' | 'timeout', durationMs = Date.now() - shownAt): Attempt => {
+    const a = missedAttempt(outcome, durationMs, retryFrom);
+    setAttempt(a);
+    return a;
+  };
+
+  /** Clear the attempt for a new card and restart its response timer. */
+  const reset = () => {
+    setAttempt(null);
+    setRetryFrom(null);
+    setShownAt(Date.now());
+  };
+
+  /** Restart the response timer only (e.g. once a replayed line has finished). */
+  const restartTimer = () => setShownAt(Date.now());
+
+  return { attempt, retryFrom, play, miss, reset, restartTimer };
+}
@@ -3,6 +3,7 @@ import { useKeybinds, KeyAction } from '../context/KeybindsProvider';
 
 type FrontHandlers = {
   showAnswer?: () => void;
+  hint?: () => void;
 };
 
 type BackHandlers = {
@@ -52,6 +53,9 @@ export function useReviewKeybinds(opts: {
         if (actions.includes('review.showAnswer') && opts.front?.showAnswer) {
           opts.front.showAnswer();
           handled = true;
+        } else if (actions.includes('review.hint') && opts.front?.hint) {
+          opts.front.hint();
+          handled = true;
         }
       } else {
         const order: KeyAction[] = ['review.again', 'review.hard', 'review.good', 'review.easy'];
@@ -2,11 +2,16 @@ import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { allCards } from '../data/cardStore';
 import type { Card } from '../data/types';
 import BoardPlayer from '../components/BoardPlayer';
-import { Deck, getChildrenOf, getDeckById, getRootDecks, getDeckPath } from '../decks';
+import { Deck, getChildrenOf, getDeckById, getRootDecks, getDeckPath, getDeckSide } from '../decks';
 import { useNavigate } from 'react-router-dom';
 import { useBackKeybind } from '../hooks/useBackKeybind';
 import { useKeybinds, formatActionKeys } from '../context/KeybindsProvider';
 import { Chess } from 'chess.js';
+import { CardState, getCardState, parseSearch, cardMatchesSearch } from '../state/cardSearch';
+import { getCardOpening } from '../state/openings';
+import { getBuriedCardIds } from '../state/bury';
+import { getNow } from '../state/clock';
+import { forgetCards, setDueInDays, repositionNewCards, rescheduleCards } from '../state/scheduler';
 
 type EvalKind = 'cp' | 'mate';
 
@@ -127,87 +132,6 @@ function formatEvalWhiteCentric(
   }
 }
 
-function isBlackDeckId(deckId?: string) {
-  if (!deckId) return false;
-  const id = deckId.toLowerCase();
-  return id === 'black' || id.startsWith('black-');
-}
-
-type CardState = 'new' | 'due' | 'scheduled' | 'none';
-function getCardState(c: Card, now = Date.now()): CardState {
-  const due: any = (c as any).due;
-  if (due === 'new') return 'new';
-  if (typeof due === 'string') {
-    const t = Date.parse(due);
-    if (Number.isFinite(t)) return t <= now ? 'due' : 'scheduled';
-  }
-  return 'none';
-}
-
-type Criterion = { key?: string; value: string };
-function parseSearch(input: string): Criterion[] {
-  const tokens: string[] = [];
-  let cur = '';
-  let inQuote = false;
-  for (let i = 0; i < input.length; i++) {
-    const ch = input[i];
-    if (ch === '"') { inQuote = !inQuote; continue; }
-    if (!inQuote && /\s/.test(ch)) { if (cur) { tokens.push(cur); cur = ''; } continue; }
-    cur += ch;
-  }
-  if (cur) tokens.push(cur);
-  return tokens.map(t => {
-    const idx = t.indexOf(':');
-    if (idx > 0) return { key: t.slice(0, idx).trim().toLowerCase(), value: t.slice(idx + 1).trim().toLowerCase() };
-    return { value: t.trim().toLowerCase() };
-  }).filter(c => c.value.length > 0);
-}
-
-function cardMatchesSearch(c: Card, crits: Criterion[]): boolean {
-  if (!crits.length) return true;
-  const get = (key: string): string => {
-    switch (key) {
-      case 'id': return c.id.toLowerCase();
-      case 'deck': return (c.deck || '').toLowerCase();
-      case 'tags': return (c.tags || []).join(' ').toLowerCase();
-      case 'due': return String((c as any).due ?? '').toLowerCase();
-      case 'movesequence':
-      case 'move':
-      case 'pgn': return (c.fields.moveSequence || '').toLowerCase();
-      case 'fen': return (c.fields.fen || '').toLowerCase();
-      case 'answer': return (c.fields.answer || '').toLowerCase();
-      case 'answerfen': return (c.fields.answerFen || '').toLowerCase();
-      case 'otheranswers': {
-        const s = arrToLine(c.fields.otherAnswers);
-        return s.toLowerCase();
-      }
-      case 'siblinganswers': return (c.fields.siblingAnswers || []).join(' ').toLowerCase();
-      case 'exampleline': return (c.fields.exampleLine || []).join(' ').toLowerCase();
-      case 'depth': return String((c.fields as any).depth ?? '').toLowerCase();
-      case 'evalkind': return String((c.fields as any).eval?.kind ?? '').toLowerCase();
-      case 'evalvalue': return String((c.fields as any).eval?.value ?? '').toLowerCase();
-      case 'evaldepth': return String((c.fields as any).eval?.depth ?? '').toLowerCase();
-      case 'state': return getCardState(c);
-      default:
-        const other = arrToLine(c.fields.otherAnswers);
-        return [
-          c.id,
-          c.deck,
-          (c.tags || []).join(' '),
-          c.fields.moveSequence,
-          c.fields.fen,
-          c.fields.answer,
-          other,
-          (c.fields.exampleLine || []).join(' '),
-        ].join(' ').toLowerCase();
-      }
-  };
-  return crits.every(cr => {
-    if (cr.key) return String(get(cr.key)).includes(cr.value);
-    return String(get('')).includes(cr.value);
-  });
-}
-
 function pgnToSanArray(pgn: string): string[] {
   if (!pgn?.trim()) return [];
   return pgn
@@ -265,6 +189,16 @@ function DeckFilterTree({ selected, onToggle }: { selected: Set<string>; onToggl
 }
 
 type Column = { key: string; label: string; width: number; render: (c: Card) => React.ReactNode };
+const clampInt = (v: number, min: number, max?: number) => {
+  if (!Number.isFinite(v)) return min;
+  v = Math.floor(v);
+  if (v < min) v = min;
+  if (typeof max === 'number' && v > max) v = max;
+  return v;
+};
+
+const inputStyle = { backgroundColor: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '4px 6px', width: 56, textAlign: 'right' } as const;
+
 const MIN_SECTION = 180;
 const RESIZER_W = 6;
 
@@ -318,6 +252,8 @@ export default function CollectionPage() {
   const [selectedDecks, setSelectedDecks] = useState<Set<string>>(new Set());
   const [tagSel, setTagSel] = useState<Set<string>>(new Set());
   const [stateSel, setStateSel] = useState<Set<CardState>>(new Set());
+  // Bumped after bulk actions; due dates change in place on the shared card objects
+  const [version, setVersion] = useState(0);
   const allTags = useMemo(() => {
     const s = new Set<string>();
     for (const c of all) for (const t of (c.tags || [])) s.add(t);
@@ -332,8 +268,9 @@ export default function CollectionPage() {
     return s;
   }, [selectedDecks]);
   const criteria = useMemo(() => parseSearch(search), [search]);
+  const buried = useMemo(() => getBuriedCardIds(), [all, version]);
   const filtered = useMemo(() => {
-    const now = Date.now();
+    const now = getNow();
     return all.filter(c => {
       if (selectedDecksExpanded.size && !selectedDecksExpanded.has(c.deck)) return false;
       if (tagSel.size) {
@@ -342,13 +279,13 @@ export default function CollectionPage() {
         if (!ok) return false;
       }
       if (stateSel.size) {
-        const st = getCardState(c, now);
+        const st = getCardState(c, now, buried);
         if (!stateSel.has(st)) return false;
       }
-      if (!cardMatchesSearch(c, criteria)) return false;
+      if (!cardMatchesSearch(c, criteria, buried)) return false;
       return true;
     });
-  }, [all, selectedDecksExpanded, tagSel, stateSel, criteria]);
+  }, [all, buried, version, selectedDecksExpanded, tagSel, stateSel, criteria]);
 
   // --- Table columns ---
   const allColumns: Column[] = useMemo(() => [
@@ -357,7 +294,7 @@ export default function CollectionPage() {
       const path = getDeckPath(c.deck);
       return path.length ? path.map(d => d.name).join(' / ') : (getDeckById(c.deck)?.name || c.deck);
     } },
-    { key: 'state', label: 'State', width: 100, render: c => getCardState(c) },
+    { key: 'state', label: 'State', width: 100, render: c => getCardState(c, getNow(), buried) },
     { key: 'due', label: 'Due', width: 200, render: c => String((c as any).due ?? '') },
     { key: 'tags', label: 'Tags', width: 160, render: c => (c.tags || []).join(', ') },
     { key: 'answer', label: 'Answer', width: 140, render: c => c.fields.answer },
@@ -365,7 +302,9 @@ export default function CollectionPage() {
     { key: 'pgn', label: 'Moves (PGN)', width: 220, render: c => c.fields.moveSequence },
     { key: 'fen', label: 'Review FEN', width: 340, render: c => c.fields.fen },
     { key: 'depth', label: 'Depth', width: 80, render: c => String((c.fields as any).depth ?? '') },
-  ], []);
+    { key: 'eco', label: 'ECO', width: 70, render: c => getCardOpening(c)?.eco || '' },
+    { key: 'opening', label: 'Opening', width: 280, render: c => getCardOpening(c)?.name || '' },
+  ], [buried]);
   const [colW, setColW] = useState<Record<string, number>>(() => { try { return JSON.parse(localStorage.getItem('collection.colW') || '{}') || {}; } catch { return {}; } });
   useEffect(() => { localStorage.setItem('collection.colW', JSON.stringify(colW)); }, [colW]);
 
@@ -375,7 +314,8 @@ export default function CollectionPage() {
     try {
       const raw = JSON.parse(localStorage.getItem('collection.colOrder') || 'null');
       const arr = Array.isArray(raw) ? raw.filter((k: any) => typeof k === 'string') : null;
-      return arr && arr.length ? arr : allKeys;
+      // Columns added since the order was saved go at the end
+      return arr && arr.length ? [...arr, ...allKeys.filter(k => !arr.includes(k))] : allKeys;
     } catch { return allKeys; }
   });
   const [visibleKeys, setVisibleKeys] = useState<Set<string>>(() => {
@@ -390,7 +330,8 @@ export default function CollectionPage() {
 
   const allByKey = useMemo(() => new Map(allColumns.map(c => [c.key, c] as const)), [allColumns]);
   const visibleColumns = useMemo(() => colOrder.filter(k => visibleKeys.has(k)).map(k => allByKey.get(k)!).filter(Boolean), [colOrder, visibleKeys, allByKey]);
-  const colTemplate = useMemo(() => visibleColumns.map(c => `${Math.max(60, colW[c.key] ?? c.width)}px`).join(' '), [visibleColumns, colW]);
+  // Leading 28px column holds the bulk-selection checkbox
+  const colTemplate = useMemo(() => ['28px', ...visibleColumns.map(c => `${Math.max(60, colW[c.key] ?? c.width)}px`)].join(' '), [visibleColumns, colW]);
   const [colDrag, setColDrag] = useState<{ key: string; startX: number; startW: number } | null>(null);
   const [orderDrag, setOrderDrag] = useState<{ key: string; overKey: string; x?: number; y?: number; w?: number; h?: number } | null>(null);
   const headerRef = useRef<HTMLDivElement | null>(null);
@@ -439,6 +380,24 @@ export default function CollectionPage() {
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const selected = useMemo(() => (selectedId ? all.find(c => c.id === selectedId) || null : null), [all, selectedId]);
 
+  // --- Bulk actions on checked cards ---
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+  const [dueMin, setDueMin] = useState(1);
+  const [dueMax, setDueMax] = useState(7);
+  const [posStart, setPosStart] = useState(1);
+  const [bulkMsg, setBulkMsg] = useState<string | null>(null);
+  // In table order, so repositioning follows what's on screen
+  const checkedIds = useMemo(() => filtered.filter(c => checked.has(c.id)).map(c => c.id), [filtered, checked]);
+  const checkedNew = useMemo(() => filtered.filter(c => checked.has(c.id) && c.due === 'new').length, [filtered, checked]);
+  const allChecked = filtered.length > 0 && checkedIds.length === filtered.length;
+  const toggleChecked = (id: string) => setChecked(prev => { const n = new Set(prev); n.has(id) ? n.delete(id) : n.add(id); return n; });
+  const toggleAllChecked = () => setChecked(allChecked ? new Set() : new Set(filtered.map(c => c.id)));
+  const runBulk = (label: string, fn: () => number) => {
+    const n = fn();
+    setBulkMsg(`${label}: ${n} card${n === 1 ? '' : 's'}`);
+    setVersion(v => v + 1);
+  };
+
   // --- Draft + save ---
   const [draft, setDraft] = useState<Draft | null>(null);
   useEffect(() => { setDraft(selected ? toDraft(selected) : null); }, [selectedId]);
@@ -471,6 +430,37 @@ export default function CollectionPage() {
           </div>
         </div>
 
+        {checked.size > 0 && (
+          <div className="row" style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+            <strong>{checkedIds.length} selected</strong>
+            <button className="button secondary" onClick={() => { setChecked(new Set()); setBulkMsg(null); }}>Clear</button>
+            <div style={{ width: 12 }} />
+            <button
+              className="button secondary"
+              title="Reset to new: scheduling history is cleared and the cards are introduced again"
+              onClick={() => {
+                if (!window.confirm(`Reset ${checkedIds.length} card${checkedIds.length === 1 ? '' : 's'} to new?`)) return;
+                runBulk('Reset to new', () => forgetCards(checkedIds));
+              }}
+            >
+              Forget
+            </button>
+            <button className="button secondary" title="Re-seed due dates from each deck's scheduler preset" onClick={() => runBulk('Rescheduled', () => rescheduleCards(checkedIds))}>Reschedule</button>
+            <div style={{ width: 12 }} />
+            <span title="Each card gets a random day in this range">Due in</span>
+            <input type="text" inputMode="numeric" value={String(dueMin)} onChange={e => setDueMin(clampInt(parseInt(e.currentTarget.value, 10), 0, 3650))} style={inputStyle} />
+            <span>–</span>
+            <input type="text" inputMode="numeric" value={String(dueMax)} onChange={e => setDueMax(clampInt(parseInt(e.currentTarget.value, 10), 0, 3650))} style={inputStyle} />
+            <span>days</span>
+            <button className="button secondary" onClick={() => runBulk('Set due', () => setDueInDays(checkedIds, dueMin, dueMax))}>Set Due</button>
+            <div style={{ width: 12 }} />
+            <span title="Introduction order for the selected new cards, in table order; positioned cards come before the rest">New order from</span>
+            <input type="text" inputMode="numeric" value={String(posStart)} onChange={e => setPosStart(clampInt(parseInt(e.currentTarget.value, 10), 0, 999999))} style={inputStyle} />
+            <button className="button secondary" disabled={!checkedNew} onClick={() => runBulk('Repositioned', () => repositionNewCards(checkedIds, posStart))}>Reposition</button>
+            {bulkMsg && <span className="sub">{bulkMsg}</span>}
+          </div>
+        )}
+
         <div
           ref={shellRef}
           style={{ display: 'flex', alignItems: 'stretch', position: 'relative', height: layoutHeight, minHeight: 360, overflow: 'hidden', border: '1px solid var(--border)', borderRadius: 10 }}
@@ -478,7 +468,7 @@ export default function CollectionPage() {
           {/* Left: Filters */}
           <div style={{ width: leftW, minWidth: MIN_SECTION, height: '100%', overflow: 'auto', background: 'var(--surface-1)', borderRight: '1px solid var(--border)' }}>
             <div className="row" style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
-              <input type="text" value={search} onChange={e => setSearch(e.currentTarget.value)} placeholder="Search (e.g. answer: e4, otherAnswers: d4)" style={{ flex: 1, background: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px' }} />
+              <input type="text" value={search} onChange={e => setSearch(e.currentTarget.value)} placeholder="Search (e.g. answer: e4, otherAnswers: d4, opening: caro)" style={{ flex: 1, background: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px' }} />
               {search && <button className="button secondary" onClick={() => setSearch('')}>Clear</button>}
             </div>
 
@@ -513,7 +503,7 @@ export default function CollectionPage() {
             <div className="row" style={{ display: 'grid', gap: 8 }}>
               <div style={{ fontWeight: 700 }}>States</div>
               <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
-                {(['new','due','scheduled','none'] as CardState[]).map(s => (
+                {(['new','due','buried','scheduled','none'] as CardState[]).map(s => (
                   <label key={s} style={{ display: 'inline-flex', alignItems: 'center', gap: 6, border: '1px solid var(--border)', borderRadius: 8, padding: '4px 8px' }}>
                     <input type="checkbox" checked={stateSel.has(s)} onChange={() => setStateSel(prev => { const n = new Set(prev); n.has(s) ? n.delete(s) : n.add(s); return n; })} />
                     <span>{s}</span>
@@ -545,6 +535,9 @@ export default function CollectionPage() {
                     ref={headerRef}
                     style={{ display: 'grid', gridTemplateColumns: colTemplate }}
                   >
+                    <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', borderRight: '1px solid var(--border)' }}>
+                      <input type="checkbox" checked={allChecked} onChange={toggleAllChecked} title="Select all shown cards" />
+                    </div>
                     {visibleColumns.map((col, i) => (
                       <div
                         key={col.key}
@@ -589,6 +582,9 @@ export default function CollectionPage() {
               <div>
                 {filtered.map(c => (
                   <div key={c.id} onClick={() => setSelectedId(c.id)} style={{ display: 'grid', gridTemplateColumns: colTemplate, background: selectedId === c.id ? 'rgba(91,140,255,0.12)' : 'transparent', cursor: 'pointer', borderTop: '1px solid var(--border)' }}>
+                    <div onClick={e => e.stopPropagation()} style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', borderRight: '1px solid var(--border)' }}>
+                      <input type="checkbox" checked={checked.has(c.id)} onChange={() => toggleChecked(c.id)} />
+                    </div>
                     {visibleColumns.map((col, i) => (
                       <div key={col.key} style={{ padding: '8px 8px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', borderRight: i < visibleColumns.length - 1 ? '1px solid var(--border)' : undefined }}>{col.render(c)}</div>
                     ))}
@@ -686,7 +682,7 @@ export default function CollectionPage() {
                           frameMoves={moves}
                           startIndex={reviewIndex}
                           size={360}
-                          orientation={isBlackDeckId(selected.deck) ? 'black' : 'white'}
+                          orientation={getDeckSide(selected.deck, selected.fields.fen)}
                           showMoveLabel={true}
                           labelForIndex={labelForIndex}
                         />
@@ -0,0 +1,160 @@
+import { useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { decks, getDeckById, getDeckPath } from '../decks';
+import { useBackKeybind } from '../hooks/useBackKeybind';
+import {
+  CustomStudyFilter,
+  CustomStudyKind,
+  CUSTOM_STUDY_DEFAULTS,
+  findCustomStudyCards,
+  startCustomStudy,
+  getCustomStudy,
+  endCustomStudy,
+} from '../state/customStudy';
+
+const clampInt = (v: number, min: number, max?: number) => {
+  if (!Number.isFinite(v)) return min;
+  v = Math.floor(v);
+  if (v < min) v = min;
+  if (typeof max === 'number' && v > max) v = max;
+  return v;
+};
+
+const KIND_LABEL: Record<CustomStudyKind, string> = {
+  search: 'Search query',
+  forgotten: 'Forgotten in the last N days',
+  mistakes: 'Cards with wrong answers',
+  ahead: 'Review ahead by N days',
+  cards: 'Failed cards from a review session',
+};
+
+const inputStyle = { backgroundColor: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px' } as const;
+const rowStyle = { display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 10, alignItems: 'center', width: '100%', justifyContent: 'stretch' } as const;
+
+export default function CustomStudyPage() {
+  const { deckId } = useParams<{ deckId: string }>();
+  const navigate = useNavigate();
+  const back = () => navigate('/');
+  useBackKeybind(back, true);
+
+  const [filter, setFilter] = useState<CustomStudyFilter>(() => ({
+    ...CUSTOM_STUDY_DEFAULTS,
+    deckId: getDeckById(deckId) ? deckId! : CUSTOM_STUDY_DEFAULTS.deckId,
+  }));
+  const [active, setActive] = useState(() => getCustomStudy());
+  const update = (patch: Partial<CustomStudyFilter>) => setFilter(f => ({ ...f, ...patch }));
+
+  const matches = useMemo(() => findCustomStudyCards(filter), [filter]);
+  const usesDays = filter.kind === 'forgotten' || filter.kind === 'ahead';
+
+  const start = () => {
+    startCustomStudy(filter);
+    navigate(`/custom-review/${filter.deckId}`);
+  };
+
+  const end = () => {
+    endCustomStudy();
+    setActive(null);
+  };
+
+  return (
+    <div className="container">
+      <div className="card grid">
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <div>
+            <h2 style={{ margin: 0 }}>Custom Study</h2>
+            <div className="sub" style={{ marginTop: 2 }}>
+              Extra reviews outside the daily queue. Passing grades never bring a card's regular due date forward, and these reviews don't count against daily limits.
+            </div>
+          </div>
+          <button className="button secondary" onClick={back}>Back</button>
+        </div>
+
+        {active && (
+          <div className="row" style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
+            <div className="sub">
+              Session in progress — <strong>{active.ids.length}</strong> of <strong>{active.total}</strong> cards left ({KIND_LABEL[active.filter.kind]}).
+            </div>
+            <div style={{ flex: 1 }} />
+            <button className="button" onClick={() => navigate(`/custom-review/${active.filter.deckId}`)}>Resume</button>
+            <button className="button secondary" onClick={end}>End Session</button>
+          </div>
+        )}
+
+        <div className="row" style={{ display: 'grid', gap: 12, width: '100%', justifyContent: 'stretch' }}>
+          <div style={rowStyle}>
+            <div>Deck</div>
+            <div className="sub">Includes sub-decks</div>
+            <select value={filter.deckId} onChange={e => update({ deckId: e.currentTarget.value })} style={{ ...inputStyle, justifySelf: 'end' }}>
+              {decks.map(d => (
+                <option key={d.id} value={d.id}>{getDeckPath(d.id).map(x => x.name).join(' / ')}</option>
+              ))}
+            </select>
+          </div>
+
+          <div style={rowStyle}>
+            <div>Cards</div>
+            <div />
+            <select value={filter.kind} onChange={e => update({ kind: e.currentTarget.value as CustomStudyKind })} style={{ ...inputStyle, justifySelf: 'end' }}>
+              {(Object.keys(KIND_LABEL) as CustomStudyKind[]).filter(k => k !== 'cards').map(k => (
+                <option key={k} value={k}>{KIND_LABEL[k]}</option>
+              ))}
+            </select>
+          </div>
+
+          {filter.kind === 'search' && (
+            <div style={rowStyle}>
+              <div title="Same syntax as the Collection search">Query</div>
+              <input
+                type="text"
+                value={filter.query ?? ''}
+                placeholder="e.g. tags:sicilian state:due depth:<6"
+                onChange={e => update({ query: e.currentTarget.value })}
+                onKeyDown={e => { if (e.key === 'Enter' && matches.length) start(); }}
+                style={{ ...inputStyle, gridColumn: '2 / span 2' }}
+              />
+            </div>
+          )}
+
+          {usesDays && (
+            <div style={rowStyle}>
+              <div>Days</div>
+              <div className="sub">{filter.kind === 'forgotten' ? 'Cards graded Again within this many days' : 'Cards due within this many days'}</div>
+              <div className="num-wrap" style={{ justifySelf: 'end' }}>
+                <input className="no-native-spin" type="text" inputMode="numeric" value={String(filter.days ?? 0)}
+                  onChange={e => update({ days: clampInt(parseInt(e.currentTarget.value, 10), 1, 365) })}
+                  style={{ ...inputStyle, width: 80, textAlign: 'right' }} />
+                <div className="num-stepper" aria-hidden="true">
+                  <button type="button" className="step up" onClick={() => update({ days: clampInt((filter.days ?? 0) + 1, 1, 365) })}>▲</button>
+                  <button type="button" className="step down" onClick={() => update({ days: clampInt((filter.days ?? 0) - 1, 1, 365) })}>▼</button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div style={rowStyle}>
+            <div>Limit</div>
+            <div className="sub">Maximum cards in the session</div>
+            <div className="num-wrap" style={{ justifySelf: 'end' }}>
+              <input className="no-native-spin" type="text" inputMode="numeric" value={String(filter.limit)}
+                onChange={e => update({ limit: clampInt(parseInt(e.currentTarget.value, 10), 1, 9999) })}
+                style={{ ...inputStyle, width: 80, textAlign: 'right' }} />
+              <div className="num-stepper" aria-hidden="true">
+                <button type="button" className="step up" onClick={() => update({ limit: clampInt(filter.limit + 10, 1, 9999) })}>▲</button>
+                <button type="button" className="step down" onClick={() => update({ limit: clampInt(filter.limit - 10, 1, 9999) })}>▼</button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="row" style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
+          <div className="sub"><strong>{matches.length}</strong> card{matches.length === 1 ? '' : 's'} selected</div>
+          <div style={{ flex: 1 }} />
+          <button className="button" onClick={start} disabled={!matches.length} title={active ? 'Replaces the session in progress' : undefined}>
+            Start Custom Study
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
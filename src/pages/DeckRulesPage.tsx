@@ -0,0 +1,157 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { decks, getDeckPathNames } from '../decks';
+import { getCard } from '../data/cardStore';
+import { useBackKeybind } from '../hooks/useBackKeybind';
+import {
+  DeckRule,
+  DeckRuleKind,
+  RULE_KINDS,
+  RefileMove,
+  getDeckRules,
+  setDeckRules,
+  validateRule,
+  newRuleId,
+  planRefile,
+  applyRefile,
+} from '../state/deckRules';
+
+const KIND_LABEL: Record<DeckRuleKind, string> = {
+  moves: 'Moves start with',
+  eco: 'ECO code',
+  fen: 'Position (FEN pieces)',
+  tag: 'Has tag',
+};
+
+const PLACEHOLDER: Record<DeckRuleKind, string> = {
+  moves: '1.e4 c5 2.Nf3   (* = any move)',
+  eco: 'B90, B2 or C60-C99',
+  fen: '????????/pp1ppppp/8/2p5/4P3/8/????????/????????',
+  tag: 'gambit',
+};
+
+const inputStyle = { backgroundColor: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px' } as const;
+const ruleRowStyle = { display: 'grid', gridTemplateColumns: '28px 180px 1fr 110px 220px max-content', gap: 8, alignItems: 'center' } as const;
+
+const deckLabel = (id: string) => getDeckPathNames(id).join(' / ') || id;
+
+export default function DeckRulesPage() {
+  const navigate = useNavigate();
+  const back = () => navigate('/');
+  useBackKeybind(back, true);
+
+  const [rules, setRules] = useState<DeckRule[]>(() => getDeckRules());
+  const [preview, setPreview] = useState<RefileMove[] | null>(null);
+  const save = (next: DeckRule[]) => {
+    setRules(setDeckRules(next));
+    setPreview(null);
+  };
+  const patchRule = (i: number, patch: Partial<DeckRule>) => save(rules.map((r, j) => j === i ? { ...r, ...patch } : r));
+  const moveRule = (i: number, dir: -1 | 1) => {
+    const j = i + dir;
+    if (j < 0 || j >= rules.length) return;
+    const next = [...rules];
+    [next[i], next[j]] = [next[j], next[i]];
+    save(next);
+  };
+  const addRule = () => save([...rules, { id: newRuleId(), kind: 'moves', pattern: '', deckId: decks[0]?.id ?? '', side: 'any', enabled: true }]);
+  const removeRule = (i: number) => save(rules.filter((_, j) => j !== i));
+
+  const deckOptions = useMemo(() => decks.map(d => ({ id: d.id, label: deckLabel(d.id) })), []);
+
+  const runPreview = () => setPreview(planRefile(rules));
+  const applyPreview = () => {
+    if (!preview?.length) return;
+    const n = applyRefile(preview);
+    setPreview(null);
+    alert(`Moved ${n} card${n === 1 ? '' : 's'}.`);
+  };
+
+  return (
+    <div className="container">
+      <div className="card grid">
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <div>
+            <h2 style={{ margin: 0 }}>Deck Rules</h2>
+            <div className="sub" style={{ marginTop: 2 }}>
+              New cards go to the first rule that matches (top to bottom); without a match they go to White/Other or Black/Other.
+            </div>
+          </div>
+          <button className="button secondary" onClick={back}>Back</button>
+        </div>
+
+        <div className="row" style={{ display: 'grid', gap: 8, width: '100%', justifyContent: 'stretch' }}>
+          {rules.length > 0 && (
+            <div className="sub" style={ruleRowStyle}>
+              <div title="Enabled">On</div>
+              <div>Match</div>
+              <div>Pattern</div>
+              <div>Side to move</div>
+              <div>Deck</div>
+              <div />
+            </div>
+          )}
+          {rules.length === 0 && <div className="sub">No rules yet.</div>}
+          {rules.map((r, i) => {
+            const error = validateRule(r) || (decks.some(d => d.id === r.deckId) ? null : 'The deck no longer exists');
+            return (
+              <div key={r.id} style={{ display: 'grid', gap: 4 }}>
+                <div style={ruleRowStyle}>
+                  <input type="checkbox" checked={r.enabled !== false} onChange={e => patchRule(i, { enabled: e.currentTarget.checked })} />
+                  <select value={r.kind} onChange={e => patchRule(i, { kind: e.currentTarget.value as DeckRuleKind })} style={inputStyle}>
+                    {RULE_KINDS.map(k => <option key={k} value={k}>{KIND_LABEL[k]}</option>)}
+                  </select>
+                  <input type="text" value={r.pattern} placeholder={PLACEHOLDER[r.kind]} onChange={e => patchRule(i, { pattern: e.currentTarget.value })} style={inputStyle} />
+                  <select value={r.side ?? 'any'} onChange={e => patchRule(i, { side: e.currentTarget.value as DeckRule['side'] })} style={inputStyle}>
+                    <option value="any">Either</option>
+                    <option value="w">White</option>
+                    <option value="b">Black</option>
+                  </select>
+                  <select value={r.deckId} onChange={e => patchRule(i, { deckId: e.currentTarget.value })} style={inputStyle}>
+                    {!decks.some(d => d.id === r.deckId) && <option value={r.deckId}>(missing deck)</option>}
+                    {deckOptions.map(d => <option key={d.id} value={d.id}>{d.label}</option>)}
+                  </select>
+                  <div style={{ display: 'flex', gap: 4 }}>
+                    <button className="button secondary" onClick={() => moveRule(i, -1)} disabled={i === 0} title="Higher priority">▲</button>
+                    <button className="button secondary" onClick={() => moveRule(i, 1)} disabled={i === rules.length - 1} title="Lower priority">▼</button>
+                    <button className="button secondary" onClick={() => removeRule(i)}>Remove</button>
+                  </div>
+                </div>
+                {error && r.pattern && <div className="sub" style={{ color: 'var(--danger, #c33)', paddingLeft: 36 }}>{error}</div>}
+              </div>
+            );
+          })}
+          <div>
+            <button className="button secondary" onClick={addRule}>Add Rule</button>
+          </div>
+        </div>
+
+        <div className="row" style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
+          <div className="sub">Re-file existing cards by these rules. Cards no rule matches, and archived cards, stay where they are.</div>
+          <div style={{ flex: 1 }} />
+          <button className="button" onClick={runPreview} disabled={!rules.length}>Re-file All Cards…</button>
+        </div>
+
+        {preview && (
+          <div className="row" style={{ display: 'grid', gap: 6, width: '100%', justifyContent: 'stretch' }}>
+            <div style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
+              <div className="sub"><strong>{preview.length}</strong> card{preview.length === 1 ? '' : 's'} would move</div>
+              <div style={{ flex: 1 }} />
+              <button className="button secondary" onClick={() => setPreview(null)}>Cancel</button>
+              <button className="button" onClick={applyPreview} disabled={!preview.length}>Apply</button>
+            </div>
+            {preview.slice(0, 200).map(m => (
+              <div key={m.cardId} className="sub" style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr 60px', gap: 10 }}>
+                <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={m.cardId}>{getCard(m.cardId)?.fields.moveSequence || m.cardId}</span>
+                <span>{deckLabel(m.from)}</span>
+                <span>→ {deckLabel(m.to)}</span>
+                <span>rule {m.ruleIndex + 1}</span>
+              </div>
+            ))}
+            {preview.length > 200 && <div className="sub">…and {preview.length - 200} more</div>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
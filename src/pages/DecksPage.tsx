@@ -1,14 +1,129 @@
-import DeckTree from '../components/DeckTree';
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import DeckTree, { DeckEditAction } from '../components/DeckTree';
+import { Deck, ROOT_DECK_ID, getDeckPathNames } from '../decks';
+import { createDeck, renameDeck, moveDeck, mergeDeck, deleteDeck, getDeckTargets, countCardsInDeckTree } from '../state/deckEdits';
+
+type Dialog = {
+  action: 'move' | 'merge' | 'delete';
+  deck: Deck;
+  targetId: string;
+  cardsMode: 'move' | 'archive';
+};
+
+const selectStyle = { backgroundColor: '#ffffff', color: '#000000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 10px' };
 
 export default function DecksPage() {
+  const navigate = useNavigate();
+  const [editing, setEditing] = useState(false);
+  const [dialog, setDialog] = useState<Dialog | null>(null);
+  const [, setVersion] = useState(0);
+  const refresh = () => setVersion(v => v + 1);
+
+  const run = (fn: () => void) => {
+    try {
+      fn();
+    } catch (err: any) {
+      alert(err?.message || 'Deck change failed');
+    }
+    refresh();
+  };
+
+  const onEdit = (action: DeckEditAction, deck: Deck) => {
+    if (action === 'add') {
+      const name = window.prompt(`Name for the new deck inside "${deck.name}":`, '');
+      if (name?.trim()) run(() => createDeck(name, deck.id));
+      return;
+    }
+    if (action === 'rename') {
+      const name = window.prompt('New deck name:', deck.name);
+      if (name?.trim() && name.trim() !== deck.name) run(() => renameDeck(deck.id, name));
+      return;
+    }
+    const targets = getDeckTargets(deck.id);
+    const first = action === 'delete' ? (targets.find(t => t.id === deck.parentId) ?? targets[0]) : targets[0];
+    setDialog({ action, deck, targetId: first?.id ?? '', cardsMode: 'move' });
+  };
+
+  const applyDialog = () => {
+    if (!dialog) return;
+    const { action, deck, targetId, cardsMode } = dialog;
+    run(() => {
+      if (action === 'move') moveDeck(deck.id, targetId);
+      else if (action === 'merge') {
+        const n = mergeDeck(deck.id, targetId);
+        alert(`Merged "${deck.name}" (${n} card${n === 1 ? '' : 's'} moved).`);
+      } else {
+        const n = deleteDeck(deck.id, cardsMode === 'archive' ? { mode: 'archive' } : { mode: 'move', targetId });
+        alert(`Deleted "${deck.name}"; ${n} card${n === 1 ? '' : 's'} ${cardsMode === 'archive' ? 'archived' : 'moved'}.`);
+      }
+    });
+    setDialog(null);
+  };
+
+  const dialogTargets = dialog ? getDeckTargets(dialog.deck.id) : [];
+  const dialogCards = dialog ? countCardsInDeckTree(dialog.deck.id) : 0;
+  const titles = { move: 'Move Deck', merge: 'Merge Deck', delete: 'Delete Deck' };
+
   return (
     <div className="container">
       <div className="card grid">
-        <div>
-          <h2 style={{ margin: 0 }}>Choose a deck</h2>
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <h2 style={{ margin: 0 }}>{editing ? 'Edit decks' : 'Choose a deck'}</h2>
+          <div style={{ display: 'flex', gap: 8 }}>
+            <button className="button secondary" onClick={() => setEditing(e => !e)} title="Create, rename, move, merge and delete decks">{editing ? 'Done' : 'Edit Decks'}</button>
+            {editing && <button className="button secondary" onClick={() => navigate('/deck-rules')} title="Rules that file new cards into decks">Deck Rules</button>}
+            <button className="button secondary" onClick={() => navigate(`/custom-study/${ROOT_DECK_ID}`)} title="Study a filtered selection of cards outside the daily queue">Custom Study</button>
+          </div>
         </div>
-        <DeckTree rootId="openings" />
+        <DeckTree rootId={ROOT_DECK_ID} editing={editing} onEdit={onEdit} />
       </div>
+
+      {dialog && (
+        <div
+          style={{ position: 'fixed', inset: 0, background: 'rgba(0,0,0,0.4)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 1000 }}
+          role="dialog"
+          aria-modal="true"
+          aria-label={titles[dialog.action]}
+        >
+          <div className="card grid" style={{ width: 520, maxWidth: '92vw', padding: 18, gap: 12 }}>
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+              <h3 style={{ margin: 0 }}>{titles[dialog.action]}: {dialog.deck.name}</h3>
+              <button type="button" className="button secondary" onClick={() => setDialog(null)}>Cancel</button>
+            </div>
+
+            {dialog.action === 'move' && <div className="sub">Its sub-decks and cards move along; limits and presets stay with it.</div>}
+            {dialog.action === 'merge' && <div className="sub">Its {dialogCards} card{dialogCards === 1 ? '' : 's'} and its sub-decks move into the chosen deck, then it is removed. Its own limits and preset are dropped.</div>}
+            {dialog.action === 'delete' && (
+              <>
+                <div className="sub">Removes the deck and its sub-decks. They hold {dialogCards} card{dialogCards === 1 ? '' : 's'}.</div>
+                <label style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+                  <input type="radio" checked={dialog.cardsMode === 'move'} onChange={() => setDialog({ ...dialog, cardsMode: 'move' })} />
+                  Move the cards to another deck
+                </label>
+                <label style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+                  <input type="radio" checked={dialog.cardsMode === 'archive'} onChange={() => setDialog({ ...dialog, cardsMode: 'archive' })} />
+                  Archive the cards (kept in "{getDeckPathNames(dialog.deck.parentId).join(' / ')}", hidden from reviews)
+                </label>
+              </>
+            )}
+
+            {(dialog.action !== 'delete' || dialog.cardsMode === 'move') && (
+              <select value={dialog.targetId} onChange={e => setDialog({ ...dialog, targetId: e.currentTarget.value })} style={selectStyle}>
+                {dialogTargets.map(d => (
+                  <option key={d.id} value={d.id} style={{ background: '#ffffff', color: '#000000' }}>{getDeckPathNames(d.id).join(' / ')}</option>
+                ))}
+              </select>
+            )}
+
+            <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+              <button className="button" onClick={applyDialog} disabled={(dialog.action !== 'delete' || dialog.cardsMode === 'move') && !dialog.targetId}>
+                {dialog.action === 'move' ? 'Move' : dialog.action === 'merge' ? 'Merge' : 'Delete'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,219 @@
+import { useMemo, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { getDeckById, getDeckPath, getDeckSide } from '../decks';
+import type { Card } from '../data/types';
+import BoardPlayer from '../components/BoardPlayer';
+import GradeButtons from '../components/GradeButtons';
+import { useKeybinds, formatActionKeys, KeyAction } from '../context/KeybindsProvider';
+import { useReviewKeybinds } from '../hooks/useReviewKeybinds';
+import { useBackKeybind } from '../hooks/useBackKeybind';
+import { useMoveAttempt } from '../hooks/useMoveAttempt';
+import { schedule, Grade } from '../state/scheduler';
+import { capGrade, MoveOutcome } from '../state/moveCheck';
+import { OUTCOME_LABEL, attemptLogFields } from '../state/moveAttempt';
+import { pickLineRoot, pickNextInLine, replyMoveOf } from '../state/lineDrill';
+
+/** One graded card along the drilled line. */
+type Step = {
+  cardId: string;
+  answer: string;
+  reply: string;      // opponent move that led to this card ('' for the line root)
+  played: string | null;
+  outcome: MoveOutcome;
+  grade: Grade;
+};
+
+export default function DrillPage() {
+  const { deckId } = useParams<{ deckId: string }>();
+  const [search] = useSearchParams();
+  const navigate = useNavigate();
+  const deck = getDeckById(deckId);
+  const path = useMemo(() => getDeckPath(deckId), [deckId]);
+
+  const { binds } = useKeybinds();
+  const keysFor = (action: KeyAction) => formatActionKeys(binds, action);
+
+  const [current, setCurrent] = useState<Card | null>(() => (deckId ? pickLineRoot(deckId, search.get('card')) : null));
+  const [rootSide, setRootSide] = useState<'white' | 'black'>(() => getDeckSide(current?.deck, current?.fields.fen));
+  const [steps, setSteps] = useState<Step[]>([]);
+  const { attempt, retryFrom, play, miss, reset: resetAttempt } = useMoveAttempt();
+  const [flipped, setFlipped] = useState(false);
+  const done = !current && steps.length > 0;
+
+  // Orientation follows the line's root card so it stays fixed through the drill
+  const orientation: 'white' | 'black' = useMemo(() => {
+    if (!flipped) return rootSide;
+    return rootSide === 'white' ? 'black' : 'white';
+  }, [rootSide, flipped]);
+
+  const startLine = () => {
+    const root = deckId ? pickLineRoot(deckId) : null;
+    setCurrent(root);
+    setRootSide(getDeckSide(root?.deck, root?.fields.fen));
+    setSteps([]);
+    resetAttempt();
+  };
+
+  const handleBack = () => navigate('/');
+  const handleFlip = () => setFlipped(f => !f);
+
+  const handlePlayedMove = (mv: { san: string }) => {
+    if (!current || attempt) return;
+    play(current, mv.san);
+  };
+
+  const handleGiveUp = () => {
+    if (!current || attempt) return;
+    miss('gave-up');
+  };
+
+  const completeStep = (chosen: Grade) => {
+    if (!current || !attempt) return;
+    const grade = capGrade(chosen, attempt.suggested);
+    // No undo here: the review undo stack belongs to ReviewPage's session
+    schedule(current.id, grade, attemptLogFields(attempt));
+
+    setSteps(prev => [...prev, {
+      cardId: current.id,
+      answer: current.fields.answer,
+      reply: prev.length ? replyMoveOf(current) : '',
+      played: attempt.played,
+      outcome: attempt.outcome,
+      grade,
+    }]);
+    // The line always continues from the repertoire answer, whatever was played
+    setCurrent(pickNextInLine(current));
+    resetAttempt();
+  };
+
+  useReviewKeybinds({
+    isFront: !attempt,
+    enabled: !!current,
+    front: { showAnswer: handleGiveUp },
+    back: {
+      again: () => completeStep('again'),
+      hard:  () => completeStep('hard'),
+      good:  () => completeStep('good'),
+      easy:  () => completeStep('easy'),
+    },
+  });
+  useBackKeybind(handleBack, true);
+
+  const tip = (label: string, action: KeyAction) => `${label}${keysFor(action) ? ` (${keysFor(action)})` : ''}`;
+
+  if (!deck) {
+    return (
+      <div className="container">
+        <div className="card grid">
+          <h2 style={{ margin: 0 }}>Drill Line</h2>
+          <div className="sub">Deck not found: {deckId}</div>
+          <button className="button secondary" onClick={handleBack}>Back</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container">
+      <div className="card grid">
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <div>
+            <h2 style={{ margin: 0 }}>Drill Line</h2>
+            <div className="sub" style={{ marginTop: 2 }}>
+              {path.map((d, i) => (<span key={d.id}>{i > 0 ? ' / ' : ''}{d.name}</span>))}
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
+            <span className="sub" title="Cards completed in this line">{steps.length} played</span>
+            <button className="button" onClick={handleFlip} title={tip('Flip board', 'board.flip')}>Flip</button>
+            <button className="button" onClick={startLine} title="Abandon this line and start a new one">New Line</button>
+            <button className="button secondary" onClick={handleBack} title={tip('Back', 'app.back')}>Back</button>
+          </div>
+        </div>
+
+        <div className="grid" style={{ padding: 8 }}>
+          {!current && !done ? (
+            <div className="sub">There are no cards to drill in this deck.</div>
+          ) : done ? (
+            <>
+              <div style={{ fontWeight: 700 }}>Line complete</div>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr className="sub" style={{ textAlign: 'left' }}>
+                    <th style={{ fontWeight: 500 }}>#</th>
+                    <th style={{ fontWeight: 500 }}>Opponent</th>
+                    <th style={{ fontWeight: 500 }}>Answer</th>
+                    <th style={{ fontWeight: 500 }}>Played</th>
+                    <th style={{ fontWeight: 500 }}>Grade</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {steps.map((s, i) => (
+                    <tr key={`${s.cardId}-${i}`}>
+                      <td>{i + 1}</td>
+                      <td>{s.reply || '—'}</td>
+                      <td><strong>{s.answer}</strong></td>
+                      <td title={OUTCOME_LABEL[s.outcome]}>{s.played ?? '—'}</td>
+                      <td>{s.grade}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div style={{ display: 'flex', gap: 10, justifyContent: 'center' }}>
+                <button className="button" onClick={startLine}>Drill Another Line</button>
+                <button className="button secondary" onClick={handleBack}>Done</button>
+              </div>
+            </>
+          ) : !attempt ? (
+            <>
+              <BoardPlayer
+                key={`drill-front-${current!.id}-${orientation}`}
+                mode="pgn"
+                pgn={current!.fields.moveSequence}
+                targetFen={current!.fields.fen}
+                includeInitialFrame={true}
+                size={420}
+                startAt="last"
+                orientation={orientation}
+                showMoveLabel={true}
+                onFlip={handleFlip}
+                onMove={handlePlayedMove}
+              />
+              <div className="sub" aria-live="polite" style={{ textAlign: 'center', visibility: retryFrom ? 'visible' : 'hidden' }}>
+                {retryFrom
+                  ? <>Good move (<strong>{retryFrom.played}</strong>), but your repertoire move is different — try again.</>
+                  : 'placeholder'}
+              </div>
+              <div style={{ display: 'flex', gap: 10, justifyContent: 'center' }}>
+                <button className="button secondary" onClick={handleGiveUp} title={tip('Reveal the answer (graded Again)', 'review.showAnswer')}>
+                  Show Answer
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <BoardPlayer
+                key={`drill-back-${current!.id}-${orientation}`}
+                mode="san"
+                initialFen={current!.fields.fen}
+                sanMoves={current!.fields.answer ? [current!.fields.answer] : []}
+                size={420}
+                startAt="last"
+                orientation={orientation}
+                showMoveLabel={true}
+                onFlip={handleFlip}
+              />
+              <div className="sub" style={{ textAlign: 'center' }}>
+                <strong>{OUTCOME_LABEL[attempt.outcome]}</strong>
+                {attempt.played ? <> &nbsp;•&nbsp; You played <strong>{attempt.played}</strong></> : null}
+                &nbsp;•&nbsp; Best: <strong>{current!.fields.answer || '(unknown)'}</strong>
+                &nbsp;•&nbsp; {(attempt.durationMs / 1000).toFixed(1)}s
+              </div>
+              <GradeButtons onGrade={completeStep} ceiling={attempt.suggested} suggested={attempt.suggested} keysFor={keysFor} />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,16 +3,9 @@ import { useLocation, useNavigate, useParams } from 'react-router-dom';
 import { useBackKeybind } from '../hooks/useBackKeybind';
 import { useKeybinds, formatActionKeys } from '../context/KeybindsProvider';
 import type { Card } from '../data/types';
-
-declare global {
-  interface Window {
-    cards?: {
-      readOne?: (id: string) => Promise<Card | null>;
-      update?: (card: Card) => Promise<boolean>;
-      create?: (card: Card) => Promise<boolean>;
-    };
-  }
-}
+import { getWrongAnswers } from '../data/cardStore';
+import CommonMistakes from '../components/CommonMistakes';
+import ReplyWeightsPanel from '../components/ReplyWeightsPanel';
 
 type EvalKind = 'cp' | 'mate';
 
@@ -108,6 +101,8 @@ export default function EditCardPage() {
   const [saved, setSaved] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [menuOpen, setMenuOpen] = useState(false);
+  // wrongAnswers are recorded by review; here they can only be viewed or cleared
+  const [clearMistakes, setClearMistakes] = useState(false);
 
   // Back keybind
   const goBack = () => {
@@ -192,6 +187,9 @@ export default function EditCardPage() {
           parent: draft.fields.parent || undefined,
           children: card?.fields.children,
           descendants: card?.fields.descendants,
+          suggestedAnswer: card?.fields.suggestedAnswer,
+          nonViableAnswers: card?.fields.nonViableAnswers,
+          wrongAnswers: clearMistakes ? undefined : card?.fields.wrongAnswers,
         },
         ...(draft.due === '' ? {} : { due: draft.due as any }),
       };
@@ -202,6 +200,7 @@ export default function EditCardPage() {
       // Keep editor in sync
       setCard(updated);
       setDraft(toDraft(updated));
+      setClearMistakes(false);
       setSaved(true);
 
       navigate(location.pathname, {
@@ -223,7 +222,7 @@ export default function EditCardPage() {
   async function applyArchiveMode(mode: 'archive' | 'unarchive', includeDesc: boolean) {
     try {
       if (!card) return;
-      const readAll = (window as any).cards?.readAll;
+      const readAll = window.cards?.readAll;
       if (!readAll) {
         // Fallback: update only current card
         const cur = { ...(card as any) } as Card;
@@ -286,7 +285,7 @@ export default function EditCardPage() {
     };
     window.addEventListener('keydown', onKey, { capture: true });
     return () => window.removeEventListener('keydown', onKey, { capture: true } as any);
-  }, [saving, ready, draft]);
+  }, [saving, ready, draft, clearMistakes]);
 
   if (loading || !ready || !draft) {
     return (
@@ -541,6 +540,27 @@ export default function EditCardPage() {
             title="All descendant IDs (read-only)"
           />
         </div>
+
+        {card && <ReplyWeightsPanel card={card} />}
+
+        {/* Review feedback */}
+        <div style={{ fontWeight: 600, fontSize: 18, opacity: 0.95, marginTop: 8 }}>
+          Review Feedback
+        </div>
+        <CommonMistakes
+          mistakes={clearMistakes ? [] : getWrongAnswers(card)}
+          action={
+            getWrongAnswers(card).length > 0 ? (
+              <button
+                className="button secondary"
+                onClick={() => { setClearMistakes(v => !v); setSaved(false); }}
+                title="Clear recorded wrong moves (applies on Save)"
+              >
+                {clearMistakes ? 'Keep' : 'Clear'}
+              </button>
+            ) : null
+          }
+        />
       </div>
     </div>
   );
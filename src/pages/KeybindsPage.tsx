@@ -7,7 +7,7 @@ type Row = {
   action:
     | 'app.back'
     | 'board.first' | 'board.prev' | 'board.next' | 'board.last' | 'board.flip'
-    | 'review.showAnswer' | 'review.again' | 'review.hard' | 'review.good' | 'review.easy' | 'review.undo';
+    | 'review.showAnswer' | 'review.hint' | 'review.again' | 'review.hard' | 'review.good' | 'review.easy' | 'review.undo';
   label: string;
 };
 
@@ -25,6 +25,7 @@ const BOARD_ROWS: Row[] = [
 
 const REVIEW_ROWS: Row[] = [
   { action: 'review.showAnswer', label: 'Show Answer' },
+  { action: 'review.hint',       label: 'Hint' },
   { action: 'review.again',      label: 'Again' },
   { action: 'review.hard',       label: 'Hard' },
   { action: 'review.good',       label: 'Good' },
@@ -2,9 +2,10 @@ import React, { useEffect, useMemo, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { getDeckById, getChildrenOf, getDeckPath, decks } from '../decks';
 import { allCards } from '../data/cardStore';
-import { DeckLimits, DeckLimitsDefaults, getDeckLimits, setDeckLimits, copyDeckLimits, getReviewedTodayCounts, getDueTypeCounts, planQueueForDeck, loadDeckLimitsFromFileIfAvailable } from '../state/deckLimits';
+import { DeckLimits, DeckLimitsDefaults, AlternativeCredit, getDeckLimits, getAlternativesPolicy, setDeckLimits, copyDeckLimits, getReviewedTodayCounts, getDueTypeCounts, planQueueForDeck } from '../state/deckLimits';
 import { rescheduleCardsInDeck } from '../state/scheduler';
-import { getPresets, setSchedulerConfig, PresetName } from '../state/schedulerConfig';
+import { getNow } from '../state/clock';
+import { getPresets, getAssignedDeckPreset, setDeckPreset, resolveDeckPreset } from '../state/schedulerConfig';
 
 function gatherDeckAndDescendants(deckId: string): string[] {
   const acc = new Set<string>();
@@ -27,7 +28,7 @@ export default function ManageDeckPage() {
   const ids = useMemo(() => (deckId ? gatherDeckAndDescendants(deckId) : []), [deckId]);
   const cards = useMemo(() => allCards().filter(c => ids.includes(c.deck)), [ids]);
 
-  const now = Date.now();
+  const now = getNow();
   const counts = useMemo(() => {
     let total = cards.length, newCnt = 0, due = 0, overdue = 0;
     for (const c of cards) {
@@ -57,11 +58,12 @@ export default function ManageDeckPage() {
   };
 
   // ---- Deck limits state ----
-  const [limits, setLimits] = useState<DeckLimits>(() => getDeckLimits(deckId));
+  // Alternatives are inherited from the parent deck, so show the effective policy
+  const effectiveLimits = (id?: string): DeckLimits => ({ ...getDeckLimits(id), alternatives: getAlternativesPolicy(id) });
+  const [limits, setLimits] = useState<DeckLimits>(() => effectiveLimits(deckId));
   const [selectedCopyFrom, setSelectedCopyFrom] = useState<string>('');
   const [saving, setSaving] = useState(false);
-  useEffect(() => { loadDeckLimitsFromFileIfAvailable(); }, []);
-  useEffect(() => { setLimits(getDeckLimits(deckId)); }, [deckId]);
+  useEffect(() => { setLimits(effectiveLimits(deckId)); }, [deckId]);
 
   const reviewedToday = useMemo(() => (deckId ? getReviewedTodayCounts(deckId, limits) : { new: 0, mature: 0, leech: 0, young: 0, total: 0 }), [deckId, limits]);
   const dueTypeCounts = useMemo(() => (deckId ? getDueTypeCounts(deckId) : { new: 0, mature: 0, leech: 0, young: 0, total: 0 }), [deckId, now, limits]);
@@ -75,6 +77,7 @@ export default function ManageDeckPage() {
       cumulativeLimit: (patch.cumulativeLimit ?? prev.cumulativeLimit),
       matureThresholdDays: (patch.matureThresholdDays ?? prev.matureThresholdDays),
       leechIncorrectThreshold: (patch.leechIncorrectThreshold ?? prev.leechIncorrectThreshold),
+      alternatives: { ...prev.alternatives, ...(patch.alternatives || {}) },
     }));
   };
 
@@ -98,6 +101,8 @@ export default function ManageDeckPage() {
       if (limits.cumulativeLimit !== d.cumulativeLimit) ov.cumulativeLimit = limits.cumulativeLimit;
       if (limits.matureThresholdDays !== d.matureThresholdDays) ov.matureThresholdDays = limits.matureThresholdDays;
       if (limits.leechIncorrectThreshold !== d.leechIncorrectThreshold) ov.leechIncorrectThreshold = limits.leechIncorrectThreshold;
+      const inherited = getAlternativesPolicy(getDeckById(deckId)?.parentId);
+      if (limits.alternatives.enabled !== inherited.enabled || limits.alternatives.maxCpLoss !== inherited.maxCpLoss || limits.alternatives.credit !== inherited.credit) ov.alternatives = { ...limits.alternatives };
       setDeckLimits(deckId, Object.keys(ov).length ? ov : null);
       alert('Deck settings saved.');
     } finally { setSaving(false); }
@@ -105,23 +110,32 @@ export default function ManageDeckPage() {
 
   const resetToDefaults = async () => {
     if (!deckId) return;
-    setLimits(DeckLimitsDefaults);
     setDeckLimits(deckId, null);
+    setLimits(effectiveLimits(deckId));
   };
 
   const applyCopyFrom = () => {
     if (!deckId || !selectedCopyFrom) return;
     copyDeckLimits(selectedCopyFrom, deckId);
-    setLimits(getDeckLimits(deckId));
+    setLimits(effectiveLimits(deckId));
+  };
+
+  // Scheduler preset: assigned here or inherited from the nearest ancestor deck
+  const [assignedPreset, setAssignedPreset] = useState<string>(() => (deckId && getAssignedDeckPreset(deckId)) || '');
+  useEffect(() => { setAssignedPreset((deckId && getAssignedDeckPreset(deckId)) || ''); }, [deckId]);
+  const inheritedPreset = useMemo(() => resolveDeckPreset(deck?.parentId), [deck]);
+  const inheritedLabel = inheritedPreset
+    ? `${inheritedPreset.name} from ${getDeckById(inheritedPreset.deckId)?.name ?? inheritedPreset.deckId}`
+    : 'Global settings';
+  const changePreset = (name: string) => {
+    if (!deckId) return;
+    setDeckPreset(deckId, name || null);
+    setAssignedPreset(name);
   };
 
   // Reschedule tools
-  const [preset, setPreset] = useState<PresetName>('Standard');
   const doResched = () => {
     if (!deckId) return;
-    // Apply preset globally before reschedule
-    const presetCfg = getPresets().find(p => p.name === preset)!.config;
-    setSchedulerConfig({ ...presetCfg, preset });
     const n = rescheduleCardsInDeck(deckId, true);
     alert(`Rescheduled ${n} cards for this deck and descendants.`);
   };
@@ -139,6 +153,7 @@ export default function ManageDeckPage() {
       if (limits.cumulativeLimit !== d.cumulativeLimit) ov.cumulativeLimit = limits.cumulativeLimit;
       if (limits.matureThresholdDays !== d.matureThresholdDays) ov.matureThresholdDays = limits.matureThresholdDays;
       if (limits.leechIncorrectThreshold !== d.leechIncorrectThreshold) ov.leechIncorrectThreshold = limits.leechIncorrectThreshold;
+      if (limits.alternatives.enabled !== d.alternatives.enabled || limits.alternatives.maxCpLoss !== d.alternatives.maxCpLoss || limits.alternatives.credit !== d.alternatives.credit) ov.alternatives = { ...limits.alternatives };
 
       const patch = Object.keys(ov).length ? ov : null;
       for (const dck of decks) {
@@ -306,6 +321,61 @@ export default function ManageDeckPage() {
             </div>
           </div>
 
+          {/* Alternative answers (play-the-move review) */}
+          <div className="row" style={{ display: 'grid', gap: 12, width: '100%', justifyContent: 'stretch' }}>
+            <div style={{ fontWeight: 700 }}>Alternative Answers</div>
+            <div className="sub">Sub-decks use this setting unless they change it.</div>
+            <div style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 10, alignItems: 'center', width: '100%', justifyContent: 'stretch' }}>
+              <div title="When playing the move in review, engine alternatives from Other Answers can count as correct but not preferred">Accept Alternatives</div>
+              <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+                <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }} title="When off, any move other than the answer is graded as a mistake">
+                  <input type="checkbox" checked={limits.alternatives.enabled} onChange={e => updateNested({ alternatives: { enabled: e.currentTarget.checked } as any })} />
+                  <span className="sub">Partial credit for engine alternatives</span>
+                </label>
+              </div>
+              <select
+                value={limits.alternatives.credit}
+                disabled={!limits.alternatives.enabled}
+                onChange={e => updateNested({ alternatives: { credit: e.currentTarget.value as AlternativeCredit } as any })}
+                title="Grade alternatives as Hard, or ask to play the repertoire move instead"
+                style={{ backgroundColor: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px', justifySelf: 'end' }}
+              >
+                <option value="hard">Grade as Hard</option>
+                <option value="retry">Prompt to retry</option>
+              </select>
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 10, alignItems: 'center', width: '100%', justifyContent: 'stretch' }}>
+              <div title="Alternatives evaluated more than this many centipawns below the card's eval are treated as mistakes">Max Eval Loss (cp)</div>
+              <div className="sub">Relative to the card's eval</div>
+              <div className="num-wrap" style={{ justifySelf: 'end' }}>
+                <input className="no-native-spin" type="text" inputMode="numeric" value={String(limits.alternatives.maxCpLoss)}
+                  disabled={!limits.alternatives.enabled}
+                  onChange={e => updateNested({ alternatives: { maxCpLoss: clampInt(parseInt(e.currentTarget.value, 10), 0, 1000) } as any })}
+                  style={{ backgroundColor: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px', width: 100, textAlign: 'right' }} />
+                <div className="num-stepper" aria-hidden="true">
+                  <button type="button" className="step up" onClick={() => updateNested({ alternatives: { maxCpLoss: Math.min(1000, limits.alternatives.maxCpLoss + 5) } as any })}>▲</button>
+                  <button type="button" className="step down" onClick={() => updateNested({ alternatives: { maxCpLoss: Math.max(0, limits.alternatives.maxCpLoss - 5) } as any })}>▼</button>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Scheduler preset */}
+          <div className="row" style={{ display: 'grid', gap: 12, width: '100%', justifyContent: 'stretch' }}>
+            <div style={{ fontWeight: 700 }}>Scheduler</div>
+            <div style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 10, alignItems: 'center', width: '100%', justifyContent: 'stretch' }}>
+              <div title="Scheduler preset for cards in this deck; sub-decks inherit it unless they have their own">Preset</div>
+              <div className="sub">Applies to sub-decks without their own preset. Saved immediately; create presets in Settings.</div>
+              <select value={assignedPreset} onChange={e => changePreset(e.currentTarget.value)}
+                style={{ backgroundColor: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px', justifySelf: 'end' }}>
+                <option value="">Inherit ({inheritedLabel})</option>
+                {getPresets().map(p => (
+                  <option key={p.name} value={p.name}>{p.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
           {/* Preview & Status */}
           <div className="row" style={{ display: 'grid', gap: 10 }}>
             <div style={{ fontWeight: 700 }}>Preview & Status</div>
@@ -340,18 +410,10 @@ export default function ManageDeckPage() {
             </div>
 
             <button className="button" onClick={() => exportDeck()} title="Export this deck and its descendants to Downloads">Export Deck</button>
+            <button className="button" onClick={() => navigate(`/custom-study/${deckId}`)} title="Study a filtered selection of this deck's cards outside the daily queue">Custom Study</button>
 
             {/* Reschedule */}
-            <div style={{ display: 'inline-flex', gap: 8, alignItems: 'center' }}>
-              <span className="sub">Reschedule with</span>
-              <select value={preset} onChange={e => setPreset(e.currentTarget.value as PresetName)}
-                style={{ backgroundColor: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px' }}>
-                {getPresets().map(p => (
-                  <option key={p.name} value={p.name}>{p.name}</option>
-                ))}
-              </select>
-              <button className="button" onClick={doResched} title="Recalculate dues for all cards in this deck and its descendants">Reschedule Deck</button>
-            </div>
+            <button className="button" onClick={doResched} title="Recalculate dues for all cards in this deck and its descendants using each deck's preset">Reschedule Deck</button>
           </div>
         </div>
       </div>
@@ -324,7 +324,7 @@ export default function ManualAddPage() {
 
     const arr = await cardsApi.readAll?.();
     const dup = Array.isArray(arr)
-      ? arr.find(c => c?.deck === review.deckId && (c?.fields?.moveSequence || '') === review.pathKey)
+      ? arr.find(c => (c?.fields?.moveSequence || '') === review.pathKey && (review.pathKey !== '' || c?.deck === review.deckId))
       : undefined;
 
     const argsSkip = buildCardgenArgsForInput(inputKind, review, {
@@ -1,16 +1,26 @@
 import { useParams, useNavigate, Link } from 'react-router-dom';
-import { getDeckById, getDeckPath, getDeckPathNames } from '../decks';
-import { getDueCardsForDeck, getCardDue, allCards } from '../data/cardStore';
+import { getDeckById, getDeckPath, getDeckPathNames, getRootDecks, getChildrenOf, getDescendantDeckIds, getDeckSide } from '../decks';
+import { getDueCardsForDeck, getCardDue, allCards, getWrongAnswers } from '../data/cardStore';
 import { planQueueForDeck } from '../state/deckLimits';
 import { useEffect, useMemo, useState } from 'react';
 import { useKeybinds, KeyAction } from '../context/KeybindsProvider';
 import BoardPlayer from '../components/BoardPlayer';
+import CommonMistakes from '../components/CommonMistakes';
+import SessionSummary from '../components/SessionSummary';
+import BlitzClock from '../components/BlitzClock';
+import GradeButtons from '../components/GradeButtons';
 import { Chess } from 'chess.js';
 import { useSettings } from '../state/settings';
+import { getSchedulingPrefs } from '../state/schedulingPrefs';
 import { useReviewKeybinds } from '../hooks/useReviewKeybinds';
-import { pushReviewUndoStep, undoLast, canUndo } from '../state/reviewHistory';
-import { schedule, getMeta, restore as restoreSchedule } from '../state/scheduler';
+import { pushReviewUndoStep, undoLast, canUndo, beginReviewSession, endReviewSession } from '../state/reviewHistory';
+import { schedule, getMeta, restore as restoreSchedule, getReviewLog, Grade } from '../state/scheduler';
+import { capGrade, hintGradeCap, answerSquares, HintLevel, MAX_HINT_LEVEL } from '../state/moveCheck';
+import { OUTCOME_LABEL, attemptLogFields } from '../state/moveAttempt';
 import { useBackKeybind } from '../hooks/useBackKeybind';
+import { useMoveAttempt } from '../hooks/useMoveAttempt';
+import { getCustomStudy, startCustomStudy, advanceCustomStudy, restoreCustomStudyCard, endCustomStudy } from '../state/customStudy';
+import { getCardOpening } from '../state/openings';
 
 const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
 
@@ -54,15 +64,37 @@ function formatEvalWhiteCentric(
   }
 }
 
-function isBlackDeckId(deckId?: string) {
-  if (!deckId) return false;
-  const id = deckId.toLowerCase();
-  return id === 'black' || id.startsWith('black-');
+type LastMove = { from: string; to: string; san: string } | null;
+
+function cpLossNote(cpLoss?: number) {
+  return typeof cpLoss === 'number' ? ` (${(cpLoss / 100).toFixed(2)} pawns worse)` : '';
 }
 
-type LastMove = { from: string; to: string; san: string } | null;
+/** First deck after this one (tree order, wrapping) that still has cards queued today. */
+function findNextDeckWithQueue(deckId: string): { id: string; name: string } | null {
+  const order: string[] = [];
+  const walk = (id: string) => { order.push(id); for (const ch of getChildrenOf(id)) walk(ch.id); };
+  for (const root of getRootDecks()) walk(root.id);
+  // Skip the deck itself, its sub-decks (already covered) and its ancestors (would include it again)
+  const skip = new Set<string>([deckId, ...getDescendantDeckIds(deckId), ...getDeckPath(deckId).map(d => d.id)]);
+  const start = order.indexOf(deckId);
+  for (let i = 1; i <= order.length; i++) {
+    const id = order[(start + i) % order.length];
+    if (skip.has(id)) continue;
+    if (planQueueForDeck(id).ids.length > 0) {
+      const d = getDeckById(id);
+      return d ? { id: d.id, name: getDeckPathNames(d.id).join(' / ') || d.name } : null;
+    }
+  }
+  return null;
+}
+
+type Props = {
+  /** Review the custom study session queue instead of the deck's due cards */
+  custom?: boolean;
+};
 
-export default function ReviewPage() {
+export default function ReviewPage({ custom = false }: Props) {
   const { deckId } = useParams<{ deckId: string }>();
   const navigate = useNavigate();
   const deck = getDeckById(deckId);
@@ -74,12 +106,37 @@ export default function ReviewPage() {
   const [, setBump] = useState(0);
   const bump = () => setBump(v => v + 1);
 
-  const [queueIds, setQueueIds] = useState<string[]>(() => (deckId ? planQueueForDeck(deckId).ids : []));
-  const [currentId, setCurrentId] = useState<string | null>(() => (deckId ? (planQueueForDeck(deckId).ids[0] ?? null) : null));
+  const planIds = (): string[] => {
+    if (custom) return getCustomStudy()?.ids ?? [];
+    return deckId ? planQueueForDeck(deckId).ids : [];
+  };
+
+  // Review log entries since this start time make up the end-of-session summary
+  const sessionKey = () => (custom ? `custom:${getCustomStudy()?.startedAt ?? ''}` : `review:${deckId}`);
+  const [sessionStart, setSessionStart] = useState<number>(() => beginReviewSession(sessionKey()));
+
+  const [queueIds, setQueueIds] = useState<string[]>(() => planIds());
+  const [currentId, setCurrentId] = useState<string | null>(() => (planIds()[0] ?? null));
   const [showBack, setShowBack] = useState(false);
   const [flipped, setFlipped] = useState(false);
   const [answerShownAt, setAnswerShownAt] = useState<number | null>(null);
+  const [hintLevel, setHintLevel] = useState<HintLevel>(0);
+  // 'replay' front: the prompt (and response time) starts once the line has been replayed
+  const frontVariant = settings.frontVariant;
+  const [promptReady, setPromptReady] = useState(frontVariant !== 'replay');
+  // Blitz is play-the-move against a per-card clock
+  const blitz = settings.reviewMode === 'blitz';
+  const playMode = settings.reviewMode === 'play-move' || blitz;
+  const blitzTiming = useMemo(() => {
+    const prefs = getSchedulingPrefs();
+    return {
+      limitMs: prefs.blitzTimeLimitSec * 1000,
+      grade: { easyUnderMs: prefs.blitzEasyUnderSec * 1000, hardOverMs: Number.POSITIVE_INFINITY },
+    };
+  }, []);
+  const { attempt, retryFrom, play, miss, reset: resetAttempt, restartTimer } = useMoveAttempt(blitz ? blitzTiming.grade : undefined);
   const current = useMemo(() => (currentId ? (allCards().find(c => c.id === currentId) ?? null) : null), [currentId]);
+  const currentOpening = useMemo(() => (current ? getCardOpening(current) : null), [current]);
 
   const deckPathParts = useMemo(() => {
     const idFor = current?.deck || deckId || null;
@@ -89,22 +146,60 @@ export default function ReviewPage() {
 
   // Rebuild queue whenever deck changes or refresh is requested
   useEffect(() => {
-    const plan = deckId ? planQueueForDeck(deckId) : { ids: [] } as any;
-    setQueueIds(plan.ids);
-    setCurrentId(plan.ids[0] ?? null);
+    const ids = planIds();
+    setQueueIds(ids);
+    setCurrentId(ids[0] ?? null);
     setShowBack(false);
-  }, [deckId]);
+    setSessionStart(beginReviewSession(sessionKey()));
+  }, [deckId, custom]);
+
+  // Response time for play-the-move is measured from when the card's front appears
+  useEffect(() => {
+    resetAttempt();
+    setHintLevel(0);
+    setPromptReady(frontVariant !== 'replay');
+  }, [currentId, frontVariant]);
+
+  const handleAutoplayEnd = () => {
+    setPromptReady(true);
+    restartTimer();
+  };
+
+  // Progressive hints: from-square, then destination, then an arrow
+  const hintMove = useMemo(() => (current ? answerSquares(current) : null), [current]);
+  const hintOverlay = useMemo(() => {
+    if (!hintMove || hintLevel === 0) return null;
+    return {
+      marks: [
+        { square: hintMove.from, kind: 'hint' as const },
+        ...(hintLevel >= 2 ? [{ square: hintMove.to, kind: 'hint' as const }] : []),
+      ],
+      arrows: hintLevel >= 3 ? [hintMove] : undefined,
+    };
+  }, [hintMove, hintLevel]);
+  // Blindfold fronts have no board to mark, so the same hints are spelled out
+  const blindfold = frontVariant === 'blindfold';
+  const hintText = useMemo(() => {
+    if (!hintMove || hintLevel === 0) return '';
+    if (hintLevel === 1) return `piece on ${hintMove.from}`;
+    if (hintLevel === 2) return `piece on ${hintMove.from}, to ${hintMove.to}`;
+    return `${hintMove.from}-${hintMove.to}`;
+  }, [hintMove, hintLevel]);
+  const nextHintLabel = blindfold
+    ? (hintLevel === 0 ? 'Name the square of the piece to move' : hintLevel === 1 ? 'Name the destination' : 'Show the move')
+    : (hintLevel === 0 ? 'Highlight the piece to move' : hintLevel === 1 ? 'Highlight the destination' : 'Show the move as an arrow');
+  const gradeCeiling: Grade = capGrade(attempt?.suggested ?? 'easy', hintGradeCap(hintLevel));
 
   // Orientation based on the *card* deck (so Openings mixes flip per card)
   const orientation: 'white' | 'black' = useMemo(() => {
     if (!current) return 'white';
-    const base: 'white' | 'black' = isBlackDeckId(current.deck) ? 'black' : 'white';
+    const base = getDeckSide(current.deck, current.fields.fen);
     if (!flipped) return base;
     return base === 'white' ? 'black' : 'white';
   }, [current, flipped]);
 
-  // Build FRONT start behavior from settings
-  const frontStartAt: 'first' | 'last' = settings.frontStartAtReview ? 'last' : 'first';
+  // Build FRONT start behavior from settings (blindfold always shows the whole move list)
+  const frontStartAt: 'first' | 'last' = settings.frontStartAtReview || blindfold ? 'last' : 'first';
 
   // Build BACK frames & lastMoves
   const backFramesInfo = useMemo((): { frames: string[]; startIndex: number; moves: LastMove[] } => {
@@ -153,20 +248,93 @@ export default function ReviewPage() {
   }, [current]);
 
   // --- Handlers ---
-  const handleBack = () => navigate('/');
+  const handleBack = () => {
+    endReviewSession();
+    navigate(custom && deckId ? `/custom-study/${deckId}` : '/');
+  };
+
+  const handleEndCustom = () => {
+    endCustomStudy();
+    endReviewSession();
+    navigate('/');
+  };
+
+  const handleReviewFailed = (cardIds: string[]) => {
+    if (!deckId) return;
+    startCustomStudy({ kind: 'cards', deckId, cardIds, limit: cardIds.length });
+    endReviewSession();
+    if (!custom) { navigate(`/custom-review/${deckId}`); return; }
+    // Already on the custom review route: reload the queue in place
+    const ids = planIds();
+    setQueueIds(ids);
+    setCurrentId(ids[0] ?? null);
+    setShowBack(false);
+    setSessionStart(beginReviewSession(sessionKey()));
+  };
+
+  const nextDeck = useMemo(
+    () => (!custom && deckId && queueIds.length === 0 ? findNextDeckWithQueue(deckId) : null),
+    [custom, deckId, queueIds.length]
+  );
+
+  const handleNextDeck = () => {
+    if (!nextDeck) return;
+    endReviewSession();
+    navigate(`/review/${nextDeck.id}`);
+  };
+
+  const sessionEntries = useMemo(() => {
+    if (queueIds.length > 0) return [];
+    const scope = new Set<string>(deckId ? [deckId, ...getDescendantDeckIds(deckId)] : []);
+    const deckOf = new Map(allCards().map(c => [c.id, c.deck]));
+    return getReviewLog(sessionStart).filter(e =>
+      !!e.filtered === custom && (custom || scope.has(e.deck ?? deckOf.get(e.id) ?? ''))
+    );
+  }, [queueIds, sessionStart, custom, deckId]);
 
   const handleShowAnswer = () => {
+    // Revealing without playing counts as a miss
+    if (playMode && current && !attempt) miss('gave-up');
+    setShowBack(true);
+    setAnswerShownAt(Date.now());
+  };
+
+  const handleHint = () => {
+    if (!hintMove || showBack) return;
+    setHintLevel(l => Math.min(MAX_HINT_LEVEL, l + 1) as HintLevel);
+  };
+
+  const handlePlayedMove = (mv: { san: string }) => {
+    if (!current || showBack) return;
+    // An alternative in a 'retry' deck stays on the front and asks for the repertoire move
+    if (!play(current, mv.san, hintGradeCap(hintLevel))) return;
+    setShowBack(true);
+    setAnswerShownAt(Date.now());
+  };
+  const handleTimeout = () => {
+    if (!current || showBack || attempt) return;
+    miss('timeout', blitzTiming.limitMs);
     setShowBack(true);
     setAnswerShownAt(Date.now());
   };
   const handleFlip = () => setFlipped(f => !f);
 
-  const completeReview = (grade: 'again' | 'hard' | 'good' | 'easy') => {
+  const completeReview = (chosen: Grade) => {
     if (!current) return;
     const prevDue = getCardDue(current.id);
     const prevSched = getMeta(current.id);
-    const dur = (answerShownAt && answerShownAt > 0) ? (Date.now() - answerShownAt) : undefined;
-    const { newDue, newMeta } = schedule(current.id, grade, { durationMs: dur });
+    // In play mode the auto-grade is a ceiling (and hints lower it): you may mark yourself down, never up
+    const grade = capGrade(chosen, gradeCeiling);
+    const dur = attempt
+      ? attempt.durationMs
+      : (answerShownAt && answerShownAt > 0) ? (Date.now() - answerShownAt) : undefined;
+    const { newDue, newMeta, linked } = schedule(current.id, grade, {
+      ...attemptLogFields(attempt),
+      durationMs: dur,
+      hintLevel,
+      filtered: custom || undefined,
+    });
+    if (custom) advanceCustomStudy(current.id, grade);
 
     // Record undo step with scheduler snapshot (cast to tolerate optional fields)
     pushReviewUndoStep({
@@ -176,14 +344,18 @@ export default function ReviewPage() {
       deckId,
       prevSched: prevSched as any,
       newSched: newMeta as any,
+      filtered: custom || undefined,
+      linked: linked.length ? linked : undefined,
     } as any);
 
     // Recompute queue after scheduling (and clear back)
-    const plan = deckId ? planQueueForDeck(deckId) : { ids: [] } as any;
-    setQueueIds(plan.ids);
-    setCurrentId(plan.ids[0] ?? null);
+    const ids = planIds();
+    setQueueIds(ids);
+    setCurrentId(ids[0] ?? null);
     setShowBack(false);
     setAnswerShownAt(null);
+    resetAttempt();
+    setHintLevel(0);
     bump();
   };
 
@@ -194,11 +366,15 @@ export default function ReviewPage() {
     if ((step as any).prevSched) {
       restoreSchedule(step.cardId, (step as any).prevSched, step.prevDue);
     }
+    for (const l of step.linked || []) restoreSchedule(l.cardId, l.prevMeta, l.prevDue);
+    if (custom && step.filtered) restoreCustomStudyCard(step.cardId);
     // Rebuild queue and clear back
-    const plan = deckId ? planQueueForDeck(deckId) : { ids: [] } as any;
-    setQueueIds(plan.ids);
-    setCurrentId(plan.ids[0] ?? null);
+    const ids = planIds();
+    setQueueIds(ids);
+    setCurrentId(ids[0] ?? null);
     setShowBack(false);
+    resetAttempt();
+    setHintLevel(0);
     bump();
   };
 
@@ -208,6 +384,7 @@ export default function ReviewPage() {
     enabled: !!current || canUndo(),
     front: {
       showAnswer: handleShowAnswer,
+      hint: handleHint,
     },
     back: {
       again: () => completeReview('again'),
@@ -235,7 +412,7 @@ export default function ReviewPage() {
       <div className="card grid">
         <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
           <div>
-            <h2 style={{ margin: 0 }}>{title}</h2>
+            <h2 style={{ margin: 0 }}>{custom ? `Custom Study: ${title}` : title}</h2>
             {deckPathParts.length > 0 && (
               <div className="sub" style={{ marginTop: 2 }}>
                 {deckPathParts.map((d, i) => (
@@ -248,7 +425,7 @@ export default function ReviewPage() {
             )}
           </div>
           <div style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
-            <span className="sub" title="Cards remaining in this deck (incl. descendants)">{queueIds.length} remaining</span>
+            <span className="sub" title={custom ? 'Cards remaining in this custom study session' : 'Cards remaining in this deck (incl. descendants)'}>{queueIds.length} remaining</span>
             <button
               className="button"
               onClick={performUndo}
@@ -272,14 +449,40 @@ export default function ReviewPage() {
 
         <div className="grid" style={{ padding: 8 }}>
           {queueIds.length === 0 ? (
-            <div className="sub">There are no more cards to review for the day in this deck.</div>
+            sessionEntries.length > 0 ? (
+              <SessionSummary
+                entries={sessionEntries}
+                onReviewFailed={handleReviewFailed}
+                nextDeck={nextDeck}
+                onNextDeck={handleNextDeck}
+                onDone={custom ? handleEndCustom : handleBack}
+                doneLabel={custom ? 'End Session' : 'Done'}
+              />
+            ) : custom ? (
+              <>
+                <div className="sub">Custom study session complete.</div>
+                <div style={{ display: 'flex', gap: 10, justifyContent: 'center' }}>
+                  <button className="button" onClick={handleEndCustom}>End Session</button>
+                </div>
+              </>
+            ) : (
+              <div className="sub">There are no more cards to review for the day in this deck.</div>
+            )
           ) : (
             <>
+              {currentOpening && (
+                <div className="sub" style={{ textAlign: 'center' }} title="Opening of this position (ECO)">
+                  <strong>{currentOpening.eco}</strong> {currentOpening.name}
+                </div>
+              )}
               {!showBack ? (
                 <>
                   {/* FRONT */}
+                  {blitz && promptReady && (
+                    <BlitzClock key={`clock-${current!.id}`} limitMs={blitzTiming.limitMs} onTimeout={handleTimeout} />
+                  )}
                   <BoardPlayer
-                    key={`front-${current!.id}-${frontStartAt}-${orientation}`}
+                    key={`front-${current!.id}-${frontStartAt}-${frontVariant}-${orientation}`}
                     mode="pgn"
                     pgn={current!.fields.moveSequence}
                     targetFen={current!.fields.fen}
@@ -289,19 +492,45 @@ export default function ReviewPage() {
                     orientation={orientation}
                     showMoveLabel={true}
                     onFlip={handleFlip}
+                    onMove={playMode ? handlePlayedMove : undefined}
+                    overlay={blindfold ? null : hintOverlay}
+                    blindfold={blindfold}
+                    autoplayMs={frontVariant === 'replay' ? settings.replayMoveMs : undefined}
+                    onAutoplayEnd={handleAutoplayEnd}
                   />
 
-                  {/* Spacer to align Show Answer with back-side grading buttons */}
+                  {blindfold && hintText && (
+                    <div className="sub" aria-live="polite" style={{ textAlign: 'center' }}>
+                      Hint: <strong>{hintText}</strong>
+                    </div>
+                  )}
+
+                  {/* Spacer to align Show Answer with back-side grading buttons (doubles as retry prompt) */}
                   <div
                     className="sub"
-                    aria-hidden="true"
-                    style={{ textAlign: 'center', minHeight: 0, visibility: 'hidden', marginTop: 0}}
+                    aria-hidden={retryFrom ? undefined : 'true'}
+                    aria-live="polite"
+                    style={{ textAlign: 'center', minHeight: 0, visibility: retryFrom ? 'visible' : 'hidden', marginTop: 0}}
                   >
-                    placeholder
+                    {retryFrom
+                      ? <>Good move (<strong>{retryFrom.played}</strong>), but your repertoire move is different — try again.</>
+                      : 'placeholder'}
                   </div>
 
                   <div style={{ display: 'flex', gap: 10, justifyContent: 'center' }}>
-                    <button className="button secondary" onClick={handleShowAnswer} title={`Show Answer${keysFor('review.showAnswer') ? ` (${keysFor('review.showAnswer')})` : ''}`}>
+                    <button
+                      className="button"
+                      onClick={handleHint}
+                      disabled={!hintMove || hintLevel >= MAX_HINT_LEVEL}
+                      title={`${nextHintLabel} (best grade becomes ${hintGradeCap((hintLevel + 1) as HintLevel)})${keysFor('review.hint') ? ` (${keysFor('review.hint')})` : ''}`}
+                    >
+                      Hint{hintLevel > 0 ? ` ${hintLevel}/${MAX_HINT_LEVEL}` : ''}
+                    </button>
+                    <button
+                      className="button secondary"
+                      onClick={handleShowAnswer}
+                      title={`${playMode ? 'Play your move on the board, or reveal the answer (graded Again)' : 'Show Answer'}${keysFor('review.showAnswer') ? ` (${keysFor('review.showAnswer')})` : ''}`}
+                    >
                       Show Answer
                     </button>
                   </div>
@@ -330,12 +559,30 @@ export default function ReviewPage() {
                     ) : null}
                   </div>
 
-                  <div style={{ display: 'flex', gap: 10, justifyContent: 'center' }}>
-                    <button className="button" onClick={() => completeReview('again')} title={`Again${keysFor('review.again') ? ` (${keysFor('review.again')})` : ''}`}>Again</button>
-                    <button className="button" onClick={() => completeReview('hard')}  title={`Hard${keysFor('review.hard') ? ` (${keysFor('review.hard')})` : ''}`}>Hard</button>
-                    <button className="button" onClick={() => completeReview('good')}  title={`Good${keysFor('review.good') ? ` (${keysFor('review.good')})` : ''}`}>Good</button>
-                    <button className="button" onClick={() => completeReview('easy')}  title={`Easy${keysFor('review.easy') ? ` (${keysFor('review.easy')})` : ''}`}>Easy</button>
-                  </div>
+                  {attempt && (
+                    <div className="sub" style={{ textAlign: 'center' }}>
+                      <strong>{OUTCOME_LABEL[attempt.outcome]}</strong>
+                      {attempt.alternative && attempt.alternative !== attempt.played
+                        ? <> &nbsp;•&nbsp; First tried <strong>{attempt.alternative}</strong>{cpLossNote(attempt.cpLoss)}</>
+                        : null}
+                      {attempt.played
+                        ? <> &nbsp;•&nbsp; You played <strong>{attempt.played}</strong>{attempt.outcome === 'alternative' ? cpLossNote(attempt.cpLoss) : null}</>
+                        : null}
+                      &nbsp;•&nbsp; {(attempt.durationMs / 1000).toFixed(1)}s
+                    </div>
+                  )}
+
+                  {hintLevel > 0 && (
+                    <div className="sub" style={{ textAlign: 'center' }}>
+                      Used {hintLevel} hint{hintLevel === 1 ? '' : 's'} — best grade available: <strong>{hintGradeCap(hintLevel)}</strong>
+                    </div>
+                  )}
+
+                  {getWrongAnswers(current).length > 0 && (
+                    <CommonMistakes mistakes={getWrongAnswers(current)} limit={5} />
+                  )}
+
+                  <GradeButtons onGrade={completeReview} ceiling={gradeCeiling} suggested={attempt?.suggested} keysFor={keysFor} />
                 </>
               )}
             </>
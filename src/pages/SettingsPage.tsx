@@ -1,8 +1,27 @@
 import { useNavigate, useLocation } from 'react-router-dom';
-import { useSettings } from '../state/settings';
-import { getSchedulerConfig, setSchedulerConfig, getPresets, SchedulerConfig } from '../state/schedulerConfig';
+import { useSettings, ReviewMode, FrontVariant } from '../state/settings';
+import {
+  getSchedulerConfig,
+  setSchedulerConfig,
+  getPresets,
+  getPresetConfig,
+  getCustomPresets,
+  saveCustomPreset,
+  updateCustomPreset,
+  cloneSchedulerPreset,
+  deleteCustomPreset,
+  SchedulerConfig,
+  SchedulerAlgorithm,
+} from '../state/schedulerConfig';
+import { migrateSchedulerToFsrs, getReviewLog, forgottenAt, rebalanceDueDates } from '../state/scheduler';
+import { optimizeFsrs, FsrsOptimizeResult } from '../state/fsrsOptimizer';
+import { nextFsrsState, intervalDays } from '../state/fsrs';
 import { useKeybinds, formatActionKeys } from '../context/KeybindsProvider';
 import { getSchedulingPrefs, setSchedulingPrefs, CardSchedulingPrefs } from '../state/schedulingPrefs';
+import { learningDayKey } from '../state/clock';
+import { importGamesPgn, clearImportedGames, getImportedGamesCount } from '../state/replyWeights';
+import { replaceCards } from '../data/cardStore';
+import { diffBackup, BackupDiff } from '../data/cardBackups';
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 
 type CardgenConfig = {
@@ -101,19 +120,168 @@ export default function SettingsPage() {
     setSchedPrefs(next);
   };
 
+  // ---- Easy days & days off ----
+  const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  const todayLocal = () => learningDayKey();
+  const [offDraft, setOffDraft] = useState<{ start: string; end: string; label: string }>(() => ({ start: todayLocal(), end: todayLocal(), label: '' }));
+  const setWeekdayLoad = (i: number, v: number) => {
+    const arr = [...schedPrefs.weekdayLoad];
+    arr[i] = clampInt(v, 0, 100);
+    saveSchedPrefs({ weekdayLoad: arr });
+  };
+  const addDaysOff = () => {
+    if (!offDraft.start || !offDraft.end || offDraft.start > offDraft.end) return;
+    saveSchedPrefs({ daysOff: [...schedPrefs.daysOff, { start: offDraft.start, end: offDraft.end, label: offDraft.label.trim() || undefined }] });
+    setOffDraft(d => ({ ...d, label: '' }));
+  };
+  const removeDaysOff = (i: number) => saveSchedPrefs({ daysOff: schedPrefs.daysOff.filter((_, j) => j !== i) });
+  const runRebalance = () => {
+    const n = rebalanceDueDates();
+    alert(`Moved ${n} card${n === 1 ? '' : 's'} to fit days off and weekday loads.`);
+  };
+
+  // ---- Card backups (desktop app only) ----
+  const hasBackups = typeof window.cards?.listBackups === 'function';
+  const [backups, setBackups] = useState<{ name: string; createdAt: number; size: number }[]>([]);
+  const [backupPreview, setBackupPreview] = useState<{ name: string; diff: BackupDiff | null; error?: string } | null>(null);
+  const loadBackups = async () => {
+    try { setBackups((await window.cards?.listBackups?.()) || []); } catch { setBackups([]); }
+  };
+  useEffect(() => { if (hasBackups) void loadBackups(); }, [hasBackups]);
+  const previewBackup = async (name: string) => {
+    setBackupPreview({ name, diff: null });
+    try {
+      const [current, backup] = await Promise.all([window.cards?.readAll?.(), window.cards?.readBackup?.(name)]);
+      if (!backup) { setBackupPreview({ name, diff: null, error: 'Backup could not be read.' }); return; }
+      setBackupPreview({ name, diff: diffBackup(current || [], backup) });
+    } catch (err: any) {
+      setBackupPreview({ name, diff: null, error: err?.message || 'Preview failed.' });
+    }
+  };
+  const restoreCardsBackup = async (name: string) => {
+    if (!window.confirm('Replace the current cards with this backup? The current cards are backed up first.')) return;
+    const res = await window.cards?.restoreBackup?.(name);
+    if (!res?.ok) { alert('Restore failed: ' + (res?.message || 'Unknown')); return; }
+    try {
+      const arr = await window.cards?.readAll?.();
+      if (arr) replaceCards(arr);
+    } catch {}
+    setBackupPreview(null);
+    await loadBackups();
+    alert('Backup restored.');
+  };
+
+  // ---- Opponent reply weights (imported games) ----
+  const [gamesImported, setGamesImported] = useState<number>(() => getImportedGamesCount());
+  const pgnInputRef = useRef<HTMLInputElement | null>(null);
+  const onImportPgn: React.ChangeEventHandler<HTMLInputElement> = async (e) => {
+    const file = e.currentTarget.files?.[0];
+    e.currentTarget.value = '';
+    if (!file) return;
+    try {
+      const n = importGamesPgn(await file.text());
+      setGamesImported(getImportedGamesCount());
+      alert(`Imported ${n} game${n === 1 ? '' : 's'} from ${file.name}.`);
+    } catch (err: any) {
+      alert('Import failed: ' + (err?.message || 'Unknown'));
+    }
+  };
+
   // ---- Scheduler settings ----
+  // '' edits the global config (used by decks without a preset); otherwise a custom preset
+  const [schedTarget, setSchedTarget] = useState<string>('');
   const [sched, setSched] = useState<SchedulerConfig>(() => getSchedulerConfig());
+  const [customPresets, setCustomPresets] = useState(() => getCustomPresets());
+  const selectSchedTarget = (name: string) => {
+    setSchedTarget(name);
+    setSched((name && getPresetConfig(name)) || getSchedulerConfig());
+  };
   const saveSched = (patch: Partial<SchedulerConfig>) => {
-    const next = setSchedulerConfig(patch as any);
+    const next = schedTarget ? updateCustomPreset(schedTarget, patch) : setSchedulerConfig(patch as any);
     setSched(next);
   };
   const applyPreset = (name: string) => {
     const p = getPresets().find(x => x.name === (name as any));
-    if (p) setSched(setSchedulerConfig({ ...p.config }));
+    if (!p) return;
+    // Editing a custom preset: copy the chosen preset's parameters into it
+    setSched(schedTarget ? updateCustomPreset(schedTarget, { ...p.config, preset: schedTarget }) : setSchedulerConfig({ ...p.config }));
+  };
+  const newCustomPreset = () => {
+    const name = window.prompt('Name for the new preset (copies the settings shown):', '');
+    if (!name?.trim()) return;
+    if (getPresetConfig(name.trim()) && !window.confirm(`Replace the existing preset "${name.trim()}"?`)) return;
+    try {
+      const p = cloneSchedulerPreset(schedTarget || null, name);
+      setCustomPresets(getCustomPresets());
+      selectSchedTarget(p.name);
+    } catch (err: any) {
+      alert(err?.message || 'Could not create preset');
+    }
+  };
+  const removeCustomPreset = () => {
+    if (!schedTarget) return;
+    if (!window.confirm(`Delete the preset "${schedTarget}"? Decks using it will inherit from their parent deck.`)) return;
+    deleteCustomPreset(schedTarget);
+    setCustomPresets(getCustomPresets());
+    selectSchedTarget('');
+  };
+  const [fsrsMigration, setFsrsMigration] = useState<string>('');
+  const setAlgorithm = (algorithm: SchedulerAlgorithm) => {
+    saveSched({ algorithm });
+    if (algorithm === 'fsrs') {
+      const r = migrateSchedulerToFsrs();
+      setFsrsMigration(r.migrated || r.rebuilt ? `Migrated ${r.migrated} card${r.migrated === 1 ? '' : 's'}, rebuilt ${r.rebuilt} from the review log.` : '');
+    }
+  };
+  const [optProgress, setOptProgress] = useState<number | null>(null);
+  const [optResult, setOptResult] = useState<FsrsOptimizeResult | null>(null);
+  const [optError, setOptError] = useState<string>('');
+  const [optName, setOptName] = useState<string>('');
+  const runOptimizer = async () => {
+    setOptError('');
+    setOptResult(null);
+    setOptProgress(0);
+    try {
+      const r = await optimizeFsrs(getReviewLog(), { initial: sched.fsrsWeights, onProgress: setOptProgress, forgotten: forgottenAt() });
+      setOptResult(r);
+      setOptName(`Optimized ${new Date().toISOString().slice(0, 10)}`);
+    } catch (err: any) {
+      setOptError(err?.message || 'Optimization failed');
+    } finally {
+      setOptProgress(null);
+    }
+  };
+  const saveOptimized = () => {
+    if (!optResult) return;
+    try {
+      const p = saveCustomPreset(optName, { ...sched, algorithm: 'fsrs', fsrsWeights: optResult.weights });
+      migrateSchedulerToFsrs();
+      setCustomPresets(getCustomPresets());
+      selectSchedTarget(p.name);
+      setOptResult(null);
+    } catch (err: any) {
+      setOptError(err?.message || 'Save failed');
+    }
   };
   const preview = (() => {
     const daysFmt = (m: number) => (m/(60*24)).toFixed(1)+'d';
     const seedMin = 60*24; // 1d baseline
+    if (sched.algorithm === 'fsrs') {
+      // A card with 1 day of stability and medium difficulty, reviewed on time
+      const from = { difficulty: 5, stability: 1 };
+      const ivl = (grade: 'hard' | 'good' | 'easy') => {
+        const st = nextFsrsState(from, grade, 1, sched.fsrsWeights);
+        const days = Math.max(1, Math.min(sched.maxIntervalDays, intervalDays(st.stability, sched.targetRetention)));
+        return Math.round(days * 60 * 24 * sched.intervalMultiplier);
+      };
+      const g = {
+        again: Math.max(sched.minIntervalMin, sched.learningStepsMins[0] ?? 10),
+        hard: ivl('hard'),
+        good: ivl('good'),
+        easy: ivl('easy'),
+      };
+      return { daysFmt, g };
+    }
     const g = {
       again: Math.max(sched.minIntervalMin, Math.round(seedMin * sched.againMultiplier * sched.intervalMultiplier)),
       hard:  Math.max(sched.minIntervalMin, Math.round(seedMin * sched.hardMultiplier  * sched.intervalMultiplier)),
@@ -274,6 +442,77 @@ export default function SettingsPage() {
               </select>
             </div>
 
+            {/* Front display */}
+            <div className="row" title="Show the board, hide it and answer from the move list, or replay the line from the start before the prompt" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 12, alignItems: 'center' }}>
+              <div>Front Display</div>
+              <div className="sub">Board, blindfold, or replay from start</div>
+              <select
+                value={settings.frontVariant}
+                onChange={e => update({ frontVariant: e.currentTarget.value as FrontVariant })}
+                style={{ backgroundColor: '#ffffff', color: '#000000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 10px', justifySelf: 'end' }}
+              >
+                <option value="board" style={{ background: '#ffffff', color: '#000000' }}>Board</option>
+                <option value="blindfold" style={{ background: '#ffffff', color: '#000000' }}>Blindfold (Moves Only)</option>
+                <option value="replay" style={{ background: '#ffffff', color: '#000000' }}>Replay From Start</option>
+              </select>
+            </div>
+
+            {settings.frontVariant === 'replay' && (
+              <div className="row" title="Time between moves while the line is replayed" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 12, alignItems: 'center' }}>
+                <div>Replay Pace (ms)</div>
+                <div className="sub">Per move</div>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={String(settings.replayMoveMs)}
+                  onChange={e => update({ replayMoveMs: clampInt(parseInt(e.currentTarget.value, 10), 100, 10000) })}
+                  style={{ backgroundColor: '#ffffff', color: '#000000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px', justifySelf: 'end', width: 120, textAlign: 'right' }}
+                />
+              </div>
+            )}
+
+            {/* Review mode */}
+            <div className="row" title="Grade yourself, or play the move on the board and have it graded for you" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 12, alignItems: 'center' }}>
+              <div>Review Mode</div>
+              <div className="sub">Self-graded, play the move, or timed</div>
+              <select
+                value={settings.reviewMode}
+                onChange={e => update({ reviewMode: e.currentTarget.value as ReviewMode })}
+                style={{ backgroundColor: '#ffffff', color: '#000000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 10px', justifySelf: 'end' }}
+              >
+                <option value="self-grade" style={{ background: '#ffffff', color: '#000000' }}>Self-Grade</option>
+                <option value="play-move" style={{ background: '#ffffff', color: '#000000' }}>Play the Move</option>
+                <option value="blitz" style={{ background: '#ffffff', color: '#000000' }}>Blitz (Timed)</option>
+              </select>
+            </div>
+
+            {settings.reviewMode === 'blitz' && (
+              <>
+                <div className="row" title="Running out of time grades the card Again" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 12, alignItems: 'center' }}>
+                  <div>Blitz Time Limit (s)</div>
+                  <div className="sub">Seconds per card</div>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={String(schedPrefs.blitzTimeLimitSec)}
+                    onChange={e => saveSchedPrefs({ blitzTimeLimitSec: clampInt(parseInt(e.currentTarget.value, 10), 1, 600) })}
+                    style={{ backgroundColor: '#ffffff', color: '#000000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px', justifySelf: 'end', width: 120, textAlign: 'right' }}
+                  />
+                </div>
+                <div className="row" title="A correct move played within this many seconds is graded Easy; slower correct moves are graded Good" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 12, alignItems: 'center' }}>
+                  <div>Blitz Easy Under (s)</div>
+                  <div className="sub">Fast correct answers grade Easy</div>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={String(schedPrefs.blitzEasyUnderSec)}
+                    onChange={e => saveSchedPrefs({ blitzEasyUnderSec: clampInt(parseInt(e.currentTarget.value, 10), 0, 600) })}
+                    style={{ backgroundColor: '#ffffff', color: '#000000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px', justifySelf: 'end', width: 120, textAlign: 'right' }}
+                  />
+                </div>
+              </>
+            )}
+
             {/* Keybinds */}
             <div className="row" title="Customize keyboard shortcuts for navigation and review" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 12, alignItems: 'center' }}>
               <div>Keybinds</div>
@@ -446,6 +685,7 @@ export default function SettingsPage() {
             >
               <option value="parent-longest-interval" style={{ background: '#ffffff', color: '#000000' }}>Longest Parent Interval First</option>
               <option value="newest-created-first" style={{ background: '#ffffff', color: '#000000' }}>Newest Created First</option>
+              <option value="likely-reply-first" style={{ background: '#ffffff', color: '#000000' }}>Most Likely Replies First</option>
               <option value="random" style={{ background: '#ffffff', color: '#000000' }}>Random</option>
             </select>
           </div>
@@ -476,26 +716,189 @@ export default function SettingsPage() {
               />
             </label>
           </div>
+
+          {/* Burying */}
+          <div className="row" title="After reviewing a card, hold back other cards with the same parent until tomorrow so one answer doesn't give away the next" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 12, alignItems: 'center' }}>
+            <div>Bury Siblings</div>
+            <div className="sub">Cards sharing a parent wait until tomorrow</div>
+            <label style={{ display: 'inline-flex', alignItems: 'center', gap: 8, justifySelf: 'end' }}>
+              <input
+                type="checkbox"
+                checked={!!schedPrefs.burySiblings}
+                onChange={e => saveSchedPrefs({ burySiblings: e.currentTarget.checked })}
+              />
+            </label>
+          </div>
+          <div className="row" title="After reviewing a card, hold back cards whose review position is the same (reached by a different move order) until tomorrow" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 12, alignItems: 'center' }}>
+            <div>Bury Transpositions</div>
+            <div className="sub">Cards with the same review position wait until tomorrow</div>
+            <label style={{ display: 'inline-flex', alignItems: 'center', gap: 8, justifySelf: 'end' }}>
+              <input
+                type="checkbox"
+                checked={!!schedPrefs.buryTranspositions}
+                onChange={e => saveSchedPrefs({ buryTranspositions: e.currentTarget.checked })}
+              />
+            </label>
+          </div>
+
+          {/* Opponent reply weights */}
+          <div className="row" title="Weight opponent replies in drills and 'Most Likely Replies First' by how often they are played. Chess.com scans are counted automatically." style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 12, alignItems: 'center' }}>
+            <div>Reply Weights</div>
+            <div className="sub">{gamesImported} imported game{gamesImported === 1 ? '' : 's'} + Chess.com scans</div>
+            <div style={{ display: 'flex', gap: 8, justifySelf: 'end' }}>
+              <input ref={pgnInputRef} type="file" accept=".pgn,text/plain" style={{ display: 'none' }} onChange={onImportPgn} />
+              <button className="button" onClick={() => pgnInputRef.current?.click()}>Import PGN</button>
+              <button
+                className="button secondary"
+                disabled={gamesImported === 0}
+                onClick={() => {
+                  if (!window.confirm('Clear all move counts from imported games?')) return;
+                  clearImportedGames();
+                  setGamesImported(0);
+                }}
+              >
+                Clear
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Lineage */}
+        <div className="section">
+          <div style={{ fontWeight: 700, marginBottom: 6 }}>Lineage Rules</div>
+          <div className="sub" style={{ marginBottom: 8 }}>Tie a card's schedule to its parent card (the position one answer and reply earlier).</div>
+
+          <div className="row" title="When you press Again on a card, its children that aren't mature yet become due together with it" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 12, alignItems: 'center' }}>
+            <div>Failing Pulls Children</div>
+            <div className="sub">Immature children come due with a failed parent</div>
+            <label style={{ display: 'inline-flex', alignItems: 'center', gap: 8, justifySelf: 'end' }}>
+              <input type="checkbox" checked={!!schedPrefs.lineagePullChildren} onChange={e => saveSchedPrefs({ lineagePullChildren: e.currentTarget.checked })} />
+            </label>
+          </div>
+
+          <div className="row" title="A graduated child's interval is capped at its graduated parent's interval" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 12, alignItems: 'center' }}>
+            <div>Cap Child Intervals</div>
+            <div className="sub">Children can't outgrow their parent</div>
+            <label style={{ display: 'inline-flex', alignItems: 'center', gap: 8, justifySelf: 'end' }}>
+              <input type="checkbox" checked={!!schedPrefs.lineageCapChildren} onChange={e => saveSchedPrefs({ lineageCapChildren: e.currentTarget.checked })} />
+            </label>
+          </div>
+
+          <div className="row" title="New cards whose parent's interval is shorter than this are held back from the daily queue" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 12, alignItems: 'center' }}>
+            <div>Gate New Children</div>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+              <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+                <input type="checkbox" checked={!!schedPrefs.lineageGateNew} onChange={e => saveSchedPrefs({ lineageGateNew: e.currentTarget.checked })} />
+                <span className="sub">Introduce once the parent's interval reaches (days)</span>
+              </label>
+            </div>
+            <div className="num-wrap" style={{ justifySelf: 'end' }}>
+              <input className="no-native-spin" type="text" inputMode="numeric" value={String(schedPrefs.lineageGateDays)} disabled={!schedPrefs.lineageGateNew}
+                onChange={e => saveSchedPrefs({ lineageGateDays: clampInt(parseInt(e.currentTarget.value, 10), 0, 365) })}
+                style={{ backgroundColor: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px', width: 80, textAlign: 'right' }} />
+              <div className="num-stepper" aria-hidden="true">
+                <button type="button" className="step up" onClick={() => saveSchedPrefs({ lineageGateDays: clampInt(schedPrefs.lineageGateDays + 1, 0, 365) })}>▲</button>
+                <button type="button" className="step down" onClick={() => saveSchedPrefs({ lineageGateDays: clampInt(schedPrefs.lineageGateDays - 1, 0, 365) })}>▼</button>
+              </div>
+            </div>
+          </div>
         </div>
 
         {/* Scheduler */}
         <div className="section">
           <div style={{ fontWeight: 700, marginBottom: 6 }}>Scheduler</div>
-          <div className="sub" style={{ marginBottom: 8 }}>FSRS-like spaced repetition with presets and tuning.</div>
+          <div className="sub" style={{ marginBottom: 8 }}>Spaced repetition with the FSRS memory model or tunable presets.</div>
+
+          <div className="row" title="Decks without a preset (set in Manage Deck) use the global settings" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 10, alignItems: 'center' }}>
+            <div>Editing</div>
+            <div className="sub">{schedTarget ? 'Custom preset; assign it to decks in Manage Deck' : 'Global settings for decks without a preset'}</div>
+            <div style={{ justifySelf: 'end', display: 'flex', gap: 8 }}>
+              <select value={schedTarget} onChange={e => selectSchedTarget(e.currentTarget.value)}
+                style={{ backgroundColor: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px' }}>
+                <option value="">Global</option>
+                {customPresets.map(p => (
+                  <option key={p.name} value={p.name}>{p.name}</option>
+                ))}
+              </select>
+              <button className="button secondary" onClick={newCustomPreset} title="Save a copy of the settings shown as a new preset">New Preset</button>
+              {schedTarget && (
+                <button className="button secondary" onClick={removeCustomPreset}>Delete</button>
+              )}
+            </div>
+          </div>
+
+          <div className="row" title="FSRS models each card's difficulty, stability and recall probability; the heuristic uses ease multipliers from the preset" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 10, alignItems: 'center' }}>
+            <div>Algorithm</div>
+            <div className="sub">{fsrsMigration || 'Both track FSRS state; switching keeps your history'}</div>
+            <div style={{ justifySelf: 'end' }}>
+              <select value={sched.algorithm} onChange={e => setAlgorithm(e.currentTarget.value as SchedulerAlgorithm)}
+                style={{ backgroundColor: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px' }}>
+                <option value="fsrs">FSRS</option>
+                <option value="heuristic">Preset (Heuristic)</option>
+              </select>
+            </div>
+          </div>
+
+          {sched.algorithm === 'fsrs' && (
+            <div className="row" title="Probability of still remembering a card when it comes due. Higher means shorter intervals and more reviews." style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 10, alignItems: 'center' }}>
+              <div>Target Retention</div>
+              <div className="sub">0.70 – 0.99 (default 0.90)</div>
+              <div className="num-wrap" style={{ justifySelf: 'end' }}>
+                <input className="no-native-spin" type="text" inputMode="decimal" value={String(sched.targetRetention)}
+                  onChange={e => { const v = parseFloat(e.currentTarget.value); if (Number.isFinite(v)) saveSched({ targetRetention: Math.max(0.7, Math.min(0.99, v)) }); }}
+                  style={{ backgroundColor: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px', width: 90, textAlign: 'right' }} />
+                <div className="num-stepper" aria-hidden="true">
+                  <button type="button" className="step up" onClick={() => saveSched({ targetRetention: Math.min(0.99, Math.round((sched.targetRetention + 0.01) * 100) / 100) })}>▲</button>
+                  <button type="button" className="step down" onClick={() => saveSched({ targetRetention: Math.max(0.7, Math.round((sched.targetRetention - 0.01) * 100) / 100) })}>▼</button>
+                </div>
+              </div>
+            </div>
+          )}
 
           <div className="row" title="Choose a preset configuration" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 10, alignItems: 'center' }}>
             <div>Preset</div>
-            <div className="sub">Baseline parameters</div>
+            <div className="sub">{schedTarget ? 'Copy parameters from' : 'Baseline parameters'}</div>
             <div style={{ justifySelf: 'end' }}>
-              <select value={sched.preset} onChange={e => applyPreset(e.currentTarget.value)}
+              <select value={schedTarget ? '' : sched.preset} onChange={e => applyPreset(e.currentTarget.value)}
                 style={{ backgroundColor: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px' }}>
-                {getPresets().map(p => (
+                {schedTarget && <option value="">(choose)</option>}
+                {getPresets().filter(p => p.name !== schedTarget).map(p => (
                   <option key={p.name} value={p.name}>{p.name}</option>
                 ))}
               </select>
             </div>
           </div>
 
+          <div className="row" title="Fit the FSRS weights to your own review history" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 10, alignItems: 'center' }}>
+            <div>Optimize</div>
+            <div className="sub">
+              {optProgress !== null
+                ? `Fitting weights… ${Math.round(optProgress * 100)}%`
+                : optError || 'Fits FSRS to the review log; saves as a custom preset'}
+            </div>
+            <div style={{ justifySelf: 'end' }}>
+              <button className="button secondary" onClick={runOptimizer} disabled={optProgress !== null}>Optimize from History</button>
+            </div>
+          </div>
+
+          {optResult && (
+            <div className="row" style={{ display: 'grid', gap: 8, width: '100%', justifyContent: 'stretch' }}>
+              <div className="sub">
+                {optResult.before.count} reviews across {optResult.cards} cards.
+                {' '}Log-loss <strong>{optResult.before.logLoss.toFixed(4)}</strong> → <strong>{optResult.after.logLoss.toFixed(4)}</strong>,
+                {' '}RMSE <strong>{optResult.before.rmse.toFixed(4)}</strong> → <strong>{optResult.after.rmse.toFixed(4)}</strong>
+                {optResult.after.logLoss >= optResult.before.logLoss ? ' (no improvement over the current weights)' : ''}
+              </div>
+              <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+                <input type="text" value={optName} onChange={e => setOptName(e.currentTarget.value)} placeholder="Preset name"
+                  onKeyDown={e => { if (e.key === 'Enter') saveOptimized(); }}
+                  style={{ flex: 1, backgroundColor: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px' }} />
+                <button className="button" onClick={saveOptimized} disabled={!optName.trim()} title="Save the fitted weights as a preset and switch to it (uses FSRS)">Save as Preset</button>
+                <button className="button secondary" onClick={() => setOptResult(null)}>Discard</button>
+              </div>
+            </div>
+          )}
+
           <div className="row" title="Minutes for the initial learning steps before graduation" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 10, alignItems: 'center' }}>
             <div>Learning Steps (min)</div>
             <div className="sub">First and second steps</div>
@@ -550,12 +953,153 @@ export default function SettingsPage() {
             </div>
           </div>
 
+          <div className="row" title="Spread due dates of intervals of 3+ days over a window of ± this percentage (at least a day). 0 turns it off." style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 10, alignItems: 'center' }}>
+            <div>Interval Fuzz (%)</div>
+            <div className="sub">All presets; keeps cards reviewed together from staying together</div>
+            <div className="num-wrap" style={{ justifySelf: 'end' }}>
+              <input className="no-native-spin" type="text" inputMode="numeric" value={String(schedPrefs.fuzzPercent)}
+                onChange={e => saveSchedPrefs({ fuzzPercent: clampInt(parseInt(e.currentTarget.value, 10), 0, 25) })}
+                style={{ backgroundColor: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px', width: 80, textAlign: 'right' }} />
+              <div className="num-stepper" aria-hidden="true">
+                <button type="button" className="step up" onClick={() => saveSchedPrefs({ fuzzPercent: clampInt(schedPrefs.fuzzPercent + 1, 0, 25) })}>▲</button>
+                <button type="button" className="step down" onClick={() => saveSchedPrefs({ fuzzPercent: clampInt(schedPrefs.fuzzPercent - 1, 0, 25) })}>▼</button>
+              </div>
+            </div>
+          </div>
+
+          <div className="row" title="Within the fuzz window (at least a day either side of a light weekday), pick the day with the fewest cards already due instead of a random one" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 10, alignItems: 'center' }}>
+            <div>Load Balancing</div>
+            <div className="sub">Even out daily review counts</div>
+            <label style={{ display: 'inline-flex', alignItems: 'center', gap: 8, justifySelf: 'end' }}>
+              <input type="checkbox" checked={!!schedPrefs.loadBalance}
+                onChange={e => saveSchedPrefs({ loadBalance: e.currentTarget.checked })} />
+            </label>
+          </div>
+
           <div className="row" style={{ display: 'grid', gap: 8 }}>
-            <div style={{ fontWeight: 600 }}>Preview (from 1 day)</div>
+            <div style={{ fontWeight: 600 }}>Preview (from 1 day{sched.algorithm === 'fsrs' ? ' of stability' : ''})</div>
             <div className="sub">Again: <strong>{preview.daysFmt(preview.g.again)}</strong> &nbsp; | &nbsp; Hard: <strong>{preview.daysFmt(preview.g.hard)}</strong> &nbsp; | &nbsp; Good: <strong>{preview.daysFmt(preview.g.good)}</strong> &nbsp; | &nbsp; Easy: <strong>{preview.daysFmt(preview.g.easy)}</strong></div>
           </div>
         </div>
 
+        {/* Easy days & days off */}
+        <div className="section">
+          <div style={{ fontWeight: 700, marginBottom: 6 }}>Easy Days & Days Off</div>
+          <div className="sub" style={{ marginBottom: 8 }}>New due dates avoid days off and move a day either way off light weekdays. Daily limits shrink on light weekdays.</div>
+
+          <div className="row" title="Reviews before this hour count toward the previous day (daily limits, burying, stats, days off)" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 10, alignItems: 'center' }}>
+            <div>Next Day Starts At</div>
+            <div className="sub">Hour (0–23); late-night sessions stay on the same day</div>
+            <div className="num-wrap" style={{ justifySelf: 'end' }}>
+              <input className="no-native-spin" type="text" inputMode="numeric" value={String(schedPrefs.dayRolloverHour)}
+                onChange={e => saveSchedPrefs({ dayRolloverHour: clampInt(parseInt(e.currentTarget.value, 10), 0, 23) })}
+                style={{ backgroundColor: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px', width: 80, textAlign: 'right' }} />
+              <div className="num-stepper" aria-hidden="true">
+                <button type="button" className="step up" onClick={() => saveSchedPrefs({ dayRolloverHour: clampInt(schedPrefs.dayRolloverHour + 1, 0, 23) })}>▲</button>
+                <button type="button" className="step down" onClick={() => saveSchedPrefs({ dayRolloverHour: clampInt(schedPrefs.dayRolloverHour - 1, 0, 23) })}>▼</button>
+              </div>
+            </div>
+          </div>
+
+          <div className="row" title="Share of a normal day's reviews for each weekday (0 = no reviews scheduled)" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 10, alignItems: 'center' }}>
+            <div>Weekday Load (%)</div>
+            <div className="sub">e.g. 50 on tournament days</div>
+            <div style={{ justifySelf: 'end', display: 'grid', gridTemplateColumns: 'repeat(7, max-content)', gap: 6 }}>
+              {WEEKDAYS.map((name, i) => (
+                <label key={name} style={{ display: 'grid', gap: 2, justifyItems: 'center' }}>
+                  <span className="sub">{name}</span>
+                  <input className="no-native-spin" type="text" inputMode="numeric" value={String(schedPrefs.weekdayLoad[i])}
+                    onChange={e => setWeekdayLoad(i, parseInt(e.currentTarget.value, 10))}
+                    style={{ backgroundColor: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px', width: 52, textAlign: 'right' }} />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="row" title="Inclusive date ranges with no reviews scheduled (events, travel)" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 10, alignItems: 'center' }}>
+            <div>Days Off</div>
+            <input type="text" value={offDraft.label} placeholder="Label (optional)" onChange={e => { const label = e.currentTarget.value; setOffDraft(d => ({ ...d, label })); }}
+              style={{ backgroundColor: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px' }} />
+            <div style={{ justifySelf: 'end', display: 'flex', gap: 6, alignItems: 'center' }}>
+              <input type="date" value={offDraft.start} onChange={e => { const start = e.currentTarget.value; setOffDraft(d => ({ ...d, start, end: d.end < start ? start : d.end })); }}
+                style={{ backgroundColor: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px' }} />
+              <span className="sub">to</span>
+              <input type="date" value={offDraft.end} min={offDraft.start} onChange={e => { const end = e.currentTarget.value; setOffDraft(d => ({ ...d, end })); }}
+                style={{ backgroundColor: '#fff', color: '#000', border: '1px solid var(--border-strong)', borderRadius: 8, padding: '6px 8px' }} />
+              <button className="button" onClick={addDaysOff} disabled={!offDraft.start || !offDraft.end || offDraft.start > offDraft.end}>Add</button>
+            </div>
+          </div>
+
+          {schedPrefs.daysOff.map((r, i) => (
+            <div key={`${r.start}-${r.end}-${i}`} className="row" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 10, alignItems: 'center' }}>
+              <div className="sub">{r.start === r.end ? r.start : `${r.start} – ${r.end}`}</div>
+              <div className="sub">{r.label || ''}</div>
+              <button className="button secondary" onClick={() => removeDaysOff(i)} style={{ justifySelf: 'end' }}>Remove</button>
+            </div>
+          ))}
+
+          <div className="row" title="Move already scheduled due dates (from tomorrow on) off days off and toward lighter load" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 10, alignItems: 'center' }}>
+            <div>Rebalance</div>
+            <div className="sub">Apply these settings to cards that are already scheduled</div>
+            <button className="button secondary" onClick={runRebalance} style={{ justifySelf: 'end' }}>Rebalance Now</button>
+          </div>
+        </div>
+
+        {/* Backups */}
+        <div className="section">
+          <div style={{ fontWeight: 700, marginBottom: 6 }}>Backups</div>
+          <div className="sub" style={{ marginBottom: 8 }}>
+            {hasBackups
+              ? 'cards.json is copied to src/data/backups before it changes (at most every 15 minutes; the last 10 are kept). Review history and due dates changed since are kept.'
+              : 'Backups are available in the desktop app.'}
+          </div>
+
+          {hasBackups && backups.length === 0 && <div className="sub">No backups yet.</div>}
+
+          {backups.map(b => (
+            <React.Fragment key={b.name}>
+              <div className="row" style={{ display: 'grid', gridTemplateColumns: '220px 1fr max-content', gap: 10, alignItems: 'center' }}>
+                <div>{new Date(b.createdAt).toLocaleString()}</div>
+                <div className="sub">{(b.size / 1024).toFixed(0)} KB</div>
+                <div style={{ justifySelf: 'end', display: 'flex', gap: 6 }}>
+                  <button className="button secondary" onClick={() => backupPreview?.name === b.name ? setBackupPreview(null) : previewBackup(b.name)}>
+                    {backupPreview?.name === b.name ? 'Hide' : 'Preview'}
+                  </button>
+                  <button className="button" onClick={() => restoreCardsBackup(b.name)}>Restore</button>
+                </div>
+              </div>
+              {backupPreview?.name === b.name && (
+                <div className="row" style={{ display: 'grid', gap: 6 }}>
+                  {backupPreview.error && <div className="sub" style={{ color: 'var(--danger, #c33)' }}>{backupPreview.error}</div>}
+                  {!backupPreview.error && !backupPreview.diff && <div className="sub">Comparing…</div>}
+                  {backupPreview.diff && (() => {
+                    const d = backupPreview.diff;
+                    const rows = [
+                      ...d.added.map(c => ({ ...c, kind: 'restored' })),
+                      ...d.removed.map(c => ({ ...c, kind: 'removed' })),
+                      ...d.changed.map(c => ({ ...c, kind: c.changed.join(', ') })),
+                    ];
+                    return (
+                      <>
+                        <div className="sub">
+                          Restoring brings back <strong>{d.added.length}</strong>, removes <strong>{d.removed.length}</strong> and changes <strong>{d.changed.length}</strong> card{d.changed.length === 1 ? '' : 's'} ({d.unchanged} unchanged). Due dates are not restored.
+                        </div>
+                        {rows.slice(0, 50).map(r => (
+                          <div key={`${r.kind}:${r.id}`} className="sub" style={{ display: 'grid', gridTemplateColumns: '1fr max-content', gap: 10 }}>
+                            <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={r.id}>{r.label}</span>
+                            <span>{r.kind}</span>
+                          </div>
+                        ))}
+                        {rows.length > 50 && <div className="sub">…and {rows.length - 50} more</div>}
+                      </>
+                    );
+                  })()}
+                </div>
+              )}
+            </React.Fragment>
+          ))}
+        </div>
+
         </div>
       </div>
     </div>
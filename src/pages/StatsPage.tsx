@@ -5,6 +5,10 @@ import React, { useMemo, useState } from 'react';
 import { allCards } from '../data/cardStore';
 import { getMeta as getSchedMeta } from '../state/scheduler';
 import { decks, getDeckPathNames, getDescendantDeckIds } from '../decks';
+import { simulateWorkload, ForecastDay } from '../state/forecast';
+import { getRolloverHour, learningDayKey, startOfLearningDay } from '../state/clock';
+import { getListStore, resetStore } from '../data/collectionDb';
+import { getCardOpening } from '../state/openings';
 
 type Grade = 'again' | 'hard' | 'good' | 'easy';
 type Entry = {
@@ -21,20 +25,16 @@ type Entry = {
   ease?: number;
   stabilityDays?: number;
 };
-const LOG_KEY = 'chessflashcards.reviewLog.v1';
 const SNAP_KEY = 'chessflashcards.statsSnapshots.v1';
 
 function loadLog(): Entry[] {
-  try {
-    const raw = localStorage.getItem(LOG_KEY);
-    const arr = raw ? JSON.parse(raw) : [];
-    return Array.isArray(arr) ? (arr as Entry[]) : [];
-  } catch { return []; }
+  // Manual changes (reset, set due, ...) share the log but aren't reviews
+  return getListStore<Entry>('reviewLog').filter(e => e && !(e as any).manual);
 }
 
-function dayKey(ts: number): string {
-  const d = new Date(ts);
-  return `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,'0')}-${String(d.getDate()).padStart(2,'0')}`;
+// Reviews are bucketed by learning day (starting at the rollover hour), named by its start date
+function dayKey(ts: number, hour: number): string {
+  return learningDayKey(ts, hour);
 }
 
 export default function StatsPage() {
@@ -56,9 +56,7 @@ export default function StatsPage() {
   const [range, setRange] = useState<'today' | '7d' | '30d' | '90d' | '365d' | 'all'>('30d');
 
   const sinceTs = useMemo(() => {
-    const now = new Date();
-    now.setHours(0,0,0,0);
-    const todayStart = now.getTime();
+    const todayStart = startOfLearningDay();
     switch (range) {
       case 'today': return todayStart;
       case '7d': return todayStart - 6 * 86400000;
@@ -101,15 +99,16 @@ export default function StatsPage() {
   const totals = useMemo(() => {
     const byDay = new Map<string, number>();
     const byGrade: Record<Grade, number> = { again: 0, hard: 0, good: 0, easy: 0 };
+    const hour = getRolloverHour();
     for (const e of filtered) {
-      const k = dayKey(e.ts);
+      const k = dayKey(e.ts, hour);
       byDay.set(k, (byDay.get(k) || 0) + 1);
       byGrade[e.grade]++;
     }
     // Build continuous day series within range (up to 365 days for perf)
     const days: [string, number][] = [];
     const minTs = sinceTs;
-    const maxTs = Date.now();
+    const maxTs = startOfLearningDay();
     const d = new Date(minTs || Date.now());
     if (minTs) d.setHours(0,0,0,0);
     else {
@@ -173,13 +172,33 @@ export default function StatsPage() {
     return Array.from(map.entries()).sort((a,b) => b[1].total - a[1].total);
   }, [filtered, idToDeck]);
 
+  // Same accuracy table grouped by opening name or ECO code instead of deck
+  const [groupBy, setGroupBy] = useState<'deck' | 'opening' | 'eco'>('deck');
+  const perOpening = useMemo(() => {
+    if (groupBy === 'deck') return [];
+    const byId = new Map(allCards().map(c => [c.id, c] as const));
+    const map = new Map<string, { name: string; total: number; correct: number }>();
+    for (const e of filtered) {
+      const card = byId.get(e.id);
+      const o = card ? getCardOpening(card) : null;
+      const key = (groupBy === 'eco' ? o?.eco : o?.name) || 'unknown';
+      const cur = map.get(key) || { name: key === 'unknown' ? 'Unknown' : key, total: 0, correct: 0 };
+      cur.total++;
+      if (e.grade !== 'again') cur.correct++;
+      map.set(key, cur);
+    }
+    return Array.from(map.entries()).sort((a,b) => b[1].total - a[1].total);
+  }, [filtered, groupBy]);
+  const perGroup = groupBy === 'deck' ? perDeck : perOpening;
+
   // Daily streaks (activity days)
   const { currentStreak, longestStreak } = useMemo(() => {
     const days = new Set(totals.byDay.filter(([_, n]) => n > 0).map(([d]) => d));
     // Build from entire log for longest streak
     const allCounts = new Map<string, number>();
+    const hour = getRolloverHour();
     for (const e of log) {
-      const k = dayKey(e.ts);
+      const k = dayKey(e.ts, hour);
       allCounts.set(k, (allCounts.get(k) || 0) + 1);
     }
     const allDaysSorted = Array.from(allCounts.keys()).sort();
@@ -194,10 +213,10 @@ export default function StatsPage() {
     }
     // Current streak up to today
     let curStreak = 0;
-    const today = new Date(); today.setHours(0,0,0,0);
+    const day = new Date(startOfLearningDay());
     for (let i = 0; i < 400; i++) {
-      const key = dayKey(today.getTime() - i * 86400000);
-      if (days.has(key)) curStreak++; else break;
+      if (days.has(dayKey(day.getTime(), hour))) curStreak++; else break;
+      day.setDate(day.getDate() - 1);
     }
     return { currentStreak: curStreak, longestStreak: longest };
   }, [totals.byDay, log]);
@@ -274,7 +293,7 @@ export default function StatsPage() {
   const clear = () => {
     try {
       if (window.confirm('Clear all review stats? This cannot be undone.')) {
-        localStorage.removeItem(LOG_KEY);
+        resetStore('reviewLog', []);
         bump();
       }
     } catch {
@@ -352,6 +371,23 @@ export default function StatsPage() {
     };
   }, [_]);
 
+  // --- Workload forecast ---
+  const [forecastDays, setForecastDays] = useState<30 | 90 | 365>(30);
+  const [newPerDay, setNewPerDay] = useState<number>(0);
+  const [forecast, setForecast] = useState<ForecastDay[] | null>(null);
+  const runForecast = () => {
+    setForecast(simulateWorkload(deckFilter === 'ALL' ? null : deckFilter, { days: forecastDays, newPerDay }));
+  };
+  const forecastSummary = useMemo(() => {
+    if (!forecast?.length) return null;
+    const load = (d: ForecastDay) => d.reviews + d.newCards + d.learning;
+    let peak = forecast[0];
+    let sum = 0;
+    for (const d of forecast) { sum += load(d); if (load(d) > load(peak)) peak = d; }
+    const last = forecast[forecast.length - 1];
+    return { avg: sum / forecast.length, peak, peakLoad: load(peak), maxLoad: Math.max(1, load(peak)), last };
+  }, [forecast]);
+
   return (
     <div className="container">
       <div className="card grid">
@@ -411,6 +447,56 @@ export default function StatsPage() {
             <div className="sub" style={{ marginTop: 4 }}>Current streak: <strong>{currentStreak}</strong> days • Longest: <strong>{longestStreak}</strong> days</div>
           </div>
 
+          {/* Forecast */}
+          <div className="section">
+            <div style={{ fontWeight: 600, marginBottom: 6 }}>Workload Forecast</div>
+            <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap' }}>
+              <label className="sub" style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+                Next:
+                <select value={forecastDays} onChange={(e) => setForecastDays(Number(e.target.value) as 30 | 90 | 365)}>
+                  <option value={30}>30 days</option>
+                  <option value={90}>90 days</option>
+                  <option value={365}>1 year</option>
+                </select>
+              </label>
+              <label className="sub" style={{ display: 'flex', gap: 6, alignItems: 'center' }} title="Hypothetical cards added to the deck each day, on top of the current collection">
+                Add new cards/day:
+                <input type="number" min={0} max={500} value={newPerDay}
+                  onChange={(e) => setNewPerDay(Math.max(0, Math.min(500, Math.floor(Number(e.target.value) || 0))))}
+                  style={{ width: 70 }} />
+              </label>
+              <button className="button" onClick={runForecast} title="Simulate reviews with the current deck limits, queue order and scheduler presets">Simulate</button>
+              <div className="sub">Uses the deck filter above; daily limits apply per top-level deck.</div>
+            </div>
+            {forecast && forecastSummary && (
+              <>
+                <div style={{ display: 'flex', gap: 2, alignItems: 'flex-end', overflowX: 'auto', paddingBottom: 4, marginTop: 8, height: 130 }}>
+                  {forecast.map(d => {
+                    const scale = 120 / forecastSummary.maxLoad;
+                    const w = forecast.length > 90 ? 2 : forecast.length > 30 ? 5 : 10;
+                    return (
+                      <div key={d.date} title={`${d.date}: ${d.reviews} reviews, ${d.newCards} new, ${d.learning} learning${d.backlog ? `, ${d.backlog} left over` : ''}`}
+                        style={{ display: 'flex', flexDirection: 'column-reverse', width: w, flex: '0 0 auto' }}>
+                        <div style={{ background: 'var(--accent)', height: d.reviews * scale }} />
+                        <div style={{ background: '#60a5fa', height: d.newCards * scale }} />
+                        <div style={{ background: '#fbbf24', height: d.learning * scale }} />
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="sub" style={{ display: 'flex', gap: 12, flexWrap: 'wrap' }}>
+                  <span><span style={{ color: 'var(--accent)' }}>■</span> Reviews</span>
+                  <span><span style={{ color: '#60a5fa' }}>■</span> New</span>
+                  <span><span style={{ color: '#fbbf24' }}>■</span> Learning</span>
+                </div>
+                <div className="sub" style={{ marginTop: 4 }}>
+                  Avg/day: <strong>{forecastSummary.avg.toFixed(1)}</strong> • Peak: <strong>{forecastSummary.peakLoad}</strong> on {forecastSummary.peak.date}
+                  {' '}• Left over after {forecast.length} days: <strong>{forecastSummary.last.backlog}</strong> due, <strong>{forecastSummary.last.newWaiting}</strong> new waiting
+                </div>
+              </>
+            )}
+          </div>
+
           {/* Accuracy */}
           <div className="section">
             <div style={{ fontWeight: 600, marginBottom: 6 }}>Accuracy</div>
@@ -441,16 +527,26 @@ export default function StatsPage() {
 
           {/* Per-deck */}
           <div className="section">
-            <div style={{ fontWeight: 600, marginBottom: 6 }}>Per Deck (filtered window)</div>
-            {perDeck.length === 0 ? (
+            <div style={{ display: 'flex', gap: 12, alignItems: 'center', marginBottom: 6 }}>
+              <div style={{ fontWeight: 600 }}>Per {groupBy === 'deck' ? 'Deck' : groupBy === 'eco' ? 'ECO Code' : 'Opening'} (filtered window)</div>
+              <label className="sub" style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+                Group by:
+                <select value={groupBy} onChange={(e) => setGroupBy(e.target.value as 'deck' | 'opening' | 'eco')}>
+                  <option value="deck">Deck</option>
+                  <option value="opening">Opening</option>
+                  <option value="eco">ECO code</option>
+                </select>
+              </label>
+            </div>
+            {perGroup.length === 0 ? (
               <div className="sub">No data.</div>
             ) : (
               <div style={{ display: 'grid', gridTemplateColumns: '1fr auto auto auto', gap: 4, maxWidth: 700 }}>
-                <div className="sub" style={{ fontWeight: 600 }}>Deck</div>
+                <div className="sub" style={{ fontWeight: 600 }}>{groupBy === 'deck' ? 'Deck' : groupBy === 'eco' ? 'ECO' : 'Opening'}</div>
                 <div className="sub" style={{ textAlign: 'right', fontWeight: 600 }}>Total</div>
                 <div className="sub" style={{ textAlign: 'right', fontWeight: 600 }}>Correct</div>
                 <div className="sub" style={{ textAlign: 'right', fontWeight: 600 }}>Rate</div>
-                {perDeck.map(([id, d]) => (
+                {perGroup.map(([id, d]) => (
                   <React.Fragment key={id}>
                     <div className="sub">{d.name}</div>
                     <div className="sub" style={{ textAlign: 'right' }}>{d.total}</div>
@@ -0,0 +1,44 @@
+import { Card } from '../data/types';
+import { allCards } from '../data/cardStore';
+import { getReviewLog } from './scheduler';
+import { getSchedulingPrefs, CardSchedulingPrefs } from './schedulingPrefs';
+import { getNow, startOfLearningDay } from './clock';
+
+// Burying: once a card is reviewed, cards that would give its answer away (or
+// whose answer it gives away) are held back until the next learning day.
+// Derived from today's review log, so there is nothing to store or clear.
+
+/** Position part of a FEN (placement, side, castling, en passant); move counters differ across transpositions. */
+export function positionKey(fen: string | undefined): string {
+  return (fen || '').trim().split(/\s+/).slice(0, 4).join(' ');
+}
+
+/**
+ * Cards buried for the rest of today: siblings (same fields.parent) and
+ * transpositions (same review position) of cards reviewed today. Cards that
+ * were reviewed themselves are never buried, so their learning steps go on.
+ */
+export function getBuriedCardIds(
+  prefs: CardSchedulingPrefs = getSchedulingPrefs(),
+  cards: Card[] = allCards(),
+): Set<string> {
+  const buried = new Set<string>();
+  if (!prefs.burySiblings && !prefs.buryTranspositions) return buried;
+  const reviewed = new Set(getReviewLog(startOfLearningDay(getNow(), prefs.dayRolloverHour)).map(e => e.id));
+  if (!reviewed.size) return buried;
+
+  const parents = new Set<string>();
+  const positions = new Set<string>();
+  for (const c of cards) {
+    if (!reviewed.has(c.id)) continue;
+    if (c.fields.parent) parents.add(c.fields.parent);
+    const key = positionKey(c.fields.fen);
+    if (key) positions.add(key);
+  }
+  for (const c of cards) {
+    if (reviewed.has(c.id)) continue;
+    if (prefs.burySiblings && c.fields.parent && parents.has(c.fields.parent)) buried.add(c.id);
+    else if (prefs.buryTranspositions && positions.has(positionKey(c.fields.fen))) buried.add(c.id);
+  }
+  return buried;
+}
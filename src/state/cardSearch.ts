@@ -0,0 +1,116 @@
+import type { Card } from '../data/types';
+import { getNow } from './clock';
+import { getCardOpening, openingLabel } from './openings';
+
+// Collection search syntax, shared by CollectionPage and custom study sessions.
+//   free text            matches id/deck/tags/pgn/fen/answer/...
+//   key:value            substring match on one field (tags:sicilian, state:due, eco:b1, opening:caro)
+//   key:<n key:>=n ...   numeric comparison on numeric fields (depth:<6)
+
+export type CardState = 'new' | 'due' | 'buried' | 'scheduled' | 'none';
+
+/** `buried`: ids from getBuriedCardIds(); a buried new or due card reports 'buried'. */
+export function getCardState(c: Card, now = getNow(), buried?: ReadonlySet<string>): CardState {
+  const due: any = (c as any).due;
+  if (due === 'new') return buried?.has(c.id) ? 'buried' : 'new';
+  if (typeof due === 'string') {
+    const t = Date.parse(due);
+    if (Number.isFinite(t)) return t > now ? 'scheduled' : buried?.has(c.id) ? 'buried' : 'due';
+  }
+  return 'none';
+}
+
+export type Criterion = { key?: string; value: string };
+
+export function parseSearch(input: string): Criterion[] {
+  const tokens: string[] = [];
+  let cur = '';
+  let inQuote = false;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (ch === '"') { inQuote = !inQuote; continue; }
+    if (!inQuote && /\s/.test(ch)) { if (cur) { tokens.push(cur); cur = ''; } continue; }
+    cur += ch;
+  }
+  if (cur) tokens.push(cur);
+  return tokens.map(t => {
+    const idx = t.indexOf(':');
+    if (idx > 0) return { key: t.slice(0, idx).trim().toLowerCase(), value: t.slice(idx + 1).trim().toLowerCase() };
+    return { value: t.trim().toLowerCase() };
+  }).filter(c => c.value.length > 0);
+}
+
+function otherAnswersLine(c: Card): string {
+  return (c.fields.otherAnswers || [])
+    .map(a => (typeof a === 'string' ? a : a?.move))
+    .filter(Boolean)
+    .join(' ');
+}
+
+const NUMERIC_KEYS = new Set(['depth', 'evalvalue', 'evaldepth']);
+
+/** "<6", ">=2", "=3" -> comparison; null when the value is not a comparison */
+function compareNumeric(actual: string, expr: string): boolean | null {
+  const m = /^(<=|>=|<|>|=)\s*(-?\d+(?:\.\d+)?)$/.exec(expr);
+  if (!m) return null;
+  const a = Number(actual);
+  const b = Number(m[2]);
+  if (actual === '' || !Number.isFinite(a)) return false;
+  switch (m[1]) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+    default: return a === b;
+  }
+}
+
+export function cardMatchesSearch(c: Card, crits: Criterion[], buried?: ReadonlySet<string>): boolean {
+  if (!crits.length) return true;
+  const get = (key: string): string => {
+    switch (key) {
+      case 'id': return c.id.toLowerCase();
+      case 'deck': return (c.deck || '').toLowerCase();
+      case 'tags': return (c.tags || []).join(' ').toLowerCase();
+      case 'due': return String((c as any).due ?? '').toLowerCase();
+      case 'movesequence':
+      case 'move':
+      case 'pgn': return (c.fields.moveSequence || '').toLowerCase();
+      case 'fen': return (c.fields.fen || '').toLowerCase();
+      case 'answer': return (c.fields.answer || '').toLowerCase();
+      case 'answerfen': return (c.fields.answerFen || '').toLowerCase();
+      case 'otheranswers': return otherAnswersLine(c).toLowerCase();
+      case 'siblinganswers': return (c.fields.siblingAnswers || []).join(' ').toLowerCase();
+      case 'exampleline': return (c.fields.exampleLine || []).join(' ').toLowerCase();
+      case 'depth': return String((c.fields as any).depth ?? '').toLowerCase();
+      case 'evalkind': return String((c.fields as any).eval?.kind ?? '').toLowerCase();
+      case 'evalvalue': return String((c.fields as any).eval?.value ?? '').toLowerCase();
+      case 'evaldepth': return String((c.fields as any).eval?.depth ?? '').toLowerCase();
+      case 'state': return getCardState(c, getNow(), buried);
+      case 'eco': return (getCardOpening(c)?.eco || '').toLowerCase();
+      case 'opening': return (getCardOpening(c)?.name || '').toLowerCase();
+      default:
+        return [
+          c.id,
+          c.deck,
+          (c.tags || []).join(' '),
+          c.fields.moveSequence,
+          c.fields.fen,
+          c.fields.answer,
+          otherAnswersLine(c),
+          (c.fields.exampleLine || []).join(' '),
+          openingLabel(getCardOpening(c)),
+        ].join(' ').toLowerCase();
+    }
+  };
+  return crits.every(cr => {
+    if (cr.key) {
+      if (NUMERIC_KEYS.has(cr.key)) {
+        const cmp = compareNumeric(get(cr.key), cr.value);
+        if (cmp !== null) return cmp;
+      }
+      return String(get(cr.key)).includes(cr.value);
+    }
+    return String(get('')).includes(cr.value);
+  });
+}
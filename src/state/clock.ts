@@ -0,0 +1,59 @@
+import { getSchedulingPrefs } from './schedulingPrefs';
+
+// One time source for the scheduling code: due checks, lateness, day counts
+// and rollover all read getNow(), so they can be driven from a fixed clock.
+//
+// A learning day starts at the rollover hour (SchedulingPrefs.dayRolloverHour)
+// rather than at midnight; with a 4:00 rollover a review at 1:00 still counts
+// for the day before. Learning days are named after the calendar date they start on.
+
+export type Clock = () => number;
+
+const wallClock: Clock = () => Date.now();
+let clock: Clock = wallClock;
+
+/** Current time in ms from the active clock. */
+export function getNow(): number {
+  return clock();
+}
+
+/** Replace the time source (tests, debugging); null restores the wall clock. */
+export function setClock(next: Clock | null): void {
+  clock = next ?? wallClock;
+}
+
+export function getRolloverHour(): number {
+  return getSchedulingPrefs().dayRolloverHour;
+}
+
+/** Start (ms) of the learning day containing `ms`. */
+export function startOfLearningDay(ms = getNow(), hour = getRolloverHour()): number {
+  const d = new Date(ms);
+  const start = new Date(d.getFullYear(), d.getMonth(), d.getDate(), hour);
+  if (start.getTime() > ms) start.setDate(start.getDate() - 1);
+  return start.getTime();
+}
+
+/** Start (ms) of the learning day after the one containing `ms`. */
+export function startOfNextLearningDay(ms = getNow(), hour = getRolloverHour()): number {
+  const d = new Date(startOfLearningDay(ms, hour));
+  d.setDate(d.getDate() + 1);
+  return d.getTime();
+}
+
+/** YYYY-MM-DD of the learning day containing `ms`. */
+export function learningDayKey(ms = getNow(), hour = getRolloverHour()): string {
+  const d = new Date(startOfLearningDay(ms, hour));
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+/** Weekday (0 = Sunday) of the learning day containing `ms`. */
+export function learningWeekday(ms = getNow(), hour = getRolloverHour()): number {
+  return new Date(startOfLearningDay(ms, hour)).getDay();
+}
+
+/** Days since the epoch of the learning day containing `ms` (for per-day counts). */
+export function learningDayNumber(ms: number, hour = getRolloverHour()): number {
+  const d = new Date(startOfLearningDay(ms, hour));
+  return Math.round(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()) / 86_400_000);
+}
@@ -0,0 +1,30 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { findCustomStudyCards } from './customStudy';
+import { schedule } from './scheduler';
+import { setSchedulingPrefs } from './schedulingPrefs';
+import { setClock } from './clock';
+import { at, makeCard, pinClock, resetCollection } from '../test/fixtures';
+
+const DAY = 86_400_000;
+const NOW = at(2025, 1, 8, 10);
+
+beforeEach(() => {
+  resetCollection([makeCard('learned', 'new'), makeCard('unlearned', 'new')]);
+  setSchedulingPrefs({ fuzzPercent: 0 });
+});
+
+afterEach(() => setClock(null));
+
+describe('forgotten filter', () => {
+  it('counts Again on a graduated card, not on a card still being learned', () => {
+    pinClock(NOW - 5 * DAY);
+    schedule('learned', 'good');     // graduates
+    schedule('unlearned', 'again');  // first sighting
+    pinClock(NOW - DAY);
+    schedule('learned', 'again');    // lapse
+    schedule('unlearned', 'again');  // still learning
+    pinClock(NOW);
+    const ids = findCustomStudyCards({ kind: 'forgotten', deckId: 'openings', days: 7, limit: 50 }).map(c => c.id);
+    expect(ids).toEqual(['learned']);
+  });
+});
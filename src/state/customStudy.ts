@@ -0,0 +1,148 @@
+import { Card } from '../data/types';
+import { allCards, getCardDue, getWrongAnswers } from '../data/cardStore';
+import { getDescendantDeckIds } from '../decks';
+import { parseSearch, cardMatchesSearch } from './cardSearch';
+import { getBuriedCardIds } from './bury';
+import { getNow } from './clock';
+import { forgottenAt, getReviewLog, Grade, StudyState } from './scheduler';
+
+export type CustomStudyKind = 'search' | 'forgotten' | 'mistakes' | 'ahead' | 'cards';
+
+export type CustomStudyFilter = {
+  kind: CustomStudyKind;
+  deckId: string;      // deck scope (incl. descendants)
+  query?: string;      // 'search': Collection search syntax
+  days?: number;       // 'forgotten': lapses in the last N days; 'ahead': due within N days
+  cardIds?: string[];  // 'cards': an explicit list (e.g. failed cards from a review session)
+  limit: number;
+};
+
+/** A temporary review session; lives for the browser session only. */
+export type CustomStudySession = {
+  filter: CustomStudyFilter;
+  ids: string[];       // remaining queue, front first
+  total: number;
+  startedAt: number;
+};
+
+const KEY = 'chessflashcards.customStudy.v1'; // session-scoped
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const CUSTOM_STUDY_DEFAULTS: CustomStudyFilter = { kind: 'search', deckId: 'openings', query: '', days: 7, limit: 50 };
+
+function load(): CustomStudySession | null {
+  try {
+    const raw = sessionStorage.getItem(KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    return parsed && Array.isArray(parsed.ids) ? parsed as CustomStudySession : null;
+  } catch {
+    return null;
+  }
+}
+
+function save(s: CustomStudySession | null) {
+  try {
+    if (s) sessionStorage.setItem(KEY, JSON.stringify(s));
+    else sessionStorage.removeItem(KEY);
+  } catch {}
+}
+
+function dueTime(cardId: string): number {
+  const d = getCardDue(cardId);
+  if (!d || d === 'new') return Number.POSITIVE_INFINITY;
+  const t = Date.parse(d);
+  return Number.isFinite(t) ? t : Number.POSITIVE_INFINITY;
+}
+
+/**
+ * Card id -> time of the most recent lapse since the cutoff: an 'again' on a
+ * graduated card. Failing a card still being learned isn't forgetting it.
+ */
+function lapsesSince(since: number): Map<string, number> {
+  const forgotten = forgottenAt();
+  const stateOf = new Map<string, StudyState>(); // after the card's latest review
+  const out = new Map<string, number>();
+  for (const r of getReviewLog()) {
+    if (r.ts < (forgotten.get(r.id) ?? 0)) continue; // reset to new since
+    if (r.grade === 'again' && r.ts >= since && stateOf.get(r.id) === 'graduated') {
+      out.set(r.id, Math.max(out.get(r.id) ?? 0, r.ts));
+    }
+    stateOf.set(r.id, r.state ?? (r.grade === 'again' ? 'relearning' : 'graduated'));
+  }
+  return out;
+}
+
+/** Cards matching a custom study filter, in study order and capped at the limit. */
+export function findCustomStudyCards(filter: CustomStudyFilter, now = getNow()): Card[] {
+  const deckIds = new Set<string>([filter.deckId, ...getDescendantDeckIds(filter.deckId)]);
+  const pool = allCards().filter(c => deckIds.has(c.deck) && !(c.tags || []).includes('Archived'));
+  const days = Math.max(0, filter.days ?? 0);
+  let out: Card[];
+  switch (filter.kind) {
+    case 'search': {
+      const crits = parseSearch(filter.query || '');
+      const buried = getBuriedCardIds();
+      out = pool.filter(c => cardMatchesSearch(c, crits, buried)).sort((a, b) => dueTime(a.id) - dueTime(b.id));
+      break;
+    }
+    case 'forgotten': {
+      const lapses = lapsesSince(now - days * DAY_MS);
+      // Most recent lapses first
+      out = pool.filter(c => lapses.has(c.id)).sort((a, b) => lapses.get(b.id)! - lapses.get(a.id)!);
+      break;
+    }
+    case 'mistakes': {
+      const total = (c: Card) => getWrongAnswers(c).reduce((a, w) => a + w.count, 0);
+      out = pool.filter(c => total(c) > 0).sort((a, b) => total(b) - total(a));
+      break;
+    }
+    case 'ahead': {
+      // Not yet due, but due within the window; soonest first
+      const until = now + days * DAY_MS;
+      out = pool.filter(c => { const t = dueTime(c.id); return t > now && t <= until; })
+        .sort((a, b) => dueTime(a.id) - dueTime(b.id));
+      break;
+    }
+    case 'cards': {
+      const byId = new Map(pool.map(c => [c.id, c]));
+      out = (filter.cardIds || []).map(id => byId.get(id)).filter((c): c is Card => !!c);
+      break;
+    }
+    default:
+      out = [];
+  }
+  return out.slice(0, Math.max(0, filter.limit));
+}
+
+export function startCustomStudy(filter: CustomStudyFilter): CustomStudySession {
+  const ids = findCustomStudyCards(filter).map(c => c.id);
+  const s: CustomStudySession = { filter, ids, total: ids.length, startedAt: getNow() };
+  save(s);
+  return s;
+}
+
+export function getCustomStudy(): CustomStudySession | null {
+  return load();
+}
+
+export function endCustomStudy(): void {
+  save(null);
+}
+
+/** Take a graded card off the queue; 'again' sends it to the back to be seen once more. */
+export function advanceCustomStudy(cardId: string, grade: Grade): void {
+  const s = load();
+  if (!s) return;
+  s.ids = s.ids.filter(id => id !== cardId);
+  if (grade === 'again') s.ids.push(cardId);
+  save(s);
+}
+
+/** Put an undone card back at the front of the queue. */
+export function restoreCustomStudyCard(cardId: string): void {
+  const s = load();
+  if (!s) return;
+  s.ids = [cardId, ...s.ids.filter(id => id !== cardId)];
+  save(s);
+}
@@ -0,0 +1,28 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { decks, getDeckSide, replaceDecks } from '../decks';
+import { createDeck, deckRemovalBlocker, moveDeck } from './deckEdits';
+
+const initial = decks.map(d => ({ ...d }));
+afterEach(() => replaceDecks(initial.map(d => ({ ...d }))));
+
+describe('getDeckSide', () => {
+  it('follows the side deck a deck sits under, not its id', () => {
+    expect(getDeckSide('white-scotch')).toBe('white');
+    expect(getDeckSide('black-italian')).toBe('black');
+    moveDeck('white-scotch', 'openings-black');
+    expect(getDeckSide('white-scotch')).toBe('black');
+    const sub = createDeck('Gambit', 'white-scotch');
+    expect(getDeckSide(sub.id)).toBe('black');
+  });
+
+  it('falls back to the side to move outside the White and Black decks', () => {
+    const loose = createDeck('Loose', 'openings');
+    expect(getDeckSide(loose.id, 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1')).toBe('black');
+    expect(getDeckSide(loose.id)).toBe('white');
+  });
+
+  it('keeps the side decks in place', () => {
+    expect(deckRemovalBlocker('openings-black')).toMatch(/can't be removed/);
+    expect(() => moveDeck('openings-white', 'openings-black')).toThrow();
+  });
+});
@@ -0,0 +1,137 @@
+import { Deck, decks, getDeckById, getDescendantDeckIds, saveDecks, ROOT_DECK_ID, NEW_CARD_DECK_IDS, SIDE_DECK_IDS } from '../decks';
+import { allCards, moveCardsToDeck } from '../data/cardStore';
+import { removeDeckLimits } from './deckLimits';
+import { getAssignedDeckPreset, setDeckPreset } from './schedulerConfig';
+
+// Editing the deck tree. Deck ids are fixed at creation, so renaming or moving
+// a deck keeps its cards, limits and preset; merging and deleting re-home the
+// cards and drop the removed decks' settings.
+
+/** What happens to the cards of a deleted deck (and its sub-decks). */
+export type DeletedDeckCards =
+  | { mode: 'move'; targetId: string }
+  | { mode: 'archive' }; // tagged Archived, kept in the parent deck
+
+function requireDeck(id: string): Deck {
+  const d = getDeckById(id);
+  if (!d) throw new Error(`Deck not found: ${id}`);
+  return d;
+}
+
+function cleanName(name: string): string {
+  const trimmed = (name || '').trim();
+  if (!trimmed) throw new Error('Deck name is required');
+  return trimmed;
+}
+
+function slug(name: string): string {
+  return name.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'deck';
+}
+
+export function isSideDeck(id: string): boolean {
+  return id === SIDE_DECK_IDS.white || id === SIDE_DECK_IDS.black;
+}
+
+function subtreeIds(id: string): Set<string> {
+  return new Set([id, ...getDescendantDeckIds(id)]);
+}
+
+/** Decks a deck (with its sub-decks) can be moved under or merged into. */
+export function getDeckTargets(id: string): Deck[] {
+  const own = subtreeIds(id);
+  return decks.filter(d => !own.has(d.id));
+}
+
+/** Why a deck can't be deleted or merged away, or null if it can. */
+export function deckRemovalBlocker(id: string): string | null {
+  if (id === ROOT_DECK_ID) return 'The top deck can\'t be removed.';
+  if (isSideDeck(id)) return 'The White and Black decks set the board side for their cards, so they can\'t be removed.';
+  const own = subtreeIds(id);
+  const protectedId = NEW_CARD_DECK_IDS.find(p => own.has(p));
+  if (protectedId) {
+    const name = getDeckById(protectedId)?.name ?? protectedId;
+    return protectedId === id
+      ? `New cards are filed into "${name}", so it can't be removed.`
+      : `New cards are filed into its sub-deck "${name}"; move that deck out first.`;
+  }
+  return null;
+}
+
+export function createDeck(name: string, parentId: string): Deck {
+  const trimmed = cleanName(name);
+  requireDeck(parentId);
+  // Readable ids in the style of the built-in ones: white-scotch, white-scotch-gambit, ...
+  // (only a label: the side comes from the tree, see getDeckSide)
+  const prefix = parentId === ROOT_DECK_ID ? '' : parentId.replace(/^openings-/, '') + '-';
+  const base = prefix + slug(trimmed);
+  let id = base;
+  for (let n = 2; getDeckById(id); n++) id = `${base}-${n}`;
+  const deck: Deck = { id, name: trimmed, parentId };
+  decks.push(deck);
+  saveDecks();
+  return deck;
+}
+
+export function renameDeck(id: string, name: string): void {
+  requireDeck(id).name = cleanName(name);
+  saveDecks();
+}
+
+export function moveDeck(id: string, parentId: string): void {
+  const d = requireDeck(id);
+  if (id === ROOT_DECK_ID) throw new Error('The top deck can\'t be moved.');
+  if (isSideDeck(id)) throw new Error('The White and Black decks can\'t be moved.');
+  requireDeck(parentId);
+  if (subtreeIds(id).has(parentId)) throw new Error('A deck can\'t be moved into itself or one of its sub-decks.');
+  d.parentId = parentId;
+  saveDecks();
+}
+
+function removeDecks(ids: Set<string>): void {
+  for (let i = decks.length - 1; i >= 0; i--) if (ids.has(decks[i].id)) decks.splice(i, 1);
+  removeDeckLimits([...ids]);
+  for (const id of ids) if (getAssignedDeckPreset(id)) setDeckPreset(id, null);
+  saveDecks();
+}
+
+/**
+ * Merge `sourceId` into `targetId`: its cards move to the target, its
+ * sub-decks are re-parented under the target, and the source deck is removed.
+ * Returns the number of cards moved.
+ */
+export function mergeDeck(sourceId: string, targetId: string): number {
+  requireDeck(sourceId);
+  requireDeck(targetId);
+  if (sourceId === ROOT_DECK_ID || sourceId === targetId) throw new Error('Pick a different deck to merge into.');
+  if (subtreeIds(sourceId).has(targetId)) throw new Error('A deck can\'t be merged into one of its sub-decks.');
+  if (NEW_CARD_DECK_IDS.includes(sourceId) || isSideDeck(sourceId)) throw new Error(deckRemovalBlocker(sourceId)!);
+  const ids = allCards().filter(c => c.deck === sourceId).map(c => c.id);
+  const moved = moveCardsToDeck(ids, targetId);
+  for (const d of decks) if (d.parentId === sourceId) d.parentId = targetId;
+  removeDecks(new Set([sourceId]));
+  return moved;
+}
+
+/**
+ * Delete a deck and its sub-decks. Their cards move to another deck or are
+ * archived into the deleted deck's parent. Returns the number of cards affected.
+ */
+export function deleteDeck(id: string, cards: DeletedDeckCards): number {
+  const d = requireDeck(id);
+  const blocker = deckRemovalBlocker(id);
+  if (blocker) throw new Error(blocker);
+  const own = subtreeIds(id);
+  const targetId = cards.mode === 'move' ? cards.targetId : (d.parentId || ROOT_DECK_ID);
+  requireDeck(targetId);
+  if (own.has(targetId)) throw new Error('Cards can\'t be moved into a deck that is being deleted.');
+  const ids = allCards().filter(c => own.has(c.deck)).map(c => c.id);
+  const affected = moveCardsToDeck(ids, targetId, { archive: cards.mode === 'archive' });
+  removeDecks(own);
+  return affected;
+}
+
+/** Cards directly in a deck and in its sub-decks. */
+export function countCardsInDeckTree(id: string): number {
+  const own = subtreeIds(id);
+  return allCards().filter(c => own.has(c.deck)).length;
+}
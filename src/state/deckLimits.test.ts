@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { classifyCard, getAlternativesPolicy, getDeckLimits, getReviewedTodayCounts, planQueueForDeck, setDeckLimits } from './deckLimits';
+import { setMeta, type ReviewLogEntry, type SchedulerMeta } from './scheduler';
+import { DEFAULT_SCHEDULING_PREFS, setSchedulingPrefs } from './schedulingPrefs';
+import { setClock } from './clock';
+import { appendToList } from '../data/collectionDb';
+import { getCard } from '../data/cardStore';
+import { setManualReplyWeight } from './replyWeights';
+import { at, makeCard, pinClock, resetCollection } from '../test/fixtures';
+
+const DAY = 86_400_000;
+const NOW = at(2025, 1, 8, 10); // a Wednesday
+const iso = (ms: number) => new Date(ms).toISOString();
+
+function graduated(intervalDays: number): SchedulerMeta {
+  return {
+    state: 'graduated', ease: 2.35, stability: intervalDays, intervalMin: intervalDays * 24 * 60, reps: 3, lapses: 0,
+    reviewedAtISO: iso(NOW - intervalDays * DAY), dueISO: iso(NOW - DAY),
+  };
+}
+
+function logReview(id: string, ts: number, extra: Partial<ReviewLogEntry> = {}) {
+  appendToList<ReviewLogEntry>('reviewLog', { id, ts, grade: 'good', newInt: 24 * 60, newDueISO: iso(ts + DAY), ...extra });
+}
+
+beforeEach(() => pinClock(NOW));
+afterEach(() => setClock(null));
+
+describe('classifyCard', () => {
+  beforeEach(() => {
+    resetCollection([makeCard('n1', 'new'), makeCard('r1', iso(NOW - DAY))]);
+  });
+
+  it('classifies by due state and interval', () => {
+    const limits = getDeckLimits('white-other');
+    expect(classifyCard(getCard('n1')!, limits)).toBe('new');
+    setMeta('r1', graduated(20));
+    expect(classifyCard(getCard('r1')!, limits)).toBe('young');
+    setMeta('r1', graduated(21));
+    expect(classifyCard(getCard('r1')!, limits)).toBe('mature');
+  });
+
+  it('marks a card a leech once it reaches the incorrect threshold, until it is forgotten', () => {
+    const limits = getDeckLimits('white-other');
+    setMeta('r1', graduated(30));
+    for (let i = 0; i < 9; i++) logReview('r1', NOW - (20 - i) * DAY, { grade: 'again' });
+    expect(classifyCard(getCard('r1')!, limits)).toBe('mature');
+    logReview('r1', NOW - 5 * DAY, { grade: 'again' });
+    expect(classifyCard(getCard('r1')!, limits)).toBe('leech');
+    appendToList('reviewLog', { id: 'r1', ts: NOW - 4 * DAY, manual: 'forget' });
+    expect(classifyCard(getCard('r1')!, limits)).toBe('mature');
+  });
+});
+
+describe('getReviewedTodayCounts', () => {
+  beforeEach(() => {
+    resetCollection(['a', 'b', 'c', 'd', 'e'].map(id => makeCard(id, iso(NOW + DAY))));
+    setSchedulingPrefs({ dayRolloverHour: 4 });
+  });
+
+  it('counts reviews since the rollover hour, skipping custom study and manual changes', () => {
+    logReview('a', at(2025, 1, 8, 3, 59)); // yesterday's learning day
+    logReview('b', at(2025, 1, 8, 4, 0));
+    logReview('c', at(2025, 1, 8, 9));
+    logReview('d', at(2025, 1, 8, 9), { filtered: true });
+    appendToList('reviewLog', { id: 'e', ts: at(2025, 1, 8, 9), manual: 'set-due' });
+    expect(getReviewedTodayCounts('white-other').total).toBe(2);
+  });
+
+  it('keeps counting yesterday\'s reviews before the rollover', () => {
+    pinClock(at(2025, 1, 8, 3));
+    logReview('a', at(2025, 1, 7, 3, 59));
+    logReview('b', at(2025, 1, 7, 4));
+    logReview('c', at(2025, 1, 7, 23));
+    logReview('d', at(2025, 1, 8, 2));
+    expect(getReviewedTodayCounts('white-other').total).toBe(3);
+  });
+});
+
+describe('planQueueForDeck', () => {
+  beforeEach(() => {
+    resetCollection([
+      makeCard('n2', 'new'),
+      makeCard('n1', 'new'),
+      makeCard('n3', 'new'),
+      makeCard('r1', iso(NOW - DAY)),
+      makeCard('r2', iso(NOW - 3 * DAY)),
+      makeCard('r3', iso(NOW - 2 * DAY)),
+      makeCard('later', iso(NOW + DAY)),
+    ]);
+    for (const id of ['r1', 'r2', 'r3']) setMeta(id, graduated(5));
+    setSchedulingPrefs({ ...DEFAULT_SCHEDULING_PREFS, fuzzPercent: 0 });
+    setDeckLimits('white-other', { new: { enabled: true, limit: 2 } });
+  });
+
+  it('puts new cards first, up to the new limit, then reviews by due date', () => {
+    const plan = planQueueForDeck('white-other');
+    expect(plan.ids).toEqual(['n1', 'n2', 'r2', 'r3', 'r1']);
+    expect(plan.byType).toEqual({ new: 2, mature: 0, leech: 0, young: 3 });
+    expect(plan.remainingByType.new).toBe(0);
+  });
+
+  it('puts reviews first when asked', () => {
+    setSchedulingPrefs({ newVsReviewOrder: 'review-first' });
+    expect(planQueueForDeck('white-other').ids).toEqual(['r2', 'r3', 'r1', 'n1', 'n2']);
+  });
+
+  it('counts today\'s reviews against the limits', () => {
+    resetCollection([
+      makeCard('n1', 'new'), makeCard('n2', 'new'), makeCard('n3', 'new'),
+      makeCard('r1', iso(NOW - DAY)), makeCard('r2', iso(NOW - 3 * DAY)), makeCard('r3', iso(NOW - 2 * DAY)),
+      makeCard('seen', 'new'),
+    ]);
+    setDeckLimits('white-other', { new: { enabled: true, limit: 2 }, cumulativeLimit: 4 });
+    logReview('seen', at(2025, 1, 8, 8)); // still new: uses up one new card
+    const plan = planQueueForDeck('white-other');
+    expect(plan.ids).toEqual(['n1', 'r2', 'r3']);
+    expect(plan.total).toBe(3);
+  });
+
+  it('puts the likeliest replies first', () => {
+    resetCollection([
+      makeCard('p', iso(NOW + DAY), { fields: { children: ['a', 'b'] } }),
+      makeCard('a', 'new', { fields: { parent: 'p', children: ['a1'], depth: 2 } }),
+      makeCard('b', 'new', { fields: { parent: 'p', depth: 2 } }),
+      makeCard('a1', 'new', { fields: { parent: 'a', depth: 3 } }),
+    ]);
+    setSchedulingPrefs({ ...DEFAULT_SCHEDULING_PREFS, fuzzPercent: 0, newPick: 'likely-reply-first', lineageGateNew: false });
+    setManualReplyWeight('a', 1);
+    setManualReplyWeight('b', 3);
+    expect(planQueueForDeck('white-other').ids).toEqual(['b', 'a', 'a1']);
+  });
+
+  it('scales the limits by the weekday load', () => {
+    const weekdayLoad = [100, 100, 100, 50, 100, 100, 100]; // Wednesday at half load
+    setSchedulingPrefs({ weekdayLoad });
+    setDeckLimits('white-other', { new: { enabled: true, limit: 3 } });
+    expect(planQueueForDeck('white-other').byType.new).toBe(1);
+    pinClock(at(2025, 1, 9, 10));
+    expect(planQueueForDeck('white-other').byType.new).toBe(3);
+  });
+});
+
+describe('getAlternativesPolicy', () => {
+  beforeEach(() => resetCollection());
+
+  it('inherits the nearest ancestor\'s policy', () => {
+    expect(getAlternativesPolicy('white-other')).toEqual(getDeckLimits().alternatives);
+    setDeckLimits('openings-white', { alternatives: { enabled: true, maxCpLoss: 50, credit: 'retry' } });
+    expect(getAlternativesPolicy('white-other')).toEqual({ enabled: true, maxCpLoss: 50, credit: 'retry' });
+    expect(getAlternativesPolicy('black-other').credit).toBe('hard');
+    setDeckLimits('white-other', { alternatives: { enabled: false, maxCpLoss: 30, credit: 'hard' } });
+    expect(getAlternativesPolicy('white-other').enabled).toBe(false);
+  });
+});
@@ -1,8 +1,12 @@
 import { Card } from '../data/types';
 import { allCards, getDueCardsForDeck, getCardDue } from '../data/cardStore';
-import { getChildrenOf } from '../decks';
-import { getMeta } from './scheduler';
+import { getChildrenOf, getDeckById } from '../decks';
+import { getMeta, getNewCardPositions } from './scheduler';
 import { getSchedulingPrefs } from './schedulingPrefs';
+import { lineProbabilities } from './replyWeights';
+import { getBuriedCardIds } from './bury';
+import { getNow, learningWeekday, startOfLearningDay } from './clock';
+import { getMapStore, getListStore, putEntries, putEntry } from '../data/collectionDb';
 
 export type DeckLimits = {
   new: { enabled: boolean; limit: number };
@@ -11,8 +15,13 @@ export type DeckLimits = {
   cumulativeLimit: number;
   matureThresholdDays: number; // interval >= this => mature
   leechIncorrectThreshold: number; // incorrect reviews >= this => leech
+  /** play-the-move: engine alternatives within maxCpLoss of the card eval count as correct-but-not-preferred */
+  alternatives: { enabled: boolean; maxCpLoss: number; credit: AlternativeCredit };
 };
 
+/** 'hard': grade the card Hard; 'retry': prompt to play the repertoire move instead */
+export type AlternativeCredit = 'hard' | 'retry';
+
 export type DeckLimitsOverrides = Partial<DeckLimits>;
 
 const DEFAULTS: DeckLimits = {
@@ -22,26 +31,20 @@ const DEFAULTS: DeckLimits = {
   cumulativeLimit: 1000,
   matureThresholdDays: 21,
   leechIncorrectThreshold: 10,
+  alternatives: { enabled: true, maxCpLoss: 30, credit: 'hard' },
 };
 
-const LS_KEY = 'chessflashcards.deckLimits.v1';
-const LOG_KEY = 'chessflashcards.reviewLog.v1';
-
 type Store = Record<string, DeckLimitsOverrides>;
 
-function loadLocalStore(): Store {
-  try {
-    const raw = localStorage.getItem(LS_KEY);
-    if (!raw) return {};
-    const parsed = JSON.parse(raw);
-    return parsed && typeof parsed === 'object' ? (parsed as Store) : {};
-  } catch {
-    return {};
-  }
+// Overrides live in the collection database ('deckLimits' store) only. The
+// desktop app used to keep them in deckSettings.json; that file is imported once.
+const FILE_IMPORTED_KEY = 'deckLimitsFileImported'; // 'settings' store
+function loadLocalStore(): Readonly<Store> {
+  return getMapStore<DeckLimitsOverrides>('deckLimits');
 }
 
-function saveLocalStore(s: Store) {
-  try { localStorage.setItem(LS_KEY, JSON.stringify(s)); } catch {}
+function saveLocalStore(changes: Record<string, DeckLimitsOverrides | undefined>) {
+  putEntries('deckLimits', changes);
 }
 
 export function getDeckLimits(deckId?: string | null): DeckLimits {
@@ -56,49 +59,63 @@ export function getDeckLimits(deckId?: string | null): DeckLimits {
     cumulativeLimit: (ov.cumulativeLimit ?? DEFAULTS.cumulativeLimit),
     matureThresholdDays: (ov.matureThresholdDays ?? DEFAULTS.matureThresholdDays),
     leechIncorrectThreshold: (ov.leechIncorrectThreshold ?? DEFAULTS.leechIncorrectThreshold),
+    alternatives: { ...(DEFAULTS.alternatives), ...(ov.alternatives || {}) },
   };
 }
 
-export function setDeckLimits(deckId: string, patch: DeckLimitsOverrides | null): void {
+/**
+ * Alternatives policy for cards in a deck: the deck's own setting, else the
+ * nearest ancestor's, else the default (sub-decks inherit it like presets).
+ */
+export function getAlternativesPolicy(deckId?: string | null): DeckLimits['alternatives'] {
   const s = loadLocalStore();
-  if (!patch) {
-    delete s[deckId];
-  } else {
-    const cur = s[deckId] || {};
-    s[deckId] = { ...cur, ...patch };
+  let cur = getDeckById(deckId);
+  while (cur) {
+    const ov = s[cur.id]?.alternatives;
+    if (ov) return { ...DEFAULTS.alternatives, ...ov };
+    cur = getDeckById(cur.parentId);
   }
-  saveLocalStore(s);
-  // Best-effort persist to deckSettings.json via Electron bridge
-  try { (window as any).decks?.setLimits?.(s).catch(() => {}); } catch {}
+  return DEFAULTS.alternatives;
+}
+
+export function setDeckLimits(deckId: string, patch: DeckLimitsOverrides | null): void {
+  const cur = loadLocalStore()[deckId] || {};
+  saveLocalStore({ [deckId]: patch ? { ...cur, ...patch } : undefined });
 }
 
 export function copyDeckLimits(fromDeckId: string, toDeckId: string): void {
-  const s = loadLocalStore();
-  const ov = s[fromDeckId];
+  const ov = loadLocalStore()[fromDeckId];
   if (!ov) return; // nothing to copy
-  s[toDeckId] = { ...ov };
-  saveLocalStore(s);
-  try { (window as any).decks?.setLimits?.(s).catch(() => {}); } catch {}
+  saveLocalStore({ [toDeckId]: { ...ov } });
 }
 
-export function loadDeckLimitsFromFileIfAvailable(): void {
+/** Drop the overrides of deleted decks. */
+export function removeDeckLimits(deckIds: string[]): void {
+  const s = loadLocalStore();
+  const changes: Record<string, undefined> = {};
+  for (const id of deckIds) if (s[id]) changes[id] = undefined;
+  if (!Object.keys(changes).length) return;
+  saveLocalStore(changes);
+}
+
+/** Import deckSettings.json once (Electron only); decks the collection already has keep their overrides. */
+export function importDeckLimitsFileIfAvailable(): Promise<void> {
   try {
-    const api = (window as any).decks;
-    if (!api?.getLimits) return;
-    api.getLimits().then((fileStore: Store) => {
+    const api = window.decks;
+    if (!api?.getLimits || getMapStore('settings')[FILE_IMPORTED_KEY]) return Promise.resolve();
+    return api.getLimits().then((fileStore: Store) => {
       if (!fileStore || typeof fileStore !== 'object') return;
-      // Merge fileStore atop local
       const cur = loadLocalStore();
-      const merged: Store = { ...cur, ...fileStore };
-      saveLocalStore(merged);
+      const changes: Store = {};
+      for (const [id, ov] of Object.entries(fileStore)) {
+        if (!cur[id] && ov && typeof ov === 'object') changes[id] = ov;
+      }
+      saveLocalStore(changes);
+      putEntry('settings', FILE_IMPORTED_KEY, true);
     }).catch(() => {});
-  } catch {}
-}
-
-function startOfToday(): number {
-  const d = new Date();
-  d.setHours(0,0,0,0);
-  return d.getTime();
+  } catch {
+    return Promise.resolve();
+  }
 }
 
 function getAncestorsAndSelfIds(deckId: string): Set<string> {
@@ -121,13 +138,12 @@ export type CardType = 'new' | 'mature' | 'leech' | 'young';
 
 function getIncorrectCount(cardId: string): number {
   try {
-    const raw = localStorage.getItem(LOG_KEY);
-    if (!raw) return 0;
-    const arr = JSON.parse(raw);
-    if (!Array.isArray(arr)) return 0;
+    const arr = getListStore<any>('reviewLog');
     let n = 0;
     for (const r of arr) {
-      if (r && r.id === cardId && r.grade === 'again') n++;
+      if (!r || r.id !== cardId) continue;
+      if (r.manual === 'forget') n = 0; // a reset card starts its leech count over
+      else if (r.grade === 'again') n++;
     }
     return n;
   } catch { return 0; }
@@ -150,17 +166,15 @@ export type ReviewedTodayCounts = { new: number; mature: number; leech: number;
 export function getReviewedTodayCounts(deckId: string, limits?: DeckLimits): ReviewedTodayCounts {
   const ids = getAncestorsAndSelfIds(deckId);
   let counts: ReviewedTodayCounts = { new: 0, mature: 0, leech: 0, young: 0, total: 0 };
-  const since = startOfToday();
+  const since = startOfLearningDay();
   try {
-    const raw = localStorage.getItem(LOG_KEY);
-    if (!raw) return counts;
-    const arr = JSON.parse(raw);
-    if (!Array.isArray(arr)) return counts;
+    const arr = getListStore<any>('reviewLog');
     // Build set of cardIds in this deck for faster lookup
     const inDeck = new Set(allCards().filter(c => ids.has(c.deck)).map(c => c.id));
     const lim = limits || getDeckLimits(deckId);
     for (const r of arr) {
       if (!r || typeof r.ts !== 'number' || r.ts < since) continue;
+      if (r.filtered || r.manual) continue; // custom study reviews and manual changes don't use up daily limits
       const cid = r.id;
       if (!inDeck.has(cid)) continue;
       // Classify using current lens; approximation is fine
@@ -184,30 +198,68 @@ export type QueuePlan = {
   total: number;
 };
 
+/** Limits scaled for a lighter day (weekday load below 100%). The cumulative cap scales too. */
+export function scaleDeckLimits(limits: DeckLimits, factor: number): DeckLimits {
+  if (factor >= 1) return limits;
+  const f = Math.max(0, factor);
+  return {
+    ...limits,
+    new: { ...limits.new, limit: Math.floor(limits.new.limit * f) },
+    mature: { ...limits.mature, limit: Math.floor(limits.mature.limit * f) },
+    leech: { ...limits.leech, limit: Math.floor(limits.leech.limit * f) },
+    cumulativeLimit: Math.floor(limits.cumulativeLimit * f),
+  };
+}
+
 export function planQueueForDeck(deckId: string): QueuePlan {
-  const due = getDueCardsForDeck(deckId);
-  const limits = getDeckLimits(deckId);
-  const already = getReviewedTodayCounts(deckId, limits);
+  // Easy days cap today's queue; days off only affect scheduling (studying anyway is fine)
+  const prefs = getSchedulingPrefs();
+  const weekday = prefs.weekdayLoad[learningWeekday(getNow(), prefs.dayRolloverHour)] ?? 100;
+  const limits = scaleDeckLimits(getDeckLimits(deckId), weekday / 100);
+  // Buried siblings/transpositions wait for tomorrow; they don't use up today's limits
+  const buried = getBuriedCardIds(prefs);
+  const due = getDueCardsForDeck(deckId).filter(c => !buried.has(c.id));
+  return planQueue({ due, limits, already: getReviewedTodayCounts(deckId, limits) });
+}
+
+/**
+ * Inputs to the queue planner. The card lookups default to the live stores;
+ * the workload forecast passes simulated ones.
+ */
+export type QueuePlanInput = {
+  due: Card[];
+  limits: DeckLimits;
+  already: ReviewedTodayCounts;
+  classify?: (c: Card) => CardType;
+  dueTime?: (cardId: string) => number;
+  parentIntervalMin?: (cardId: string) => number;
+  newPosition?: (cardId: string) => number | undefined;
+};
+
+/** Order due cards by the scheduling prefs and cut the list to the deck's daily limits. */
+export function planQueue(input: QueuePlanInput): QueuePlan {
+  const { due, limits, already } = input;
+  const classify = input.classify ?? ((c: Card) => classifyCard(c, limits));
   const outIds: string[] = [];
   const byType = { new: 0, mature: 0, leech: 0, young: 0 } as const;
   const included: { new: number; mature: number; leech: number; young: number; total: number } = { new: 0, mature: 0, leech: 0, young: 0, total: 0 };
   const prefs = getSchedulingPrefs();
 
   // Utility: classify and helpers
-  const dueTime = (cid: string): number => {
+  const dueTime = input.dueTime ?? ((cid: string): number => {
     const d = getCardDue(cid) as string | 'new' | undefined;
     if (!d || d === 'new') return Number.POSITIVE_INFINITY; // 'new' has no due time
     const t = Date.parse(d);
     return Number.isFinite(t) ? t : Number.POSITIVE_INFINITY;
-  };
-  const parentIntervalMin = (cid: string): number => {
-    const map = new Map(allCards().map(c => [c.id, c]));
-    const c = map.get(cid);
+  });
+  const cardMap = new Map(allCards().map(c => [c.id, c]));
+  const parentIntervalMin = input.parentIntervalMin ?? ((cid: string): number => {
+    const c = cardMap.get(cid);
     const p = c?.fields.parent;
     if (!p) return 0;
     const m = getMeta(p);
     return Math.max(0, m?.intervalMin ?? 0);
-  };
+  });
   const createdAtMs = (c: typeof due[number]): number => {
     try {
       const iso = (c?.fields?.creationCriteria?.createdAt) as string | undefined;
@@ -217,11 +269,21 @@ export function planQueueForDeck(deckId: string): QueuePlan {
   };
 
   // Partition due into new vs review
-  const dueNew = due.filter(c => classifyCard(c, limits) === 'new');
-  const dueReview = due.filter(c => classifyCard(c, limits) !== 'new');
+  const dueNew = due.filter(c => classify(c) === 'new');
+  const dueReview = due.filter(c => classify(c) !== 'new');
+
+  // Lineage gate: a new child waits until its parent is known well enough
+  // (cards whose parent isn't in the collection are never held back)
+  const gateMin = prefs.lineageGateDays * 24 * 60;
+  const gated = prefs.lineageGateNew
+    ? dueNew.filter(c => {
+        const p = c.fields?.parent;
+        return !p || !cardMap.has(p) || parentIntervalMin(c.id) >= gateMin;
+      })
+    : dueNew;
 
   // Sort new cards based on prefs
-  let newSorted = [...dueNew];
+  let newSorted = [...gated];
   if (prefs.newPick === 'random') {
     newSorted.sort(() => Math.random() - 0.5);
   } else if (prefs.newPick === 'newest-created-first') {
@@ -231,6 +293,19 @@ export function planQueueForDeck(deckId: string): QueuePlan {
       if (prefs.groupByDeck && a.deck !== b.deck) return a.deck.localeCompare(b.deck);
       return a.id.localeCompare(b.id);
     });
+  } else if (prefs.newPick === 'likely-reply-first') {
+    // Lines the opponents actually play come first (see replyWeights)
+    const probOf = lineProbabilities(new Map(allCards().map(c => [c.id, c])));
+    const prob = new Map(dueNew.map(c => [c.id, probOf(c)]));
+    newSorted.sort((a, b) => {
+      const d = (prob.get(b.id) ?? 0) - (prob.get(a.id) ?? 0);
+      if (d !== 0) return d;
+      if (prefs.groupByDeck && a.deck !== b.deck) return a.deck.localeCompare(b.deck);
+      const ad = a.fields.depth ?? 0;
+      const bd = b.fields.depth ?? 0;
+      if (ad !== bd) return ad - bd;
+      return a.id.localeCompare(b.id);
+    });
   } else /* parent-longest-interval */ {
     newSorted.sort((a, b) => {
       const ai = parentIntervalMin(a.id);
@@ -245,6 +320,18 @@ export function planQueueForDeck(deckId: string): QueuePlan {
     });
   }
 
+  // Cards repositioned by hand go first, in their set order (sort is stable)
+  const positions = getNewCardPositions();
+  const newPosition = input.newPosition ?? ((cid: string): number | undefined => positions[cid]);
+  const posOf = (c: Card) => {
+    const p = newPosition(c.id);
+    return typeof p === 'number' && Number.isFinite(p) ? p : Number.POSITIVE_INFINITY;
+  };
+  newSorted.sort((a, b) => {
+    const pa = posOf(a), pb = posOf(b);
+    return pa === pb ? 0 : pa < pb ? -1 : 1;
+  });
+
   // Sort review cards based on prefs
   let reviewSorted: typeof dueReview = [];
   if (prefs.reviewOrder === 'due-date') {
@@ -309,7 +396,7 @@ export function planQueueForDeck(deckId: string): QueuePlan {
 
   // Build final queue honoring ordering prefs and limits
   const takeCard = (c: typeof due[number]) => {
-    const t = classifyCard(c, limits);
+    const t = classify(c);
     let typeAllowed = true;
     if (t === 'new') typeAllowed = typeLimitLeft('new') > 0;
     else if (t === 'leech') typeAllowed = typeLimitLeft('leech') > 0;
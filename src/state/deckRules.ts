@@ -0,0 +1,93 @@
+import { Card } from '../data/types';
+import { allCards, moveCardsToDeck } from '../data/cardStore';
+import { getDeckById } from '../decks';
+import { getCardOpening } from './openings';
+import { matchRule, normalizeSans, DeckRule, DeckRuleInput } from '../../scripts/deck-rules.js';
+import jsonRaw from '../data/deckRules.json?raw';
+
+// Deck assignment rules. The matching itself lives in scripts/deck-rules.js so
+// make-card.js files new cards with exactly the same logic; the rules are kept
+// in src/data/deckRules.json next to decks.json.
+
+export type { DeckRule, DeckRuleKind } from '../../scripts/deck-rules.js';
+export { RULE_KINDS, validateRule } from '../../scripts/deck-rules.js';
+
+let rules: DeckRule[] = [];
+try {
+  const parsed = JSON.parse((jsonRaw ?? '').trim() || '[]');
+  rules = Array.isArray(parsed) ? parsed : [];
+} catch (e) {
+  console.warn('[deckRules] Failed to parse deckRules.json; no rules.', e);
+}
+
+export function getDeckRules(): DeckRule[] {
+  return rules;
+}
+
+/** Replace the rule list (in priority order) and persist it via the Electron bridge. */
+export function setDeckRules(next: DeckRule[]): DeckRule[] {
+  rules = next.map(r => ({ ...r }));
+  try { window.decks?.setRules?.(rules).catch(() => {}); } catch {}
+  return rules;
+}
+
+export function loadDeckRulesFromFileIfAvailable(): Promise<void> {
+  try {
+    const api = window.decks;
+    if (!api?.getRules) return Promise.resolve();
+    return api.getRules().then(list => {
+      if (Array.isArray(list)) rules = list;
+    }).catch(() => {});
+  } catch {
+    return Promise.resolve();
+  }
+}
+
+export function newRuleId(): string {
+  return `r_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function ruleInput(c: Card): DeckRuleInput {
+  return {
+    sans: normalizeSans(c.fields.moveSequence || ''),
+    fen: c.fields.fen || '',
+    eco: getCardOpening(c)?.eco,
+    tags: c.tags || [],
+  };
+}
+
+const deckExists = (id: string) => !!getDeckById(id);
+
+/** Index of the rule that files `card`, or -1 when none matches. */
+export function matchCardRule(card: Card, list: DeckRule[] = rules): number {
+  return matchRule(list, ruleInput(card), deckExists);
+}
+
+export type RefileMove = { cardId: string; from: string; to: string; ruleIndex: number };
+
+/**
+ * Cards a rule would file into a different deck. Archived cards and cards no
+ * rule matches stay where they are.
+ */
+export function planRefile(list: DeckRule[] = rules, cards: Card[] = allCards()): RefileMove[] {
+  const out: RefileMove[] = [];
+  for (const c of cards) {
+    if ((c.tags || []).includes('Archived')) continue;
+    const i = matchCardRule(c, list);
+    if (i >= 0 && list[i].deckId !== c.deck) out.push({ cardId: c.id, from: c.deck, to: list[i].deckId, ruleIndex: i });
+  }
+  return out;
+}
+
+/** Apply a re-file plan; returns the number of cards moved. */
+export function applyRefile(moves: RefileMove[]): number {
+  const byTarget = new Map<string, string[]>();
+  for (const m of moves) {
+    const ids = byTarget.get(m.to) || [];
+    ids.push(m.cardId);
+    byTarget.set(m.to, ids);
+  }
+  let moved = 0;
+  for (const [deckId, ids] of byTarget) moved += moveCardsToDeck(ids, deckId);
+  return moved;
+}
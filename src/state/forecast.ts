@@ -0,0 +1,215 @@
+import { Card } from '../data/types';
+import { allCards } from '../data/cardStore';
+import { getDescendantDeckIds, getRootDecks } from '../decks';
+import { getMeta, getReviewLog, simulateReview, Grade, SchedulerMeta } from './scheduler';
+import { getSchedulerConfigForDeck, SchedulerConfig } from './schedulerConfig';
+import { getDeckLimits, getReviewedTodayCounts, planQueue, scaleDeckLimits, CardType, DeckLimits, ReviewedTodayCounts } from './deckLimits';
+import { dayCapacity } from './schedulingPrefs';
+import { getNow, learningDayKey, startOfLearningDay } from './clock';
+import { fsrsStateFromHeuristic, retrievability } from './fsrs';
+
+// Workload forecast: replays the coming days with the real queue planner
+// (planQueue, so deck limits and ordering prefs apply) and the real scheduler
+// math (simulateReview). Recall on each simulated review is drawn from the
+// card's FSRS retrievability; first sightings and the hard/good/easy split of
+// passes follow the user's own review log.
+
+export type ForecastDay = {
+  date: string;      // YYYY-MM-DD
+  due: number;       // review cards due that day, before limits
+  reviews: number;   // review cards answered
+  newCards: number;  // new cards introduced
+  learning: number;  // same-day repeats (learning steps, relapses)
+  backlog: number;   // due review cards left over at the end of the day
+  newWaiting: number;
+};
+
+export type WorkloadOptions = {
+  days: number;
+  /** cards added to the collection per day (hypothetical) */
+  newPerDay: number;
+  seed?: number;
+};
+
+type SimCard = { card: Card; meta: SchedulerMeta | undefined; incorrect: number };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_SAME_DAY_REPEATS = 8;
+
+// Small seeded PRNG (mulberry32) so a forecast is stable between renders
+function rng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Pass rate on first sight, and how passes split across hard/good/easy, from the log. */
+function gradeHabits(): { firstPass: number; passSplit: [Grade, number][] } {
+  let firstTotal = 0, firstPass = 0;
+  const passes: Record<'hard' | 'good' | 'easy', number> = { hard: 0, good: 0, easy: 0 };
+  for (const e of getReviewLog()) {
+    if (e.filtered) continue;
+    if (e.wasNew) { firstTotal++; if (e.grade !== 'again') firstPass++; }
+    if (e.grade !== 'again') passes[e.grade]++;
+  }
+  const passTotal = passes.hard + passes.good + passes.easy;
+  return {
+    firstPass: firstTotal >= 20 ? firstPass / firstTotal : 0.75,
+    passSplit: passTotal >= 20
+      ? (['hard', 'good', 'easy'] as const).map(g => [g, passes[g] / passTotal] as [Grade, number])
+      : [['good', 1]],
+  };
+}
+
+function recallProbability(sim: SimCard, cfg: SchedulerConfig, now: number, firstPass: number): number {
+  const m = sim.meta;
+  if (!m || m.state === 'new' || sim.card.due === 'new') return firstPass;
+  const st = m.fsrs ?? fsrsStateFromHeuristic(m, { min: cfg.minEase, max: cfg.maxEase }, cfg.fsrsWeights);
+  const last = m.reviewedAtISO ? Date.parse(m.reviewedAtISO) : NaN;
+  if (!st || !Number.isFinite(last)) return 0.9;
+  return retrievability(Math.max(0, (now - last) / DAY_MS), st.stability);
+}
+
+function classifySim(sim: SimCard, limits: DeckLimits): CardType {
+  // Mirrors classifyCard() against the simulated state
+  if (sim.incorrect >= Math.max(1, limits.leechIncorrectThreshold)) return 'leech';
+  if (sim.card.due === 'new') return 'new';
+  return (sim.meta?.intervalMin ?? 0) / (60 * 24) >= limits.matureThresholdDays ? 'mature' : 'young';
+}
+
+function dueMs(c: Card): number {
+  const d = c.due;
+  if (!d || d === 'new') return Number.POSITIVE_INFINITY;
+  const t = Date.parse(d);
+  return Number.isFinite(t) ? t : Number.POSITIVE_INFINITY;
+}
+
+/** Simulate one top-level deck (with descendants); returns per-day rows. */
+function simulateDeck(rootId: string, opts: WorkloadOptions, random: () => number): ForecastDay[] {
+  const deckIds = new Set([rootId, ...getDescendantDeckIds(rootId)]);
+  const limits = getDeckLimits(rootId);
+  const incorrect = new Map<string, number>();
+  for (const e of getReviewLog()) if (e.grade === 'again') incorrect.set(e.id, (incorrect.get(e.id) ?? 0) + 1);
+
+  const sims = new Map<string, SimCard>();
+  for (const c of allCards()) {
+    if (!deckIds.has(c.deck) || (c.tags || []).includes('Archived')) continue;
+    sims.set(c.id, { card: { ...c }, meta: getMeta(c.id), incorrect: incorrect.get(c.id) ?? 0 });
+  }
+  const cfgByDeck = new Map<string, SchedulerConfig>();
+  const cfgFor = (deck: string) => {
+    let cfg = cfgByDeck.get(deck);
+    if (!cfg) { cfg = getSchedulerConfigForDeck(deck); cfgByDeck.set(deck, cfg); }
+    return cfg;
+  };
+  const habits = gradeHabits();
+  const pickPass = (): Grade => {
+    let r = random();
+    for (const [g, p] of habits.passSplit) { if ((r -= p) <= 0) return g; }
+    return 'good';
+  };
+
+  const review = (sim: SimCard, at: number) => {
+    const cfg = cfgFor(sim.card.deck);
+    const recalled = random() < recallProbability(sim, cfg, at, habits.firstPass);
+    const grade: Grade = recalled ? pickPass() : 'again';
+    sim.meta = simulateReview(cfg, sim.meta, grade, at);
+    sim.card.due = sim.meta.dueISO;
+    if (grade === 'again') sim.incorrect++;
+  };
+
+  const today = startOfLearningDay();
+  const now = getNow();
+  const out: ForecastDay[] = [];
+  for (let d = 0; d < opts.days; d++) {
+    const dayStart = today + d * DAY_MS;
+    const dayEnd = dayStart + DAY_MS;
+    // Future days are studied in the morning (9:00, or the rollover if later); today starts now
+    const studyAt = d === 0 ? now : Math.max(dayStart, new Date(dayStart).setHours(9, 0, 0, 0));
+
+    for (let i = 0; i < opts.newPerDay; i++) {
+      const id = `sim:${d}:${i}`;
+      const card = { id, deck: rootId, due: 'new', fields: { depth: 0 } } as unknown as Card;
+      sims.set(id, { card, meta: undefined, incorrect: 0 });
+    }
+
+    const due: Card[] = [];
+    let dueReviews = 0;
+    for (const s of sims.values()) {
+      if (s.card.due === 'new') due.push(s.card);
+      else if (dueMs(s.card) < dayEnd) { due.push(s.card); dueReviews++; }
+    }
+    const already: ReviewedTodayCounts = d === 0
+      ? getReviewedTodayCounts(rootId, limits)
+      : { new: 0, mature: 0, leech: 0, young: 0, total: 0 };
+    // Days off: away, nothing studied; easy days: reduced limits
+    const dayLimits = scaleDeckLimits(limits, dayCapacity(studyAt));
+    const plan = planQueue({
+      due,
+      limits: dayLimits,
+      already,
+      classify: c => classifySim(sims.get(c.id)!, dayLimits),
+      dueTime: id => dueMs(sims.get(id)!.card),
+      parentIntervalMin: id => {
+        const p = sims.get(id)?.card.fields.parent;
+        return Math.max(0, (p && sims.get(p)?.meta?.intervalMin) || 0);
+      },
+    });
+
+    let reviews = 0, newCards = 0, learning = 0;
+    const again: { sim: SimCard; repeats: number }[] = [];
+    let t = studyAt;
+    for (const id of plan.ids) {
+      const sim = sims.get(id)!;
+      if (sim.card.due === 'new') newCards++; else reviews++;
+      review(sim, t);
+      if (dueMs(sim.card) < dayEnd) again.push({ sim, repeats: 1 });
+      t += 20_000; // ~20s per card keeps same-day steps in order
+    }
+    // Learning steps and relapses that come back before the day ends
+    while (again.length) {
+      again.sort((a, b) => dueMs(a.sim.card) - dueMs(b.sim.card));
+      const next = again.shift()!;
+      t = Math.max(t, dueMs(next.sim.card));
+      if (t >= dayEnd) break;
+      learning++;
+      review(next.sim, t);
+      if (dueMs(next.sim.card) < dayEnd && next.repeats < MAX_SAME_DAY_REPEATS) again.push({ sim: next.sim, repeats: next.repeats + 1 });
+    }
+
+    let backlog = 0, newWaiting = 0;
+    for (const s of sims.values()) {
+      if (s.card.due === 'new') newWaiting++;
+      else if (dueMs(s.card) < dayEnd) backlog++;
+    }
+    out.push({ date: learningDayKey(dayStart), due: dueReviews, reviews, newCards, learning, backlog, newWaiting });
+  }
+  return out;
+}
+
+/**
+ * Project daily workload for a deck (incl. sub-decks), or for every top-level
+ * deck when deckId is null. New cards are added to the deck itself.
+ */
+export function simulateWorkload(deckId: string | null, opts: WorkloadOptions): ForecastDay[] {
+  const random = rng(opts.seed ?? 1);
+  const roots = deckId ? [deckId] : getRootDecks().map(d => d.id);
+  const perDeck = roots.map((id, i) => simulateDeck(id, { ...opts, newPerDay: i === 0 ? opts.newPerDay : 0 }, random));
+  const out: ForecastDay[] = [];
+  for (let d = 0; d < opts.days; d++) {
+    const row: ForecastDay = { date: perDeck[0]?.[d]?.date ?? '', due: 0, reviews: 0, newCards: 0, learning: 0, backlog: 0, newWaiting: 0 };
+    for (const days of perDeck) {
+      const r = days[d];
+      if (!r) continue;
+      row.due += r.due; row.reviews += r.reviews; row.newCards += r.newCards;
+      row.learning += r.learning; row.backlog += r.backlog; row.newWaiting += r.newWaiting;
+    }
+    out.push(row);
+  }
+  return out;
+}
@@ -0,0 +1,129 @@
+// FSRS (Free Spaced Repetition Scheduler), version 5 formulas.
+// Memory state per card: difficulty D (1..10) and stability S (days until
+// retrievability falls to 90%). Retrievability R decays with elapsed time t:
+//   R(t, S) = (1 + FACTOR * t / S) ^ DECAY
+// and the next interval is the t at which R reaches the target retention.
+
+import type { Grade } from './scheduler';
+
+export type FsrsState = { difficulty: number; stability: number };
+
+/** Default FSRS-5 parameters (w0..w18). */
+export const FSRS_DEFAULT_WEIGHTS: number[] = [
+  0.40255, 1.18385, 3.173, 15.69105, 7.1949, 0.5345, 1.4604, 0.0046, 1.54575, 0.1192,
+  1.01925, 1.9395, 0.11, 0.29605, 2.2698, 0.2315, 2.9898, 0.51655, 0.6621,
+];
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81; // 0.9 ^ (1 / DECAY) - 1, so that R(S, S) = 0.9
+const MIN_STABILITY = 0.01;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const GRADE_VALUE: Record<Grade, number> = { again: 1, hard: 2, good: 3, easy: 4 };
+
+function clamp(n: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, n));
+}
+
+function weights(w?: number[]): number[] {
+  return Array.isArray(w) && w.length >= 19 && w.every(Number.isFinite) ? w : FSRS_DEFAULT_WEIGHTS;
+}
+
+export function retrievability(elapsedDays: number, stability: number): number {
+  if (stability <= 0) return 0;
+  return Math.pow(1 + FACTOR * Math.max(0, elapsedDays) / stability, DECAY);
+}
+
+/** Days until retrievability drops to the target retention. */
+export function intervalDays(stability: number, targetRetention: number): number {
+  const r = clamp(targetRetention, 0.5, 0.99);
+  return (stability / FACTOR) * (Math.pow(r, 1 / DECAY) - 1);
+}
+
+function initDifficulty(w: number[], g: number): number {
+  return w[4] - Math.exp(w[5] * (g - 1)) + 1;
+}
+
+function initState(w: number[], grade: Grade): FsrsState {
+  const g = GRADE_VALUE[grade];
+  return {
+    stability: Math.max(MIN_STABILITY, w[g - 1]),
+    difficulty: clamp(initDifficulty(w, g), 1, 10),
+  };
+}
+
+function nextDifficulty(w: number[], d: number, g: number): number {
+  const delta = -w[6] * (g - 3);
+  const damped = d + delta * (10 - d) / 9;
+  // Mean reversion towards the difficulty of an 'easy' first answer
+  return clamp(w[7] * initDifficulty(w, 4) + (1 - w[7]) * damped, 1, 10);
+}
+
+function recallStability(w: number[], d: number, s: number, r: number, g: number): number {
+  const hardPenalty = g === 2 ? w[15] : 1;
+  const easyBonus = g === 4 ? w[16] : 1;
+  return s * (1 + Math.exp(w[8]) * (11 - d) * Math.pow(s, -w[9]) * (Math.exp(w[10] * (1 - r)) - 1) * hardPenalty * easyBonus);
+}
+
+function forgetStability(w: number[], d: number, s: number, r: number): number {
+  const next = w[11] * Math.pow(d, -w[12]) * (Math.pow(s + 1, w[13]) - 1) * Math.exp(w[14] * (1 - r));
+  return Math.min(next, s);
+}
+
+function shortTermStability(w: number[], s: number, g: number): number {
+  return s * Math.exp(w[17] * (g - 3 + w[18]));
+}
+
+/**
+ * Memory state after a review. `prev` undefined means a first review;
+ * reviews less than a day apart use the short-term stability update.
+ */
+export function nextFsrsState(prev: FsrsState | undefined, grade: Grade, elapsedDays: number, w?: number[]): FsrsState {
+  const ws = weights(w);
+  if (!prev) return initState(ws, grade);
+  const g = GRADE_VALUE[grade];
+  const d = clamp(prev.difficulty, 1, 10);
+  const s = Math.max(MIN_STABILITY, prev.stability);
+  let stability: number;
+  if (elapsedDays < 1) {
+    stability = shortTermStability(ws, s, g);
+  } else {
+    const r = retrievability(elapsedDays, s);
+    stability = g === 1 ? forgetStability(ws, d, s, r) : recallStability(ws, d, s, r, g);
+  }
+  return {
+    difficulty: nextDifficulty(ws, d, g),
+    stability: Math.max(MIN_STABILITY, stability),
+  };
+}
+
+/** Replay a card's graded reviews (oldest first) into a memory state. */
+export function replayFsrs(reviews: { grade: Grade; ts: number }[], w?: number[]): FsrsState | undefined {
+  let state: FsrsState | undefined;
+  let lastTs: number | undefined;
+  for (const r of [...reviews].sort((a, b) => a.ts - b.ts)) {
+    const elapsed = lastTs === undefined ? 0 : (r.ts - lastTs) / DAY_MS;
+    state = nextFsrsState(state, r.grade, elapsed, w);
+    lastTs = r.ts;
+  }
+  return state;
+}
+
+/**
+ * Approximate a memory state from the heuristic scheduler's record: the last
+ * interval was aimed at ~90% recall, so it stands in for stability; ease maps
+ * inversely onto difficulty.
+ */
+export function fsrsStateFromHeuristic(
+  m: { state: string; ease: number; intervalMin: number; lapses: number },
+  easeRange: { min: number; max: number },
+  w?: number[],
+): FsrsState | undefined {
+  if (m.state === 'new') return undefined;
+  const ws = weights(w);
+  const days = m.intervalMin / (60 * 24);
+  const stability = m.state === 'graduated' ? Math.max(MIN_STABILITY, days) : ws[2];
+  const span = Math.max(0.01, easeRange.max - easeRange.min);
+  const fromEase = 1 + 9 * (easeRange.max - clamp(m.ease, easeRange.min, easeRange.max)) / span;
+  return { stability, difficulty: clamp(fromEase + Math.min(2, (m.lapses || 0) * 0.5), 1, 10) };
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateFsrs } from './fsrsOptimizer';
+import type { Grade, ReviewLogEntry } from './scheduler';
+
+const DAY = 86_400_000;
+const review = (id: string, day: number, grade: Grade): ReviewLogEntry => ({
+  id, ts: day * DAY, grade, wasNew: day === 0, newInt: 24 * 60, newDueISO: new Date((day + 1) * DAY).toISOString(),
+});
+
+describe('evaluateFsrs', () => {
+  const log = [review('a', 0, 'good'), review('a', 3, 'again'), review('a', 10, 'good'), review('a', 20, 'good')];
+
+  it('scores every review a day or more after the previous one', () => {
+    expect(evaluateFsrs(log).count).toBe(3);
+  });
+
+  it('starts a forgotten card\'s history over at its last forget', () => {
+    // Forgotten on day 5: day 10 is a fresh first review, only day 20 is scored
+    expect(evaluateFsrs(log, undefined, new Map([['a', 5 * DAY]])).count).toBe(1);
+  });
+});
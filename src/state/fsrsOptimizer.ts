@@ -0,0 +1,149 @@
+// Fit FSRS weights to the local review log.
+// Each card's reviews since it was last forgotten (reset to new) are replayed
+// with the candidate weights; at every review made a day or more after the
+// previous one, the model's predicted recall probability is scored against
+// the outcome (anything but 'again' = recalled).
+// The weights are tuned by Adam on a finite-difference gradient of the log-loss.
+
+import type { Grade, ReviewLogEntry } from './scheduler';
+import { FSRS_DEFAULT_WEIGHTS, FsrsState, nextFsrsState, retrievability } from './fsrs';
+
+export type FsrsMetrics = {
+  logLoss: number;
+  rmse: number;
+  count: number; // scored reviews
+};
+
+export type FsrsOptimizeResult = {
+  weights: number[];
+  before: FsrsMetrics;
+  after: FsrsMetrics;
+  cards: number;
+};
+
+type Review = { grade: Grade; elapsedDays: number };
+
+/** Fewer scored reviews than this and the fit is mostly noise. */
+export const MIN_OPTIMIZE_REVIEWS = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EPS = 1e-6;
+
+// Parameter bounds, as in the reference FSRS-5 optimizer
+const BOUNDS: [number, number][] = [
+  [0.01, 100], [0.01, 100], [0.01, 100], [0.01, 100],
+  [1, 10], [0.001, 4], [0.001, 4], [0.001, 0.75],
+  [0, 4.5], [0, 0.8], [0.001, 3.5],
+  [0.001, 5], [0.001, 0.25], [0.001, 0.9], [0, 4],
+  [0, 1], [1, 6], [0, 2], [0, 2],
+];
+
+function clampWeights(w: number[]): number[] {
+  return w.map((v, i) => Math.max(BOUNDS[i][0], Math.min(BOUNDS[i][1], v)));
+}
+
+/**
+ * Per-card review sequences (oldest first) with days since the previous review.
+ * A card's reviews before its last forget (`forgotten`, by card id) are dropped.
+ */
+function buildSequences(log: ReviewLogEntry[], forgotten?: ReadonlyMap<string, number>): Review[][] {
+  const byCard = new Map<string, ReviewLogEntry[]>();
+  for (const e of log) {
+    if (!e || typeof e.ts !== 'number' || !e.grade) continue;
+    if (e.ts < (forgotten?.get(e.id) ?? 0)) continue;
+    const arr = byCard.get(e.id);
+    if (arr) arr.push(e); else byCard.set(e.id, [e]);
+  }
+  const out: Review[][] = [];
+  for (const entries of byCard.values()) {
+    entries.sort((a, b) => a.ts - b.ts);
+    out.push(entries.map((e, i) => ({
+      grade: e.grade,
+      elapsedDays: i === 0 ? 0 : (e.ts - entries[i - 1].ts) / DAY_MS,
+    })));
+  }
+  return out;
+}
+
+function evaluate(seqs: Review[][], w: number[]): FsrsMetrics {
+  let loss = 0;
+  let sq = 0;
+  let count = 0;
+  for (const seq of seqs) {
+    let state: FsrsState | undefined;
+    for (const r of seq) {
+      if (state && r.elapsedDays >= 1) {
+        const p = Math.max(EPS, Math.min(1 - EPS, retrievability(r.elapsedDays, state.stability)));
+        const y = r.grade === 'again' ? 0 : 1;
+        loss -= y * Math.log(p) + (1 - y) * Math.log(1 - p);
+        sq += (p - y) * (p - y);
+        count++;
+      }
+      state = nextFsrsState(state, r.grade, r.elapsedDays, w);
+    }
+  }
+  return count
+    ? { logLoss: loss / count, rmse: Math.sqrt(sq / count), count }
+    : { logLoss: NaN, rmse: NaN, count: 0 };
+}
+
+/** How well a set of weights predicts the recorded reviews. */
+export function evaluateFsrs(log: ReviewLogEntry[], w: number[] = FSRS_DEFAULT_WEIGHTS, forgotten?: ReadonlyMap<string, number>): FsrsMetrics {
+  return evaluate(buildSequences(log, forgotten), w);
+}
+
+/**
+ * Fit weights to the review log, starting from `initial`. Runs in small
+ * batches and yields to the event loop between them so the page stays
+ * responsive; `onProgress` receives the fraction done.
+ * Throws when the log has too few scorable reviews.
+ */
+export async function optimizeFsrs(
+  log: ReviewLogEntry[],
+  opts?: { initial?: number[]; iterations?: number; onProgress?: (fraction: number) => void; forgotten?: ReadonlyMap<string, number> },
+): Promise<FsrsOptimizeResult> {
+  const seqs = buildSequences(log, opts?.forgotten);
+  const start = clampWeights(opts?.initial && opts.initial.length >= 19 ? opts.initial.slice(0, 19) : FSRS_DEFAULT_WEIGHTS);
+  const before = evaluate(seqs, start);
+  if (before.count < MIN_OPTIMIZE_REVIEWS) {
+    throw new Error(`Not enough review history: ${before.count} review${before.count === 1 ? '' : 's'} a day or more apart (need ${MIN_OPTIMIZE_REVIEWS}).`);
+  }
+
+  const iterations = Math.max(1, opts?.iterations ?? 150);
+  const rate = 0.02;
+  const beta1 = 0.9;
+  const beta2 = 0.999;
+  let w = start.slice();
+  const m = new Array(w.length).fill(0);
+  const v = new Array(w.length).fill(0);
+  let best = { w: start, loss: before.logLoss };
+
+  for (let it = 1; it <= iterations; it++) {
+    const base = evaluate(seqs, w).logLoss;
+    if (base < best.loss) best = { w: w.slice(), loss: base };
+    const grad = w.map((wi, i) => {
+      // Step relative to the parameter's range so small-range weights aren't swamped
+      const h = Math.max(1e-4, (BOUNDS[i][1] - BOUNDS[i][0]) * 1e-4);
+      const probe = w.slice();
+      probe[i] = wi + h;
+      return (evaluate(seqs, probe).logLoss - base) / h;
+    });
+    w = clampWeights(w.map((wi, i) => {
+      m[i] = beta1 * m[i] + (1 - beta1) * grad[i];
+      v[i] = beta2 * v[i] + (1 - beta2) * grad[i] * grad[i];
+      const mHat = m[i] / (1 - Math.pow(beta1, it));
+      const vHat = v[i] / (1 - Math.pow(beta2, it));
+      const scale = Math.max(0.05, Math.abs(wi));
+      return wi - rate * scale * mHat / (Math.sqrt(vHat) + 1e-8);
+    }));
+    if (it % 5 === 0 || it === iterations) {
+      opts?.onProgress?.(it / iterations);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+
+  const last = evaluate(seqs, w);
+  if (last.logLoss < best.loss) best = { w, loss: last.logLoss };
+  const weights = best.w.map(x => Math.round(x * 10000) / 10000);
+  return { weights, before, after: evaluate(seqs, weights), cards: seqs.length };
+}
@@ -0,0 +1,55 @@
+import { Card } from '../data/types';
+import { allCards } from '../data/cardStore';
+import { getDescendantDeckIds } from '../decks';
+import { getReplyWeight, pickWeighted } from './replyWeights';
+
+function isArchived(c: Card): boolean {
+  return (c.tags || []).includes('Archived');
+}
+
+function byIdMap(): Map<string, Card> {
+  return new Map(allCards().map(c => [c.id, c]));
+}
+
+/** Cards in the deck (incl. descendants) that start a line: no parent, or parent outside the deck. */
+export function getLineRoots(deckId: string): Card[] {
+  const deckIds = new Set<string>([deckId, ...getDescendantDeckIds(deckId)]);
+  const inDeck = allCards().filter(c => deckIds.has(c.deck) && !isArchived(c));
+  const ids = new Set(inDeck.map(c => c.id));
+  return inDeck.filter(c => !c.fields.parent || !ids.has(c.fields.parent));
+}
+
+/** Immediate (non-archived) children: the positions after this card's answer plus one opponent reply. */
+export function getLineChildren(card: Card): Card[] {
+  const map = byIdMap();
+  return (card.fields.children || [])
+    .map(id => map.get(id))
+    .filter((c): c is Card => !!c && !isArchived(c));
+}
+
+/** Opponent move that leads from a card to one of its children (last SAN of the child's move sequence). */
+export function replyMoveOf(child: Card): string {
+  const toks = (child.fields.moveSequence || '')
+    .replace(/\{[^}]*\}/g, '')
+    .replace(/\d+\.(\.\.)?/g, '')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+  return toks[toks.length - 1] || '';
+}
+
+/** Pick the opponent reply to continue the line with (weighted by how often it is played), or null at a leaf. */
+export function pickNextInLine(card: Card): Card | null {
+  return pickWeighted(getLineChildren(card), c => getReplyWeight(c).weight);
+}
+
+/** Pick a random line start in the deck (optionally a specific card). */
+export function pickLineRoot(deckId: string, startCardId?: string | null): Card | null {
+  if (startCardId) {
+    const c = byIdMap().get(startCardId);
+    if (c) return c;
+  }
+  const roots = getLineRoots(deckId);
+  if (!roots.length) return null;
+  return roots[Math.floor(Math.random() * roots.length)];
+}
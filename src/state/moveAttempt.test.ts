@@ -0,0 +1,42 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { evaluateAttempt, missedAttempt } from './moveAttempt';
+import { setDeckLimits } from './deckLimits';
+import { getCard, getWrongAnswers } from '../data/cardStore';
+import { makeCard, resetCollection } from '../test/fixtures';
+
+const card = () => getCard('c1')!;
+
+beforeEach(() => {
+  resetCollection([makeCard('c1', 'new', { fields: { otherAnswers: [{ move: 'd4', eval: { kind: 'cp', value: 20 } }], eval: { kind: 'cp', value: 35 } } })]);
+});
+
+describe('evaluateAttempt', () => {
+  it('suggests a grade from the response time, capped by hints', () => {
+    expect(evaluateAttempt(card(), 'e4', { durationMs: 3_000 })).toEqual({
+      attempt: { played: 'e4', outcome: 'correct', durationMs: 3_000, suggested: 'easy', alternative: undefined, cpLoss: undefined },
+    });
+    expect(evaluateAttempt(card(), 'e2e4', { durationMs: 3_000, cap: 'hard' })).toMatchObject({ attempt: { suggested: 'hard' } });
+  });
+
+  it('grades an alternative Hard, or asks for a retry when the deck says so', () => {
+    expect(evaluateAttempt(card(), 'd4', { durationMs: 3_000 })).toMatchObject({
+      attempt: { outcome: 'alternative', suggested: 'hard', alternative: 'd4', cpLoss: 15 },
+    });
+    setDeckLimits('white-other', { alternatives: { enabled: true, maxCpLoss: 30, credit: 'retry' } });
+    const first = evaluateAttempt(card(), 'd4', { durationMs: 3_000 });
+    expect(first).toEqual({ retry: { played: 'd4', cpLoss: 15 } });
+    const second = evaluateAttempt(card(), 'e4', { durationMs: 3_000, retryFrom: 'retry' in first ? first.retry : null });
+    expect(second).toMatchObject({ attempt: { outcome: 'correct', suggested: 'good', alternative: 'd4', cpLoss: 15 } });
+  });
+
+  it('records wrong moves as common mistakes', () => {
+    expect(evaluateAttempt(card(), 'a3', { durationMs: 3_000 })).toMatchObject({ attempt: { outcome: 'wrong', suggested: 'again' } });
+    expect(getWrongAnswers(card()).map(w => w.move)).toEqual(['a3']);
+  });
+});
+
+it('missedAttempt keeps the alternative tried before giving up', () => {
+  expect(missedAttempt('timeout', 10_000, { played: 'd4', cpLoss: 15 })).toEqual({
+    played: null, outcome: 'timeout', durationMs: 10_000, suggested: 'again', alternative: 'd4', cpLoss: 15,
+  });
+});
@@ -0,0 +1,87 @@
+import type { Card } from '../data/types';
+import { recordWrongAnswer } from '../data/cardStore';
+import type { Grade } from './scheduler';
+import { getAlternativesPolicy } from './deckLimits';
+import { checkMove, suggestGrade, capGrade, GradeTiming, MoveOutcome } from './moveCheck';
+
+// Play-the-move answering shared by review and line drill: a move played on
+// the board becomes an Attempt (outcome, suggested grade) or, for an engine
+// alternative in a deck set to 'retry', a prompt to play the repertoire move.
+
+/** Result of a play-the-move attempt on the current card. */
+export type Attempt = {
+  played: string | null;
+  outcome: MoveOutcome;
+  durationMs: number;
+  suggested: Grade;
+  /** engine alternative played first when the deck asks for a retry */
+  alternative?: string;
+  cpLoss?: number;
+};
+
+/** An alternative that was played first; the card stays on its front for another try. */
+export type RetryPrompt = { played: string; cpLoss?: number };
+
+export const OUTCOME_LABEL: Record<MoveOutcome, string> = {
+  correct: 'Correct',
+  alternative: 'Playable, but not the preferred move',
+  wrong: 'Incorrect',
+  'gave-up': 'Answer revealed',
+  timeout: 'Out of time',
+};
+
+/**
+ * Grade a move played on `card`'s position. Wrong moves are recorded as common
+ * mistakes. The suggested grade is at most Good after a retry, and at most `cap`.
+ */
+export function evaluateAttempt(
+  card: Card,
+  move: string,
+  opts: { durationMs: number; retryFrom?: RetryPrompt | null; timing?: GradeTiming; cap?: Grade }
+): { attempt: Attempt } | { retry: RetryPrompt } {
+  const { durationMs, retryFrom } = opts;
+  const policy = getAlternativesPolicy(card.deck);
+  const { outcome, played, cpLoss } = checkMove(card, move, policy);
+  if (outcome === 'alternative' && policy.credit === 'retry' && !retryFrom && played) {
+    return { retry: { played, cpLoss } };
+  }
+  if (outcome === 'wrong' && played) recordWrongAnswer(card.id, played);
+  let suggested = suggestGrade(outcome, durationMs, opts.timing);
+  // Finding the repertoire move on the second try is worth at most Good
+  if (retryFrom) suggested = capGrade(suggested, 'good');
+  if (opts.cap) suggested = capGrade(suggested, opts.cap);
+  return {
+    attempt: {
+      played,
+      outcome,
+      durationMs,
+      suggested,
+      alternative: retryFrom?.played ?? (outcome === 'alternative' ? played ?? undefined : undefined),
+      cpLoss: retryFrom?.cpLoss ?? cpLoss,
+    },
+  };
+}
+
+/** Attempt for a card answered without a move (answer revealed, or the clock ran out). */
+export function missedAttempt(outcome: 'gave-up' | 'timeout', durationMs: number, retryFrom?: RetryPrompt | null): Attempt {
+  return {
+    played: null,
+    outcome,
+    durationMs,
+    suggested: 'again',
+    alternative: retryFrom?.played,
+    cpLoss: retryFrom?.cpLoss,
+  };
+}
+
+/** The attempt's part of the review log entry (options for schedule()). */
+export function attemptLogFields(attempt: Attempt | null | undefined) {
+  return {
+    durationMs: attempt?.durationMs,
+    playedMove: attempt?.played ?? undefined,
+    outcome: attempt?.outcome,
+    suggestedGrade: attempt?.suggested,
+    alternativeMove: attempt?.alternative,
+    cpLoss: attempt?.cpLoss,
+  };
+}
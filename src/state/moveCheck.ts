@@ -0,0 +1,133 @@
+import { Chess } from 'chess.js';
+import type { Card, EvalInfo } from '../data/types';
+import type { Grade } from './scheduler';
+import type { DeckLimits } from './deckLimits';
+
+/** How a move played on the review board compares to the card's answers. */
+export type MoveOutcome = 'correct' | 'alternative' | 'wrong' | 'gave-up' | 'timeout';
+
+export type MoveCheck = {
+  outcome: MoveOutcome;
+  /** played move normalized to SAN in the review position (null if gave up) */
+  played: string | null;
+  /** the card's preferred answer */
+  expected: string;
+  /** for alternatives: centipawns lost vs the card eval (undefined if evals are missing) */
+  cpLoss?: number;
+};
+
+export type AlternativePolicy = DeckLimits['alternatives'];
+
+// Response-time thresholds for automatic grading of correct moves.
+const EASY_UNDER_MS = 5_000;
+const HARD_OVER_MS = 20_000;
+
+const GRADE_RANK: Record<Grade, number> = { again: 0, hard: 1, good: 2, easy: 3 };
+
+/** Parse a move (SAN or UCI) in the given position and return its SAN, or null if illegal. */
+export function toSan(fen: string, move: string): string | null {
+  const m = (move || '').trim();
+  if (!m) return null;
+  try {
+    const chess = new Chess(fen);
+    const uci = /^([a-h][1-8])([a-h][1-8])([qrbn])?$/i.exec(m);
+    const mv = uci
+      ? chess.move({ from: uci[1].toLowerCase(), to: uci[2].toLowerCase(), promotion: uci[3]?.toLowerCase() })
+      : chess.move(m);
+    return mv ? mv.san : null;
+  } catch {
+    return null; // chess.js throws on illegal moves
+  }
+}
+
+/** Mates map far outside the cp range so any mate beats any cp score. */
+function evalToCp(e?: EvalInfo): number | undefined {
+  if (!e || !Number.isFinite(e.value)) return undefined;
+  if (e.kind === 'cp') return e.value;
+  return e.value > 0 ? 100_000 - e.value : -100_000 - e.value;
+}
+
+function otherAnswerEntries(card: Card): { move: string; eval?: EvalInfo }[] {
+  return (card.fields.otherAnswers || [])
+    .map(a => (typeof a === 'string' ? { move: a } : a))
+    .filter(a => !!a?.move);
+}
+
+/**
+ * Compare a played move against fields.answer (and siblings), then fields.otherAnswers.
+ * Without a policy every stored alternative is accepted; with one, alternatives must be
+ * enabled and within maxCpLoss of the card eval (entries without evals were already
+ * vetted at creation time, so they pass).
+ */
+export function checkMove(card: Card, move: string, policy?: AlternativePolicy): MoveCheck {
+  const fen = card.fields.fen;
+  const expected = card.fields.answer || '';
+  const played = toSan(fen, move);
+  if (!played) return { outcome: 'wrong', played: move || null, expected };
+
+  const best = [expected, ...(card.fields.siblingAnswers || [])]
+    .map(m => toSan(fen, m))
+    .filter(Boolean);
+  if (best.includes(played)) return { outcome: 'correct', played, expected };
+
+  const alt = otherAnswerEntries(card).find(a => toSan(fen, a.move) === played);
+  if (alt && (!policy || policy.enabled)) {
+    const bestCp = evalToCp(card.fields.eval);
+    const altCp = evalToCp(alt.eval);
+    const cpLoss = (bestCp !== undefined && altCp !== undefined) ? Math.max(0, bestCp - altCp) : undefined;
+    if (!policy || cpLoss === undefined || cpLoss <= policy.maxCpLoss) {
+      return { outcome: 'alternative', played, expected, cpLoss };
+    }
+  }
+
+  return { outcome: 'wrong', played, expected };
+}
+
+/** Response-time thresholds for grading a correct move (blitz review tightens them). */
+export type GradeTiming = { easyUnderMs: number; hardOverMs: number };
+
+/** Suggested grade from the outcome and how long it took to answer. */
+export function suggestGrade(outcome: MoveOutcome, durationMs?: number, timing?: GradeTiming): Grade {
+  if (outcome === 'wrong' || outcome === 'gave-up' || outcome === 'timeout') return 'again';
+  if (outcome === 'alternative') return 'hard';
+  if (typeof durationMs !== 'number' || !Number.isFinite(durationMs)) return 'good';
+  if (durationMs <= (timing?.easyUnderMs ?? EASY_UNDER_MS)) return 'easy';
+  if (durationMs >= (timing?.hardOverMs ?? HARD_OVER_MS)) return 'hard';
+  return 'good';
+}
+
+/** Never let a manual grade exceed the cap (e.g. the auto-graded result). */
+export function capGrade(grade: Grade, cap: Grade): Grade {
+  return GRADE_RANK[grade] > GRADE_RANK[cap] ? cap : grade;
+}
+
+export function gradeRank(grade: Grade): number {
+  return GRADE_RANK[grade];
+}
+
+/**
+ * Progressive hints before the answer is revealed:
+ * 1 = the moving piece's square, 2 = plus the destination, 3 = an arrow.
+ */
+export type HintLevel = 0 | 1 | 2 | 3;
+
+export const MAX_HINT_LEVEL: HintLevel = 3;
+
+/** Best grade still available after using hints up to this level. */
+export function hintGradeCap(level: HintLevel): Grade {
+  if (level <= 0) return 'easy';
+  if (level === 1) return 'good';
+  return 'hard';
+}
+
+/** From/to squares of the card's answer in its review position, or null if it doesn't parse. */
+export function answerSquares(card: Card): { from: string; to: string } | null {
+  const answer = (card.fields.answer || '').trim();
+  if (!answer) return null;
+  try {
+    const mv = new Chess(card.fields.fen).move(answer);
+    return mv ? { from: mv.from, to: mv.to } : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,46 @@
+import type { Card } from '../data/types';
+import { buildOpeningIndex, classifyOpening, Opening, OpeningIndex } from '../../scripts/openings.js';
+import { normalizeSans } from '../../scripts/deck-rules.js';
+import jsonRaw from '../data/openings.json?raw';
+
+// Opening names for cards. The table and lookup live in scripts/openings.js so
+// make-card.js stamps new cards with the same names the app shows.
+
+export type { Opening } from '../../scripts/openings.js';
+
+let index: OpeningIndex | null = null;
+const byPosition = new Map<string, Opening | null>();
+
+function getIndex(): OpeningIndex {
+  if (index) return index;
+  try {
+    index = buildOpeningIndex(JSON.parse((jsonRaw ?? '').trim() || '[]'));
+  } catch (e) {
+    console.warn('[openings] Failed to parse openings.json; no opening names.', e);
+    index = new Map();
+  }
+  return index;
+}
+
+/**
+ * ECO code and name for a card, looked up by position so transpositions agree.
+ * Falls back to what make-card stored when the table doesn't know the line.
+ */
+export function getCardOpening(c: Card): Opening | null {
+  const moves = c.fields.moveSequence || '';
+  const key = `${moves}|${c.fields.fen || ''}`;
+  let hit = byPosition.get(key);
+  if (hit === undefined) {
+    hit = classifyOpening(getIndex(), normalizeSans(moves), c.fields.fen);
+    byPosition.set(key, hit);
+  }
+  if (hit) return hit;
+  const { eco, opening } = c.fields;
+  return eco || opening ? { eco: eco || '', name: opening || '' } : null;
+}
+
+/** "B12 Caro-Kann Defense: Advance Variation", or '' when unknown. */
+export function openingLabel(o: Opening | null | undefined): string {
+  if (!o) return '';
+  return [o.eco, o.name].filter(Boolean).join(' ');
+}
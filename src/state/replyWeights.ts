@@ -0,0 +1,210 @@
+import { Chess } from 'chess.js';
+import { Card } from '../data/types';
+import { allCards } from '../data/cardStore';
+import { getMapStore, putEntries } from '../data/collectionDb';
+
+/** 4-field FEN (position before a move) -> SAN -> times played */
+export type MoveCounts = Record<string, Record<string, number>>;
+
+type Store = {
+  chesscom: MoveCounts;            // mirrored from the scan ledger (chesscom-scanned.json)
+  games: MoveCounts;               // imported PGN games
+  gamesImported: number;
+  manual: Record<string, number>;  // child card id -> weight
+};
+
+export type ReplyWeightSource = 'manual' | 'games' | 'default';
+
+export type ReplyWeight = {
+  weight: number;
+  source: ReplyWeightSource;
+  chesscom: number;
+  games: number;
+  manual?: number;
+};
+
+const MAX_IMPORT_PLIES = 40;
+
+const EMPTY: Store = { chesscom: {}, games: {}, gamesImported: 0, manual: {} };
+
+// Stored in the collection database ('replyWeights' store, one entry per part
+// of Store). load() returns the live contents: copy a part before changing it.
+function load(): Readonly<Store> {
+  return { ...EMPTY, ...getMapStore<unknown>('replyWeights') } as Store;
+}
+
+function save(parts: Partial<Store>) {
+  putEntries('replyWeights', parts);
+}
+
+function fen4(fen: string): string {
+  return (fen || '').split(/\s+/).slice(0, 4).join(' ');
+}
+
+function sanTokens(pgn: string): string[] {
+  return (pgn || '')
+    .replace(/\{[^}]*\}/g, '')
+    .replace(/\([^)]*\)/g, '')
+    .replace(/\$\d+/g, '')
+    .replace(/\d+\.(\.\.)?/g, '')
+    .replace(/\b(1-0|0-1|1\/2-1\/2|\*)\b/g, '')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/** Position before the opponent's reply and the reply itself, replayed from the child's move sequence. */
+function replyEdge(child: Card): { fen: string; san: string } | null {
+  const sans = sanTokens(child.fields.moveSequence);
+  if (!sans.length) return null;
+  try {
+    const chess = new Chess();
+    for (const san of sans.slice(0, -1)) chess.move(san);
+    const before = fen4(chess.fen());
+    const mv = chess.move(sans[sans.length - 1]);
+    return mv ? { fen: before, san: mv.san } : null;
+  } catch {
+    return null;
+  }
+}
+
+function countOf(counts: MoveCounts, edge: { fen: string; san: string } | null): number {
+  if (!edge) return 0;
+  return counts[edge.fen]?.[edge.san] ?? 0;
+}
+
+/** Pull opponent reply counts from the chess.com scan ledger (Electron only). */
+export function loadReplyCountsFromScanIfAvailable(): void {
+  try {
+    const api = (window as any).autogen;
+    if (!api?.getReplyCounts) return;
+    api.getReplyCounts().then((counts: MoveCounts) => {
+      if (!counts || typeof counts !== 'object') return;
+      if (JSON.stringify(load().chesscom) === JSON.stringify(counts)) return;
+      save({ chesscom: counts });
+    }).catch(() => {});
+  } catch {}
+}
+
+/** Count every move of every game in a PGN database (first 40 plies). Returns games imported. */
+export function importGamesPgn(text: string): number {
+  const games: MoveCounts = JSON.parse(JSON.stringify(load().games));
+  // Split on the start of each tag section; bare move lists are one game per blank-line block
+  const chunks = /\[Event /.test(text)
+    ? text.split(/(?=\[Event )/)
+    : text.split(/\r?\n\s*\r?\n/);
+  let imported = 0;
+  for (const chunk of chunks) {
+    const body = chunk.replace(/^\s*\[[^\]]*\]\s*$/gm, '');
+    const sans = sanTokens(body).slice(0, MAX_IMPORT_PLIES);
+    if (!sans.length) continue;
+    const chess = new Chess();
+    let any = false;
+    for (const san of sans) {
+      const before = fen4(chess.fen());
+      let mv;
+      try { mv = chess.move(san); } catch { break; }
+      if (!mv) break;
+      const row = games[before] || (games[before] = {});
+      row[mv.san] = (row[mv.san] || 0) + 1;
+      any = true;
+    }
+    if (any) imported++;
+  }
+  save({ games, gamesImported: (load().gamesImported || 0) + imported });
+  return imported;
+}
+
+export function clearImportedGames(): void {
+  save({ games: {}, gamesImported: 0 });
+}
+
+export function getImportedGamesCount(): number {
+  return load().gamesImported || 0;
+}
+
+/** Set (or clear with null) a manual weight for the edge parent -> child. */
+export function setManualReplyWeight(childId: string, weight: number | null): void {
+  const manual = { ...load().manual };
+  if (weight === null || !Number.isFinite(weight) || weight < 0) delete manual[childId];
+  else manual[childId] = weight;
+  save({ manual });
+}
+
+/**
+ * Weight of the edge into a child card. A manual weight wins; otherwise the
+ * scan + imported game counts plus one, so unseen replies still turn up now and then.
+ */
+export function getReplyWeight(child: Card): ReplyWeight {
+  return weightFrom(load(), child);
+}
+
+function weightFrom(s: Readonly<Store>, child: Card): ReplyWeight {
+  const edge = replyEdge(child);
+  const chesscom = countOf(s.chesscom, edge);
+  const games = countOf(s.games, edge);
+  const manual = s.manual[child.id];
+  if (typeof manual === 'number') return { weight: manual, source: 'manual', chesscom, games, manual };
+  if (chesscom + games > 0) return { weight: chesscom + games + 1, source: 'games', chesscom, games };
+  return { weight: 1, source: 'default', chesscom, games };
+}
+
+/** Weighted random pick; falls back to uniform when all weights are zero. */
+export function pickWeighted<T>(items: T[], weightOf: (t: T) => number): T | null {
+  if (!items.length) return null;
+  const ws = items.map(t => Math.max(0, weightOf(t)));
+  const total = ws.reduce((a, b) => a + b, 0);
+  if (total <= 0) return items[Math.floor(Math.random() * items.length)];
+  let r = Math.random() * total;
+  for (let i = 0; i < items.length; i++) {
+    r -= ws[i];
+    if (r < 0) return items[i];
+  }
+  return items[items.length - 1];
+}
+
+/**
+ * Probability of reaching a card along its lineage: the product of each reply's
+ * share among its siblings. Line roots have probability 1.
+ */
+export function lineProbability(card: Card, byId?: Map<string, Card>): number {
+  return lineProbabilities(byId)(card);
+}
+
+/**
+ * lineProbability for many cards at once: the weights are loaded once, and
+ * each card's weight and each parent's sibling total are computed once.
+ */
+export function lineProbabilities(byId?: Map<string, Card>): (card: Card) => number {
+  const map = byId ?? new Map(allCards().map(c => [c.id, c]));
+  const s = load();
+  const weights = new Map<string, number>();
+  const totals = new Map<string, number>();
+  const weightOf = (c: Card) => {
+    let w = weights.get(c.id);
+    if (w === undefined) weights.set(c.id, w = weightFrom(s, c).weight);
+    return w;
+  };
+  const siblingTotal = (parent: Card) => {
+    let t = totals.get(parent.id);
+    if (t === undefined) {
+      const siblings = (parent.fields.children || []).map(id => map.get(id)).filter((c): c is Card => !!c);
+      totals.set(parent.id, t = siblings.reduce((a, c) => a + weightOf(c), 0));
+    }
+    return t;
+  };
+  return (card: Card) => {
+    let p = 1;
+    let cur: Card | undefined = card;
+    const seen = new Set<string>();
+    while (cur?.fields.parent && !seen.has(cur.id)) {
+      seen.add(cur.id);
+      const parent = map.get(cur.fields.parent);
+      if (!parent) break;
+      const total = siblingTotal(parent);
+      if (total > 0) p *= weightOf(cur) / total;
+      cur = parent;
+    }
+    return p;
+  };
+}
@@ -1,4 +1,6 @@
 import { setCardDueFlexible } from '../data/cardStore';
+import { getNow } from './clock';
+import { getListStore, removeFromList } from '../data/collectionDb';
 
 export type ReviewUndoStep = {
   cardId: string;
@@ -13,10 +15,14 @@ export type ReviewUndoStep = {
   /** Optional scheduler snapshots for undo */
   prevSched?: any;
   newSched?: any;
+  /** Made in a custom study session (undo puts the card back in that queue) */
+  filtered?: boolean;
+  /** Other cards the review rescheduled (lineage rules), with their prior state */
+  linked?: { cardId: string; prevMeta?: any; prevDue: string | 'new' | undefined }[];
 };
 
 const KEY = 'chessflashcards.reviewHistory.v1'; // session-scoped
-const LOG_KEY = 'chessflashcards.reviewLog.v1'; // persistent review log used by Stats
+const SESSION_KEY = 'chessflashcards.reviewSession.v1'; // session-scoped
 
 function load(): ReviewUndoStep[] {
   try {
@@ -40,7 +46,7 @@ function save(steps: ReviewUndoStep[]) {
 /** Push a review operation onto the session undo stack. */
 export function pushReviewUndoStep(step: Omit<ReviewUndoStep, 'ts'>): void {
   const steps = load();
-  steps.push({ ...step, ts: Date.now() });
+  steps.push({ ...step, ts: getNow() });
   save(steps);
 }
 
@@ -60,25 +66,15 @@ export function undoLast(): ReviewUndoStep | null {
   if (!step) return null;
   // Restore previous due: undefined → clears override; 'new' or ISO string → sets it
   setCardDueFlexible(step.cardId, step.prevDue);
-  try {
-    const raw = localStorage.getItem(LOG_KEY);
-    if (raw) {
-      const arr = JSON.parse(raw);
-      if (Array.isArray(arr) && arr.length > 0) {
-        let removed = false;
-        for (let i = arr.length - 1; i >= 0; i--) {
-          const rec = arr[i];
-          if (rec && rec.id === step.cardId) {
-            arr.splice(i, 1);
-            removed = true;
-            break;
-          }
-        }
-        if (!removed) arr.pop();
-        localStorage.setItem(LOG_KEY, JSON.stringify(arr));
-      }
+  const log = getListStore<any>('reviewLog');
+  if (log.length > 0) {
+    let index = log.length - 1;
+    for (let i = log.length - 1; i >= 0; i--) {
+      const rec = log[i];
+      if (rec && rec.id === step.cardId && !rec.manual) { index = i; break; }
     }
-  } catch {}
+    removeFromList('reviewLog', index);
+  }
   save(steps);
   return step;
 }
@@ -97,3 +93,24 @@ export function clearReviewHistory(): void {
 export function clearHistory(): void {
   clearReviewHistory();
 }
+
+/**
+ * Start time of the review session for a queue (e.g. "review:<deckId>").
+ * Reuses the running session when the same queue is reopened, so leaving to
+ * edit a card doesn't reset the end-of-session summary.
+ */
+export function beginReviewSession(queueKey: string): number {
+  try {
+    const raw = sessionStorage.getItem(SESSION_KEY);
+    const cur = raw ? JSON.parse(raw) : null;
+    if (cur && cur.key === queueKey && typeof cur.startedAt === 'number') return cur.startedAt;
+  } catch {}
+  const startedAt = getNow();
+  try { sessionStorage.setItem(SESSION_KEY, JSON.stringify({ key: queueKey, startedAt })); } catch {}
+  return startedAt;
+}
+
+/** Forget the running review session (next visit starts a new summary). */
+export function endReviewSession(): void {
+  try { sessionStorage.removeItem(SESSION_KEY); } catch {}
+}
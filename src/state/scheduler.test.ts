@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { applyEarlyLateAdjust, getMeta, getReviewLog, rebalanceDueDates, schedule, setMeta } from './scheduler';
+import { getPresetConfig } from './schedulerConfig';
+import { setSchedulingPrefs } from './schedulingPrefs';
+import { learningDayKey, setClock, startOfLearningDay, startOfNextLearningDay } from './clock';
+import { getCardDue } from '../data/cardStore';
+import { at, makeCard, pinClock, resetCollection } from '../test/fixtures';
+
+const DAY = 86_400_000;
+const NOW = at(2025, 1, 8, 10); // a Wednesday
+
+beforeEach(() => {
+  resetCollection([makeCard('c1', 'new'), makeCard('c2', 'new')]);
+  // No fuzz: due dates land exactly on the computed interval
+  setSchedulingPrefs({ fuzzPercent: 0 });
+  pinClock(NOW);
+});
+
+afterEach(() => setClock(null));
+
+describe('learning day rollover', () => {
+  it('counts the hours before the rollover hour as the previous day', () => {
+    setSchedulingPrefs({ dayRolloverHour: 4 });
+    expect(learningDayKey(at(2025, 1, 8, 3, 59))).toBe('2025-01-07');
+    expect(learningDayKey(at(2025, 1, 8, 4, 0))).toBe('2025-01-08');
+    expect(startOfLearningDay(at(2025, 1, 8, 3, 59))).toBe(at(2025, 1, 7, 4));
+    expect(startOfNextLearningDay(at(2025, 1, 8, 3, 59))).toBe(at(2025, 1, 8, 4));
+  });
+
+  it('starts days at midnight with a rollover hour of 0', () => {
+    setSchedulingPrefs({ dayRolloverHour: 0 });
+    expect(learningDayKey(at(2025, 1, 8, 0, 0))).toBe('2025-01-08');
+    expect(learningDayKey(at(2025, 1, 7, 23, 59))).toBe('2025-01-07');
+  });
+
+  it('defaults to the pinned clock', () => {
+    pinClock(at(2025, 1, 8, 2));
+    expect(learningDayKey()).toBe('2025-01-07');
+    pinClock(at(2025, 1, 8, 5));
+    expect(learningDayKey()).toBe('2025-01-08');
+  });
+});
+
+describe('applyEarlyLateAdjust', () => {
+  const cfg = getPresetConfig('Standard')!; // 90 min tolerance, 0.85 early factor, 0.05/day late slope capped at 14 days
+  const due = at(2025, 1, 8, 10);
+  const iso = new Date(due).toISOString();
+
+  it('leaves the interval alone without a scheduled time or inside the tolerance window', () => {
+    expect(applyEarlyLateAdjust(cfg, 10, undefined, due)).toBe(10);
+    expect(applyEarlyLateAdjust(cfg, 10, iso, due - 90 * 60_000)).toBe(10);
+    expect(applyEarlyLateAdjust(cfg, 10, iso, due + 90 * 60_000)).toBe(10);
+  });
+
+  it('shrinks early reviews in proportion to how early they are', () => {
+    expect(applyEarlyLateAdjust(cfg, 10, iso, due - 12 * 3_600_000)).toBeCloseTo(10 * 0.85 * 0.5);
+    // Never below a tenth of the early factor
+    expect(applyEarlyLateAdjust(cfg, 10, iso, due - 5 * DAY)).toBeCloseTo(10 * 0.85 * 0.1);
+  });
+
+  it('grows late reviews by the slope, up to the day cap', () => {
+    expect(applyEarlyLateAdjust(cfg, 10, iso, due + 2 * DAY)).toBeCloseTo(10 * 1.1);
+    expect(applyEarlyLateAdjust(cfg, 10, iso, due + 30 * DAY)).toBeCloseTo(10 * (1 + 14 * 0.05));
+  });
+});
+
+describe('schedule', () => {
+  it('graduates a new card on Good and logs the review at the pinned time', () => {
+    const res = schedule('c1', 'good');
+    expect(res.prevDue).toBe('new');
+    expect(res.newMeta.state).toBe('graduated');
+    expect(res.newMeta.intervalMin).toBe(3 * 24 * 60);
+    expect(res.newDue).toBe(new Date(NOW + 3 * DAY).toISOString());
+    expect(getCardDue('c1')).toBe(res.newDue);
+    expect(getMeta('c1')?.reviewedAtISO).toBe(new Date(NOW).toISOString());
+    const log = getReviewLog();
+    expect(log).toHaveLength(1);
+    expect(log[0]).toMatchObject({ id: 'c1', grade: 'good', ts: NOW, wasNew: true });
+  });
+
+  it('keeps a failed new card on the first learning step', () => {
+    const res = schedule('c1', 'again');
+    expect(res.newMeta.state).toBe('learning');
+    expect(res.newDue).toBe(new Date(NOW + 60_000).toISOString());
+  });
+
+  it('applies the late penalty to a graduated card reviewed after its due date', () => {
+    const reviewed = NOW - 8 * DAY;
+    setMeta('c1', {
+      state: 'graduated', ease: 2.35, stability: 3, intervalMin: 3 * 24 * 60, reps: 2, lapses: 0,
+      reviewedAtISO: new Date(reviewed).toISOString(), dueISO: new Date(NOW - 5 * DAY).toISOString(),
+    });
+    const res = schedule('c1', 'good');
+    // 3 days x 2.6 (Good), then 5 days late: x (1 + 5 x 0.05)
+    expect(res.newMeta.intervalMin).toBe(Math.round(3 * 2.6 * 1.25 * 24 * 60));
+  });
+
+  it('shortens the interval of a graduated card reviewed early', () => {
+    setMeta('c1', {
+      state: 'graduated', ease: 2.35, stability: 3, intervalMin: 3 * 24 * 60, reps: 2, lapses: 0,
+      reviewedAtISO: new Date(NOW - DAY).toISOString(), dueISO: new Date(NOW + 2 * DAY).toISOString(),
+    });
+    const res = schedule('c1', 'good');
+    expect(res.newMeta.intervalMin).toBeLessThan(3 * 24 * 60);
+  });
+
+  it('counts a lapse when a graduated card is failed', () => {
+    setMeta('c1', {
+      state: 'graduated', ease: 2.35, stability: 3, intervalMin: 10 * 24 * 60, reps: 4, lapses: 1,
+      reviewedAtISO: new Date(NOW - 10 * DAY).toISOString(), dueISO: new Date(NOW).toISOString(),
+    });
+    const res = schedule('c1', 'again');
+    expect(res.newMeta.state).toBe('relearning');
+    expect(res.newMeta.lapses).toBe(2);
+  });
+
+  it('spreads cards off a lighter weekday even without fuzz', () => {
+    resetCollection(['a', 'b', 'c', 'd', 'e'].map(id => makeCard(id, 'new')));
+    // Saturday (2025-01-11, 3 days out) at half load
+    setSchedulingPrefs({ fuzzPercent: 0, loadBalance: true, weekdayLoad: [100, 100, 100, 100, 100, 100, 50] });
+    const days = ['a', 'b', 'c', 'd', 'e'].map(id => learningDayKey(Date.parse(schedule(id, 'good').newDue)));
+    const count = (key: string) => days.filter(d => d === key).length;
+    expect(count('2025-01-11')).toBe(1);
+    expect(count('2025-01-10')).toBe(2);
+    expect(count('2025-01-12')).toBe(2);
+  });
+
+  it('keeps full-capacity days exact without fuzz', () => {
+    resetCollection(['a', 'b', 'c'].map(id => makeCard(id, 'new')));
+    setSchedulingPrefs({ fuzzPercent: 0, loadBalance: true });
+    const days = ['a', 'b', 'c'].map(id => learningDayKey(Date.parse(schedule(id, 'good').newDue)));
+    expect(days).toEqual(['2025-01-11', '2025-01-11', '2025-01-11']);
+  });
+
+  it('moves a due date off a day off to the nearest open day, earlier first', () => {
+    setSchedulingPrefs({ daysOff: [{ start: '2025-01-11', end: '2025-01-11' }] });
+    const res = schedule('c1', 'good'); // 3 days: Saturday 2025-01-11
+    expect(learningDayKey(Date.parse(res.newDue))).toBe('2025-01-10');
+  });
+});
+
+describe('rebalanceDueDates', () => {
+  it('keeps future cards in the future', () => {
+    const tomorrow = new Date(NOW + DAY).toISOString();
+    resetCollection(['a', 'b', 'c'].map(id => makeCard(id, tomorrow)));
+    setSchedulingPrefs({ fuzzPercent: 5, loadBalance: true });
+    for (const id of ['a', 'b', 'c']) {
+      setMeta(id, {
+        state: 'graduated', ease: 2.5, stability: 40, intervalMin: 40 * 24 * 60, reps: 4, lapses: 0,
+        reviewedAtISO: new Date(NOW - 39 * DAY).toISOString(), dueISO: tomorrow,
+      });
+    }
+    rebalanceDueDates();
+    for (const id of ['a', 'b', 'c']) {
+      expect(Date.parse(getCardDue(id)!)).toBeGreaterThanOrEqual(startOfNextLearningDay(NOW));
+    }
+  });
+});
@@ -1,6 +1,12 @@
-import { setCardDueFlexible, getCardDue, allCards } from '../data/cardStore';
-import { getSchedulerConfig, PresetName, setSchedulerConfig } from './schedulerConfig';
+import { setCardDueFlexible, getCardDue, getCard, allCards } from '../data/cardStore';
+import { getSchedulerConfigForDeck, getPresetConfig, PresetName, SchedulerConfig } from './schedulerConfig';
 import { getChildrenOf } from '../decks';
+import type { MoveOutcome } from './moveCheck';
+import { getSchedulingPrefs, dayCapacity } from './schedulingPrefs';
+import { getDeckLimits } from './deckLimits';
+import { getMapStore, getListStore, putEntries, appendToList } from '../data/collectionDb';
+import { getNow, getRolloverHour, learningDayNumber, startOfNextLearningDay } from './clock';
+import { FsrsState, nextFsrsState, replayFsrs, fsrsStateFromHeuristic, intervalDays } from './fsrs';
 
 export type Grade = 'again' | 'hard' | 'good' | 'easy';
 
@@ -9,36 +15,29 @@ export type StudyState = 'new' | 'learning' | 'relearning' | 'graduated';
 type Meta = {
   state: StudyState;
   ease: number;            // ease factor (2.3 default)
-  stability: number;       // rough memory stability (days)
+  stability: number;       // heuristic memory stability (days); informational only
   intervalMin: number;     // last scheduled interval in minutes
   reps: number;            // total reviews
   lapses: number;          // total lapses ('again' on graduated)
   last?: Grade;            // last grade
   reviewedAtISO?: string;  // last review timestamp
   dueISO?: string;         // cached last due (derived)
+  fsrs?: FsrsState;        // FSRS memory state, kept up to date under either algorithm
 };
 
 type Store = Record<string, Meta>;
 
-const KEY = 'chessflashcards.scheduler.v2';
-const LOG_KEY = 'chessflashcards.reviewLog.v1';
-
-function load(): Store {
-  try {
-    const raw = localStorage.getItem(KEY);
-    if (!raw) return {};
-    const parsed = JSON.parse(raw);
-    return parsed && typeof parsed === 'object' ? parsed as Store : {};
-  } catch {
-    return {};
-  }
+// Records live in the collection database ('scheduler' store)
+function load(): Readonly<Store> {
+  return getMapStore<Meta>('scheduler');
 }
 
-function save(s: Store) {
-  try { localStorage.setItem(KEY, JSON.stringify(s)); } catch {}
+/** Write changed records; undefined drops a card's record. */
+function save(changes: Record<string, Meta | undefined>) {
+  putEntries('scheduler', changes);
 }
 
-type ReviewLogEntry = {
+export type ReviewLogEntry = {
   id: string;
   grade: Grade;
   ts: number;
@@ -51,14 +50,56 @@ type ReviewLogEntry = {
   state?: StudyState;
   ease?: number;
   stabilityDays?: number;
+  // play-the-move reviews
+  playedMove?: string;
+  outcome?: MoveOutcome;
+  suggestedGrade?: Grade;
+  alternativeMove?: string; // engine alternative played (accepted or retried)
+  cpLoss?: number;
+  hintLevel?: number;       // progressive hints used before answering (1-3)
+  filtered?: boolean;       // custom study session; not counted against daily limits
 };
-function appendLog(e: ReviewLogEntry) {
-  try {
-    const raw = localStorage.getItem(LOG_KEY);
-    const arr: ReviewLogEntry[] = raw ? (JSON.parse(raw) || []) : [];
-    arr.push(e);
-    localStorage.setItem(LOG_KEY, JSON.stringify(arr));
-  } catch {}
+
+export type ManualAction = 'forget' | 'set-due' | 'reposition' | 'reschedule';
+
+/** A scheduling change made by hand (Collection bulk actions). No grade; readers of grades skip these. */
+export type ManualLogEntry = {
+  id: string;
+  manual: ManualAction;
+  ts: number;
+  deck?: string;
+  prevDue?: string | 'new';
+  newDueISO?: string | 'new';
+  position?: number; // reposition: new-card order
+};
+
+function appendLog(...entries: (ReviewLogEntry | ManualLogEntry)[]) {
+  appendToList('reviewLog', ...entries);
+}
+
+function readLog(sinceTs: number): (ReviewLogEntry | ManualLogEntry)[] {
+  return getListStore<ReviewLogEntry | ManualLogEntry>('reviewLog').filter(e => e && typeof e.ts === 'number' && e.ts >= sinceTs);
+}
+
+function isManual(e: ReviewLogEntry | ManualLogEntry): e is ManualLogEntry {
+  return 'manual' in e && !!e.manual;
+}
+
+/** Review log entries at or after a timestamp (oldest first); manual changes are left out. */
+export function getReviewLog(sinceTs = 0): ReviewLogEntry[] {
+  return readLog(sinceTs).filter((e): e is ReviewLogEntry => !isManual(e));
+}
+
+/** Manual scheduling changes at or after a timestamp (oldest first). */
+export function getManualLog(sinceTs = 0): ManualLogEntry[] {
+  return readLog(sinceTs).filter(isManual);
+}
+
+/** When each forgotten card was last reset to new; reviews before that no longer count. */
+export function forgottenAt(): Map<string, number> {
+  const out = new Map<string, number>();
+  for (const e of getManualLog()) if (e.manual === 'forget') out.set(e.id, Math.max(out.get(e.id) ?? 0, e.ts));
+  return out;
 }
 
 export function getMeta(cardId: string): Meta | undefined {
@@ -67,26 +108,28 @@ export function getMeta(cardId: string): Meta | undefined {
 }
 
 export function setMeta(cardId: string, meta: Meta | undefined): void {
-  const s = load();
-  if (meta) s[cardId] = meta; else delete s[cardId];
-  save(s);
+  save({ [cardId]: meta });
+}
+
+/** Config from the preset assigned to the card's deck (or an ancestor deck). */
+function configForCard(cardId: string): SchedulerConfig {
+  return getSchedulerConfigForDeck(allCards().find(c => c.id === cardId)?.deck);
 }
 
 function clamp(n: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, n));
 }
 
-function toISOFromNow(mins: number): string {
-  const t = Date.now() + Math.round(mins * 60_000);
+function toISOFromNow(mins: number, now = getNow()): string {
+  const t = now + Math.round(mins * 60_000);
   return new Date(t).toISOString();
 }
 
 function minutesToDays(m: number): number { return m / (60 * 24); }
 function daysToMinutes(d: number): number { return d * 60 * 24; }
 
-// --- FSRS-like scheduling core ---
-function seedMeta(): Meta {
-  const cfg = getSchedulerConfig();
+// --- Heuristic scheduling core (ease multipliers; the presets) ---
+function seedMeta(cfg: SchedulerConfig): Meta {
   return {
     state: 'new',
     ease: cfg.initialEase,
@@ -97,12 +140,11 @@ function seedMeta(): Meta {
   };
 }
 
-function applyEarlyLateAdjust(baseDays: number, scheduledISO?: string): number {
-  const cfg = getSchedulerConfig();
+/** Heuristic interval (days) adjusted for reviewing before or after the scheduled time. */
+export function applyEarlyLateAdjust(cfg: SchedulerConfig, baseDays: number, scheduledISO: string | undefined, now: number): number {
   if (!scheduledISO) return baseDays;
   const sched = Date.parse(scheduledISO);
   if (!Number.isFinite(sched)) return baseDays;
-  const now = Date.now();
   const deltaMin = Math.round((now - sched) / 60_000); // negative if early
   const tol = cfg.tolerantWindowMins;
   if (Math.abs(deltaMin) <= tol) return baseDays; // no penalty within window
@@ -117,8 +159,7 @@ function applyEarlyLateAdjust(baseDays: number, scheduledISO?: string): number {
   return baseDays * penalty;
 }
 
-function nextAfterLearning(meta: Meta, grade: Grade): { days: number; ease: number; stability: number } {
-  const cfg = getSchedulerConfig();
+function nextAfterLearning(cfg: SchedulerConfig, meta: Meta, grade: Grade): { days: number; ease: number; stability: number } {
   const g = grade;
   let ease = clamp(meta.ease + (g === 'again' ? cfg.easeDelta.again : g === 'hard' ? cfg.easeDelta.hard : g === 'easy' ? cfg.easeDelta.easy : cfg.easeDelta.good), cfg.minEase, cfg.maxEase);
   // Graduating step uses configured multipliers
@@ -134,7 +175,7 @@ function nextAfterLearning(meta: Meta, grade: Grade): { days: number; ease: numb
       baseDays = cfg.graduateEasyDays;
     }
   } else {
-    // Graduated: FSRS-like growth
+    // Graduated: interval growth by grade multiplier and ease
     const prev = Math.max(0.1, minutesToDays(meta.intervalMin));
     const mult = (g === 'again') ? cfg.againMultiplier : (g === 'hard') ? cfg.hardMultiplier : (g === 'good') ? cfg.goodMultiplier : cfg.easyMultiplier;
     baseDays = prev * mult * (ease / cfg.initialEase);
@@ -146,47 +187,120 @@ function nextAfterLearning(meta: Meta, grade: Grade): { days: number; ease: numb
   return { days: baseDays, ease, stability };
 }
 
+function validFsrs(st?: FsrsState): st is FsrsState {
+  return !!st && Number.isFinite(st.difficulty) && Number.isFinite(st.stability) && st.stability > 0;
+}
+
+/**
+ * FSRS state before this review. Records from before FSRS was tracked are
+ * migrated from the heuristic fields; a missing record is rebuilt from the
+ * card's review log. Undefined means the card has never been reviewed.
+ */
+function fsrsStateBefore(cfg: SchedulerConfig, cardId: string, meta: Meta | undefined): FsrsState | undefined {
+  if (validFsrs(meta?.fsrs)) return meta!.fsrs;
+  if (meta && meta.state !== 'new') {
+    const st = fsrsStateFromHeuristic(meta, { min: cfg.minEase, max: cfg.maxEase }, cfg.fsrsWeights);
+    if (validFsrs(st)) return st;
+  }
+  const since = forgottenAt().get(cardId) ?? 0;
+  return replayFsrs(getReviewLog(since).filter(e => e.id === cardId), cfg.fsrsWeights);
+}
+
+/** Interval for the FSRS algorithm; learning/relearning cards still use the learning steps. */
+function fsrsIntervalDays(cfg: SchedulerConfig, nextState: StudyState, grade: Grade, st: FsrsState): number {
+  if (nextState === 'learning' || nextState === 'relearning') {
+    const steps = cfg.learningStepsMins.length ? cfg.learningStepsMins : [10];
+    const mins = grade === 'hard' ? (steps[1] ?? steps[0]) : steps[0];
+    return mins / (60 * 24);
+  }
+  return clamp(intervalDays(st.stability, cfg.targetRetention), 1, Math.max(1, cfg.maxIntervalDays));
+}
+
+/**
+ * Fill in FSRS state for every card that lacks it (from its heuristic record,
+ * or by replaying the review log when there is no record). Run when switching
+ * to FSRS so the first reviews don't wait on the lazy migration.
+ */
+export function migrateSchedulerToFsrs(): { migrated: number; rebuilt: number } {
+  const s = load();
+  const changes: Record<string, Meta> = {};
+  const log = getReviewLog();
+  const forgotten = forgottenAt();
+  const byCard = new Map<string, ReviewLogEntry[]>();
+  for (const e of log) {
+    if (e.ts < (forgotten.get(e.id) ?? 0)) continue;
+    const arr = byCard.get(e.id);
+    if (arr) arr.push(e); else byCard.set(e.id, [e]);
+  }
+  let migrated = 0;
+  let rebuilt = 0;
+  for (const c of allCards()) {
+    const meta = s[c.id];
+    if (validFsrs(meta?.fsrs)) continue;
+    const cfg = getSchedulerConfigForDeck(c.deck);
+    if (meta && meta.state !== 'new') {
+      const st = fsrsStateFromHeuristic(meta, { min: cfg.minEase, max: cfg.maxEase }, cfg.fsrsWeights);
+      if (validFsrs(st)) { changes[c.id] = { ...meta, fsrs: st }; migrated++; continue; }
+    }
+    const entries = byCard.get(c.id);
+    if (!entries?.length) continue;
+    const st = replayFsrs(entries, cfg.fsrsWeights);
+    if (!validFsrs(st)) continue;
+    const last = entries[entries.length - 1];
+    const base = meta || seedMeta(cfg);
+    changes[c.id] = {
+      ...base,
+      state: last.state ?? (last.grade === 'again' ? 'relearning' : 'graduated'),
+      intervalMin: last.newInt ?? base.intervalMin,
+      reps: Math.max(base.reps, entries.length),
+      lapses: Math.max(base.lapses, entries.filter(e => e.grade === 'again' && e.state === 'relearning').length),
+      last: last.grade,
+      reviewedAtISO: new Date(last.ts).toISOString(),
+      dueISO: last.newDueISO ?? base.dueISO,
+      fsrs: st,
+    };
+    rebuilt++;
+  }
+  save(changes);
+  return { migrated, rebuilt };
+}
+
 export function schedule(
   cardId: string,
   grade: Grade,
-  opts?: { durationMs?: number }
-): { prevMeta: Meta | undefined; newMeta: Meta; prevDue: string | 'new' | undefined; newDue: string } {
-  const prevMeta = getMeta(cardId) || seedMeta();
-  const prevDue = getCardDue(cardId);
-  const cfg = getSchedulerConfig();
-
-  // Determine next state and base interval
-  let nextState: StudyState = prevMeta.state;
-  if (prevMeta.state === 'new' || prevMeta.state === 'learning') {
-    if (grade === 'again') nextState = 'learning';
-    else if (grade === 'hard') nextState = 'learning';
-    else nextState = 'graduated'; // good/easy graduate
-  } else if (prevMeta.state === 'graduated') {
-    if (grade === 'again') nextState = 'relearning'; else nextState = 'graduated';
-  } else if (prevMeta.state === 'relearning') {
-    if (grade === 'again') nextState = 'relearning'; else if (grade === 'hard') nextState = 'learning'; else nextState = 'graduated';
+  opts?: {
+    durationMs?: number;
+    playedMove?: string;
+    outcome?: MoveOutcome;
+    suggestedGrade?: Grade;
+    alternativeMove?: string;
+    cpLoss?: number;
+    hintLevel?: number;
+    /** custom study: a passing grade never moves the regular due date earlier */
+    filtered?: boolean;
   }
+): { prevMeta: Meta | undefined; newMeta: Meta; prevDue: string | 'new' | undefined; newDue: string; linked: LinkedChange[] } {
+  const cfg = configForCard(cardId);
+  const storedMeta = getMeta(cardId);
+  const prevMeta = storedMeta || seedMeta(cfg);
+  const prevDue = getCardDue(cardId);
+  const prefs = getSchedulingPrefs();
 
-  const { days: rawDays, ease, stability } = nextAfterLearning(prevMeta, grade);
-  const adjustedDays = applyEarlyLateAdjust(rawDays, prevMeta.dueISO);
-  const intervalMin = Math.max(cfg.minIntervalMin, Math.round(daysToMinutes(adjustedDays) * cfg.intervalMultiplier));
-  const dueISO = toISOFromNow(intervalMin);
-
-  const reviewedAtISO = new Date().toISOString();
-  const reps = (prevMeta.reps ?? 0) + 1;
-  const lapses = (prevMeta.lapses ?? 0) + ((prevMeta.state === 'graduated' && grade === 'again') ? 1 : 0);
+  const now = getNow();
+  let newMeta = spreadDue(nextMeta(cfg, prevMeta, grade, fsrsStateBefore(cfg, cardId, storedMeta), now), now, dueLoad(cardId));
+  if (prefs.lineageCapChildren) newMeta = capToParent(cardId, newMeta);
+  const { reps, reviewedAtISO, fsrs } = newMeta;
+  let intervalMin = newMeta.intervalMin;
+  let dueISO = newMeta.dueISO!;
 
-  const newMeta: Meta = {
-    state: nextState,
-    ease,
-    stability,
-    intervalMin,
-    reps,
-    lapses,
-    last: grade,
-    reviewedAtISO,
-    dueISO,
-  };
+  // Custom study reviews cards early; when a pass would shorten the regular
+  // schedule, keep the existing interval and only record the review.
+  const prevDueMs = typeof prevDue === 'string' && prevDue !== 'new' ? Date.parse(prevDue) : NaN;
+  if (opts?.filtered && grade !== 'again' && Number.isFinite(prevDueMs) && prevDueMs > Date.parse(dueISO)) {
+    intervalMin = prevMeta.intervalMin;
+    dueISO = prevDue as string;
+    newMeta = { ...prevMeta, reps, last: grade, reviewedAtISO, dueISO, fsrs };
+  }
   setMeta(cardId, newMeta);
   // Reflect in in-memory cards via overrides so Review queue updates immediately
   setCardDueFlexible(cardId, dueISO);
@@ -194,12 +308,15 @@ export function schedule(
   try {
     (window as any).cards?.setDue?.(cardId, dueISO).catch(() => {});
   } catch {}
+  const linked = prefs.lineagePullChildren && grade === 'again' && !opts?.filtered
+    ? pullChildrenForward(cardId, dueISO)
+    : [];
   // Append to review log for stats (extended entry)
   const deckId = (allCards().find(c => c.id === cardId)?.deck) || undefined;
   appendLog({
     id: cardId,
     grade,
-    ts: Date.now(),
+    ts: now,
     deck: deckId,
     prevInt: prevMeta?.intervalMin ?? 0,
     newInt: intervalMin,
@@ -208,10 +325,223 @@ export function schedule(
     durationMs: opts?.durationMs,
     state: newMeta.state,
     ease: newMeta.ease,
-    stabilityDays: newMeta.stability,
+    stabilityDays: cfg.algorithm === 'fsrs' ? newMeta.fsrs?.stability : newMeta.stability,
+    playedMove: opts?.playedMove,
+    outcome: opts?.outcome,
+    suggestedGrade: opts?.suggestedGrade,
+    alternativeMove: opts?.alternativeMove,
+    cpLoss: opts?.cpLoss,
+    hintLevel: opts?.hintLevel || undefined,
+    filtered: opts?.filtered || undefined,
   });
 
-  return { prevMeta, newMeta, prevDue, newDue: dueISO };
+  return { prevMeta, newMeta, prevDue, newDue: dueISO, linked };
+}
+
+// --- Lineage rules ---
+// Opening knowledge is hierarchical: a child card's position is only reached
+// through its parent's answer, so the parent's schedule bounds the child's.
+
+/** A card changed as a side effect of reviewing another (kept for undo). */
+export type LinkedChange = { cardId: string; prevMeta: Meta | undefined; prevDue: string | 'new' | undefined };
+
+/** A graduated child can't be scheduled further out than its graduated parent. */
+function capToParent(cardId: string, meta: Meta): Meta {
+  const parentId = allCards().find(c => c.id === cardId)?.fields.parent;
+  const parent = parentId ? getMeta(parentId) : undefined;
+  if (!parent || parent.state !== 'graduated' || meta.state !== 'graduated') return meta;
+  const cap = Math.max(daysToMinutes(1), parent.intervalMin);
+  if (meta.intervalMin <= cap) return meta;
+  const reviewed = meta.reviewedAtISO ? Date.parse(meta.reviewedAtISO) : getNow();
+  return { ...meta, intervalMin: cap, dueISO: toISOFromNow(cap, reviewed) };
+}
+
+/** After a parent lapses, immature children due later are brought forward to the parent's new due date. */
+function pullChildrenForward(parentId: string, parentDueISO: string): LinkedChange[] {
+  const byId = new Map(allCards().map(c => [c.id, c]));
+  const parentDue = Date.parse(parentDueISO);
+  const out: LinkedChange[] = [];
+  for (const childId of byId.get(parentId)?.fields.children || []) {
+    const child = byId.get(childId);
+    if (!child || (child.tags || []).includes('Archived')) continue;
+    const due = getCardDue(childId);
+    const dueMs = due && due !== 'new' ? Date.parse(due) : NaN;
+    if (!Number.isFinite(dueMs) || dueMs <= parentDue) continue;
+    const meta = getMeta(childId);
+    if (meta && meta.intervalMin >= daysToMinutes(getDeckLimits(child.deck).matureThresholdDays)) continue;
+    out.push({ cardId: childId, prevMeta: meta, prevDue: due });
+    if (meta) setMeta(childId, { ...meta, dueISO: parentDueISO });
+    setCardDueFlexible(childId, parentDueISO);
+    try {
+      (window as any).cards?.setDue?.(childId, parentDueISO).catch(() => {});
+    } catch {}
+  }
+  return out;
+}
+
+// --- Fuzz and load balancing ---
+// Deterministic intervals put cards reviewed (or rescheduled) together on the
+// same day forever; spreading each new due date over a small window evens out
+// the daily load.
+
+/** Cards due per learning day (learningDayNumber). */
+type DueLoad = Map<number, number>;
+
+function dueLoad(excludeCardId?: string): DueLoad {
+  const load: DueLoad = new Map();
+  const hour = getRolloverHour();
+  for (const c of allCards()) {
+    if (c.id === excludeCardId || !c.due || c.due === 'new') continue;
+    const t = Date.parse(c.due);
+    if (!Number.isFinite(t)) continue;
+    const day = learningDayNumber(t, hour);
+    load.set(day, (load.get(day) ?? 0) + 1);
+  }
+  return load;
+}
+
+/**
+ * Day offset (from `target`) for a due date `days` after the review: within
+ * the fuzz window, skipping days off, and — with load balancing — on the day
+ * whose load is lowest relative to its weekday capacity (otherwise at random,
+ * weighted by capacity). A lighter weekday always gets a window of at least a
+ * day either side so it can shed cards, fuzz or not. When days off block the
+ * whole window the nearest open day is used, earlier first (review before
+ * leaving). Offsets below `minOffset` are never picked. Null when nothing
+ * should move. Records the pick in `load`.
+ */
+function pickDueOffset(target: number, days: number, load: DueLoad, minOffset = -Infinity): number | null {
+  const prefs = getSchedulingPrefs();
+  if (days < 1) return null; // learning steps stay put
+  const capacity = (off: number) => dayCapacity(target + off * 86_400_000, prefs);
+  const fuzzWindow = days >= 3 && prefs.fuzzPercent > 0 ? Math.max(1, Math.round(days * prefs.fuzzPercent / 100)) : 0;
+  const lighter = capacity(0) > 0 && capacity(0) < 1;
+  const window = lighter ? Math.max(1, fuzzWindow) : fuzzWindow;
+  // Never pull a card in to less than a day
+  let offsets: number[] = [];
+  for (let off = -window; off <= window; off++) {
+    if (days + off >= 1 && off >= minOffset && capacity(off) > 0) offsets.push(off);
+  }
+  for (let k = 1; !offsets.length && k <= 90; k++) {
+    const earlier = -(window + k);
+    if (days + earlier >= 1 && earlier >= minOffset && capacity(earlier) > 0) offsets = [earlier];
+    else if (capacity(window + k) > 0) offsets = [window + k];
+  }
+  if (!offsets.length) return null;
+  let pick: number;
+  if (prefs.loadBalance || window === 0) {
+    const weighted = (off: number) => (load.get(learningDayNumber(target + off * 86_400_000, prefs.dayRolloverHour)) ?? 0) / capacity(off);
+    const least = Math.min(...offsets.map(weighted));
+    const best = offsets.filter(off => weighted(off) === least);
+    const closest = Math.min(...best.map(Math.abs));
+    const ties = best.filter(off => Math.abs(off) === closest);
+    pick = ties[Math.floor(Math.random() * ties.length)];
+  } else {
+    let r = Math.random() * offsets.reduce((n, off) => n + capacity(off), 0);
+    pick = offsets.find(off => (r -= capacity(off)) < 0) ?? offsets[offsets.length - 1];
+  }
+  const day = learningDayNumber(target + pick * 86_400_000, prefs.dayRolloverHour);
+  load.set(day, (load.get(day) ?? 0) + 1);
+  return pick;
+}
+
+/** Move a freshly scheduled due date (fuzz, load balancing, days off). */
+function spreadDue(meta: Meta, now: number, load: DueLoad): Meta {
+  const target = meta.dueISO ? Date.parse(meta.dueISO) : NaN;
+  if (!Number.isFinite(target)) return meta;
+  const pick = pickDueOffset(target, meta.intervalMin / (60 * 24), load);
+  if (!pick) return meta;
+  const due = target + pick * 86_400_000;
+  return { ...meta, intervalMin: meta.intervalMin + pick * 60 * 24, dueISO: new Date(due).toISOString() };
+}
+
+/**
+ * Re-place every future due date (from tomorrow on) around days off and
+ * weekday loads, earliest first. Intervals are left as scheduled; only the
+ * due dates move, and never to before tomorrow or the card's last review.
+ * Returns how many cards moved.
+ */
+export function rebalanceDueDates(): number {
+  const now = getNow();
+  const tomorrow = startOfNextLearningDay(now);
+  const future = allCards()
+    .filter(c => !(c.tags || []).includes('Archived') && c.due && c.due !== 'new' && Date.parse(c.due) >= tomorrow)
+    .sort((a, b) => Date.parse(a.due!) - Date.parse(b.due!));
+  const load = dueLoad();
+  for (const c of future) {
+    const day = learningDayNumber(Date.parse(c.due!));
+    load.set(day, Math.max(0, (load.get(day) ?? 0) - 1));
+  }
+  let moved = 0;
+  for (const c of future) {
+    const target = Date.parse(c.due!);
+    const meta = getMeta(c.id);
+    const days = meta?.intervalMin ? meta.intervalMin / (60 * 24) : (target - now) / 86_400_000;
+    const reviewedAt = meta?.reviewedAtISO ? Date.parse(meta.reviewedAtISO) : NaN;
+    const earliest = Math.max(tomorrow, Number.isFinite(reviewedAt) ? reviewedAt : -Infinity);
+    const pick = pickDueOffset(target, days, load, Math.ceil((earliest - target) / 86_400_000));
+    if (!pick) {
+      if (pick === null) { const day = learningDayNumber(target); load.set(day, (load.get(day) ?? 0) + 1); }
+      continue;
+    }
+    const dueISO = new Date(target + pick * 86_400_000).toISOString();
+    if (meta) setMeta(c.id, { ...meta, dueISO });
+    writeDue(c.id, dueISO);
+    moved++;
+  }
+  return moved;
+}
+
+/** The scheduler math for one review at `now`, without touching any stores. */
+function nextMeta(cfg: SchedulerConfig, prevMeta: Meta, grade: Grade, fsrsBefore: FsrsState | undefined, now: number): Meta {
+  // Determine next state and base interval
+  let nextState: StudyState = prevMeta.state;
+  if (prevMeta.state === 'new' || prevMeta.state === 'learning') {
+    if (grade === 'again') nextState = 'learning';
+    else if (grade === 'hard') nextState = 'learning';
+    else nextState = 'graduated'; // good/easy graduate
+  } else if (prevMeta.state === 'graduated') {
+    if (grade === 'again') nextState = 'relearning'; else nextState = 'graduated';
+  } else if (prevMeta.state === 'relearning') {
+    if (grade === 'again') nextState = 'relearning'; else if (grade === 'hard') nextState = 'learning'; else nextState = 'graduated';
+  }
+
+  const { days: rawDays, ease, stability } = nextAfterLearning(cfg, prevMeta, grade);
+
+  // FSRS memory state is tracked under both algorithms so switching is lossless
+  const lastReviewMs = prevMeta.reviewedAtISO ? Date.parse(prevMeta.reviewedAtISO) : NaN;
+  const elapsedDays = Number.isFinite(lastReviewMs) ? Math.max(0, (now - lastReviewMs) / 86_400_000) : 0;
+  const fsrs = nextFsrsState(fsrsBefore, grade, elapsedDays, cfg.fsrsWeights);
+
+  // FSRS already accounts for early/late reviews through retrievability
+  const adjustedDays = cfg.algorithm === 'fsrs'
+    ? fsrsIntervalDays(cfg, nextState, grade, fsrs)
+    : applyEarlyLateAdjust(cfg, rawDays, prevMeta.dueISO, now);
+  const intervalMin = Math.max(cfg.minIntervalMin, Math.round(daysToMinutes(adjustedDays) * cfg.intervalMultiplier));
+
+  return {
+    state: nextState,
+    ease,
+    stability,
+    intervalMin,
+    reps: (prevMeta.reps ?? 0) + 1,
+    lapses: (prevMeta.lapses ?? 0) + ((prevMeta.state === 'graduated' && grade === 'again') ? 1 : 0),
+    last: grade,
+    reviewedAtISO: new Date(now).toISOString(),
+    dueISO: toISOFromNow(intervalMin, now),
+    fsrs,
+  };
+}
+
+/**
+ * Outcome of a hypothetical review at `now` (for forecasts). Same math as
+ * schedule(), but FSRS state missing from the record is estimated from the
+ * heuristic fields rather than replayed from the log.
+ */
+export function simulateReview(cfg: SchedulerConfig, meta: Meta | undefined, grade: Grade, now: number): Meta {
+  let before: FsrsState | undefined = validFsrs(meta?.fsrs) ? meta!.fsrs : undefined;
+  if (!before && meta && meta.state !== 'new') before = fsrsStateFromHeuristic(meta, { min: cfg.minEase, max: cfg.maxEase }, cfg.fsrsWeights);
+  return nextMeta(cfg, meta || seedMeta(cfg), grade, before, now);
 }
 
 /** Restore exact previous meta (for undo). */
@@ -226,16 +556,54 @@ export function restore(cardId: string, meta: Meta | undefined, prevDue: string
 export type SchedulerMeta = Meta;
 
 // --- Batch tools ---
-export function rescheduleCardNow(cardId: string, preset?: PresetName): void {
-  if (preset) setSchedulerConfig({ preset });
-  const meta = getMeta(cardId) || seedMeta();
-  const cfg = getSchedulerConfig();
+// Manual changes made outside a review. Each is recorded in the review log as
+// a ManualLogEntry so the card's history shows it.
+
+function writeDue(cardId: string, due: string | 'new'): void {
+  setCardDueFlexible(cardId, due);
+  try {
+    (window as any).cards?.setDue?.(cardId, due).catch(() => {});
+  } catch {}
+}
+
+function manualEntry(cardId: string, manual: ManualAction, prevDue: string | 'new' | undefined, newDueISO?: string | 'new'): ManualLogEntry {
+  return { id: cardId, manual, ts: getNow(), deck: getCard(cardId)?.deck, prevDue, newDueISO };
+}
+
+function rescheduleOne(cardId: string, preset: PresetName | undefined, load: DueLoad | undefined): ManualLogEntry {
+  const cfg = (preset && getPresetConfig(preset)) || configForCard(cardId);
+  const meta = getMeta(cardId) || seedMeta(cfg);
+  const oldDue = getCardDue(cardId);
+  if (load && oldDue && oldDue !== 'new' && Number.isFinite(Date.parse(oldDue))) {
+    const day = learningDayNumber(Date.parse(oldDue));
+    load.set(day, Math.max(0, (load.get(day) ?? 0) - 1));
+  }
   // Treat as immediate review with 'good' to seed schedule if new
-  const intervalMin = Math.max(cfg.minIntervalMin, Math.round(daysToMinutes(cfg.seedGoodDays) * cfg.intervalMultiplier));
-  const dueISO = toISOFromNow(intervalMin);
-  const next: Meta = { ...meta, state: 'learning', intervalMin, dueISO, reviewedAtISO: new Date().toISOString(), last: 'good', reps: (meta.reps||0) + 1 };
+  const now = getNow();
+  const seeded = Math.max(cfg.minIntervalMin, Math.round(daysToMinutes(cfg.seedGoodDays) * cfg.intervalMultiplier));
+  const next = spreadDue(
+    { ...meta, state: 'learning', intervalMin: seeded, dueISO: toISOFromNow(seeded, now), reviewedAtISO: new Date(now).toISOString(), last: 'good', reps: (meta.reps||0) + 1 },
+    now,
+    load || dueLoad(cardId),
+  );
   setMeta(cardId, next);
-  setCardDueFlexible(cardId, dueISO);
+  writeDue(cardId, next.dueISO!);
+  return manualEntry(cardId, 'reschedule', oldDue, next.dueISO);
+}
+
+/**
+ * Re-seed a card's due date from its deck's preset, or from `preset` when given.
+ * Batch callers pass one shared `load` so the cards spread out over the window.
+ */
+export function rescheduleCardNow(cardId: string, preset?: PresetName, load?: DueLoad): void {
+  appendLog(rescheduleOne(cardId, preset, load));
+}
+
+/** Re-seed several cards from their decks' presets, spread over the fuzz window. */
+export function rescheduleCards(cardIds: string[], preset?: PresetName): number {
+  const load = dueLoad();
+  appendLog(...cardIds.map(id => rescheduleOne(id, preset, load)));
+  return cardIds.length;
 }
 
 export function rescheduleCardsInDeck(deckId: string, includeDesc = true): number {
@@ -247,7 +615,83 @@ export function rescheduleCardsInDeck(deckId: string, includeDesc = true): numbe
       for (const ch of getChildrenOf(cur)) { if (!ids.has(ch.id)) { ids.add(ch.id); stack.push(ch.id); } }
     }
   }
-  const cards = allCards().filter(c => ids.has(c.deck));
-  for (const c of cards) rescheduleCardNow(c.id);
-  return cards.length;
+  return rescheduleCards(allCards().filter(c => ids.has(c.deck)).map(c => c.id));
+}
+
+/**
+ * Reset cards to new: the scheduling record is dropped, and the FSRS state
+ * and leech count start over from the reset (earlier reviews stay in the log).
+ */
+export function forgetCards(cardIds: string[]): number {
+  const changes: Record<string, undefined> = {};
+  const entries: ManualLogEntry[] = [];
+  for (const id of cardIds) {
+    if (!getCard(id)) continue;
+    const prevDue = getCardDue(id);
+    changes[id] = undefined;
+    writeDue(id, 'new');
+    entries.push(manualEntry(id, 'forget', prevDue, 'new'));
+  }
+  save(changes);
+  savePositions(changes);
+  appendLog(...entries);
+  return entries.length;
+}
+
+/**
+ * Make cards due on a random day between `minDays` and `maxDays` from now
+ * (inclusive). Reviewed cards keep their interval; new cards graduate with
+ * the chosen number of days as their interval.
+ */
+export function setDueInDays(cardIds: string[], minDays: number, maxDays: number): number {
+  const lo = Math.max(0, Math.floor(Math.min(minDays, maxDays)));
+  const hi = Math.max(lo, Math.floor(Math.max(minDays, maxDays)));
+  const s = load();
+  const changes: Record<string, Meta> = {};
+  const now = getNow();
+  const entries: ManualLogEntry[] = [];
+  for (const id of cardIds) {
+    if (!getCard(id)) continue;
+    const prevDue = getCardDue(id);
+    const days = lo + Math.floor(Math.random() * (hi - lo + 1));
+    const dueISO = toISOFromNow(daysToMinutes(days), now);
+    const cur = s[id];
+    changes[id] = cur && cur.state !== 'new'
+      ? { ...cur, dueISO }
+      : { ...(cur || seedMeta(configForCard(id))), state: 'graduated', intervalMin: daysToMinutes(Math.max(1, days)), dueISO };
+    writeDue(id, dueISO);
+    entries.push(manualEntry(id, 'set-due', prevDue, dueISO));
+  }
+  save(changes);
+  appendLog(...entries);
+  return entries.length;
+}
+
+function savePositions(changes: Record<string, number | undefined>) {
+  putEntries('newCardOrder', changes);
+}
+
+/** Introduction order set by hand for new cards (lower comes first). */
+export function getNewCardPositions(): Readonly<Record<string, number>> {
+  return getMapStore<number>('newCardOrder');
+}
+
+/**
+ * Give new cards an introduction order: the first id gets `start`, the next
+ * start + step, and so on. Cards that aren't new are skipped. Positioned new
+ * cards are introduced before the rest, whatever the new-card pick order.
+ */
+export function repositionNewCards(cardIds: string[], start: number, step = 1): number {
+  const positions: Record<string, number> = {};
+  const entries: ManualLogEntry[] = [];
+  let pos = Math.floor(start);
+  for (const id of cardIds) {
+    if (getCardDue(id) !== 'new') continue;
+    positions[id] = pos;
+    entries.push({ ...manualEntry(id, 'reposition', 'new', 'new'), position: pos });
+    pos += step;
+  }
+  savePositions(positions);
+  appendLog(...entries);
+  return entries.length;
 }
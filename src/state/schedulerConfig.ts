@@ -1,7 +1,23 @@
-export type PresetName = 'Beginner' | 'Standard' | 'Aggressive';
+import { FSRS_DEFAULT_WEIGHTS } from './fsrs';
+import { getDeckById } from '../decks';
+import { getMapStore, putEntries, putEntry } from '../data/collectionDb';
+
+export type BuiltinPresetName = 'Beginner' | 'Standard' | 'Aggressive';
+/** A built-in preset or the name of a saved custom preset */
+export type PresetName = string;
+
+/** 'heuristic': ease multipliers (the presets); 'fsrs': the FSRS memory model */
+export type SchedulerAlgorithm = 'heuristic' | 'fsrs';
 
 export type SchedulerConfig = {
   preset: PresetName;
+  algorithm: SchedulerAlgorithm;
+
+  // FSRS
+  targetRetention: number;     // desired recall probability at the due date (0.7..0.99)
+  fsrsWeights: number[];       // w0..w18
+  maxIntervalDays: number;
+
   // Ease
   initialEase: number; // EF start
   minEase: number;
@@ -39,9 +55,29 @@ export type SchedulerConfig = {
   minIntervalMin: number;      // floor minutes
 };
 
-const KEY = 'chessflashcards.scheduler.config.v1';
+// The global config lives in the collection database ('settings' store, this key);
+// custom presets in its 'customPresets' store, keyed by name
+const CONFIG_KEY = 'schedulerConfig';
+
+/** A user-saved preset; unlike the built-ins it carries its own algorithm settings. */
+export type CustomPreset = {
+  name: string;
+  config: Omit<SchedulerConfig, 'preset'>;
+  createdAt: string;
+};
+
+type AlgorithmSettings = Pick<SchedulerConfig, 'algorithm' | 'targetRetention' | 'fsrsWeights' | 'maxIntervalDays'>;
+
+const ALGORITHM_DEFAULTS: AlgorithmSettings = {
+  algorithm: 'heuristic',
+  targetRetention: 0.9,
+  fsrsWeights: FSRS_DEFAULT_WEIGHTS,
+  maxIntervalDays: 36500,
+};
+
+const BUILTIN_PRESETS: BuiltinPresetName[] = ['Beginner', 'Standard', 'Aggressive'];
 
-const PRESETS: Record<PresetName, Omit<SchedulerConfig, 'preset'>> = {
+const PRESETS: Record<BuiltinPresetName, Omit<SchedulerConfig, 'preset' | keyof AlgorithmSettings>> = {
   Beginner: {
     initialEase: 2.5,
     minEase: 1.3,
@@ -137,30 +173,137 @@ const PRESETS: Record<PresetName, Omit<SchedulerConfig, 'preset'>> = {
   },
 };
 
+export function isBuiltinPreset(name: string): name is BuiltinPresetName {
+  return (BUILTIN_PRESETS as string[]).includes(name);
+}
+
+/** Custom presets, oldest first. */
+export function getCustomPresets(): CustomPreset[] {
+  return Object.values(getMapStore<CustomPreset>('customPresets'))
+    .filter(p => p && typeof p.name === 'string' && p.config)
+    .sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''));
+}
+
+/** Save (or overwrite) a custom preset. Built-in names are reserved. */
+export function saveCustomPreset(name: string, config: Omit<SchedulerConfig, 'preset'>): CustomPreset {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Preset name is required');
+  if (isBuiltinPreset(trimmed)) throw new Error(`"${trimmed}" is a built-in preset`);
+  const { preset: _drop, ...rest } = config as SchedulerConfig;
+  const entry: CustomPreset = { name: trimmed, config: rest, createdAt: new Date().toISOString() };
+  putEntry('customPresets', trimmed, entry);
+  return entry;
+}
+
+/** Apply a patch to a custom preset's config. */
+export function updateCustomPreset(name: string, patch: Partial<SchedulerConfig>): SchedulerConfig {
+  const cur = getCustomPresets().find(p => p.name === name);
+  if (!cur) throw new Error(`No custom preset named "${name}"`);
+  const { preset: _drop, ...rest } = patch;
+  const next: CustomPreset = { ...cur, config: { ...cur.config, ...rest } };
+  putEntry('customPresets', name, next);
+  return { ...next.config, preset: name } as SchedulerConfig;
+}
+
+/** Delete a custom preset; decks assigned to it fall back to their parent's preset. */
+export function deleteCustomPreset(name: string): void {
+  putEntry('customPresets', name, undefined);
+  const cleared: Record<string, undefined> = {};
+  for (const [deckId, p] of Object.entries(loadDeckPresets())) {
+    if (p === name) cleared[deckId] = undefined;
+  }
+  putEntries('deckPresets', cleared);
+}
+
+/** Save a copy of a preset (or of the global config when `from` is null) under a new name. */
+export function cloneSchedulerPreset(from: PresetName | null, name: string): CustomPreset {
+  const src = from ? getPresetConfig(from) : getSchedulerConfig();
+  if (!src) throw new Error(`No preset named "${from}"`);
+  return saveCustomPreset(name, src);
+}
+
 function defaults(preset: PresetName = 'Standard'): SchedulerConfig {
-  return { preset, ...PRESETS[preset] };
+  if (isBuiltinPreset(preset)) return { preset, ...ALGORITHM_DEFAULTS, ...PRESETS[preset] };
+  const custom = getCustomPresets().find(p => p.name === preset);
+  if (!custom) return defaults('Standard');
+  return { ...defaults('Standard'), ...custom.config, preset };
 }
 
 export function getSchedulerConfig(): SchedulerConfig {
-  try {
-    const raw = localStorage.getItem(KEY);
-    if (!raw) return defaults('Standard');
-    const parsed = JSON.parse(raw);
-    const presetName: PresetName = parsed?.preset || 'Standard';
-    return { ...defaults(presetName), ...(parsed || {}) };
-  } catch {
-    return defaults('Standard');
-  }
+  const stored = getMapStore<Partial<SchedulerConfig>>('settings')[CONFIG_KEY];
+  if (!stored || typeof stored !== 'object') return defaults('Standard');
+  return { ...defaults(stored.preset || 'Standard'), ...stored };
 }
 
 export function setSchedulerConfig(patch: Partial<SchedulerConfig> & { preset?: PresetName }): SchedulerConfig {
   const cur = getSchedulerConfig();
   const next = { ...cur, ...patch } as SchedulerConfig;
-  try { localStorage.setItem(KEY, JSON.stringify(next)); } catch {}
+  putEntry('settings', CONFIG_KEY, next);
   return next;
 }
 
+function algorithmSettings(cfg: SchedulerConfig): AlgorithmSettings {
+  return {
+    algorithm: cfg.algorithm,
+    targetRetention: cfg.targetRetention,
+    fsrsWeights: cfg.fsrsWeights,
+    maxIntervalDays: cfg.maxIntervalDays,
+  };
+}
+
+/** Full config for a named preset; built-ins take the algorithm settings from the global config. */
+export function getPresetConfig(name: PresetName): SchedulerConfig | null {
+  if (isBuiltinPreset(name)) return { ...defaults(name), ...algorithmSettings(getSchedulerConfig()) };
+  return getCustomPresets().some(p => p.name === name) ? defaults(name) : null;
+}
+
+/**
+ * Built-in presets tune the heuristic; the algorithm choice and FSRS settings
+ * carry over from the current config. Custom presets follow, as saved.
+ */
 export function getPresets(): { name: PresetName; config: SchedulerConfig }[] {
-  return (['Beginner','Standard','Aggressive'] as PresetName[]).map(p => ({ name: p, config: defaults(p) }));
+  const keep = algorithmSettings(getSchedulerConfig());
+  return [
+    ...BUILTIN_PRESETS.map(p => ({ name: p, config: { ...defaults(p), ...keep } })),
+    ...getCustomPresets().map(p => ({ name: p.name, config: defaults(p.name) })),
+  ];
+}
+
+
+// ---- Per-deck presets ----
+
+// deckId -> preset name, kept in the collection database
+function loadDeckPresets(): Readonly<Record<string, PresetName>> {
+  return getMapStore<PresetName>('deckPresets');
+}
+
+/** The preset assigned directly to a deck (not inherited), if any. */
+export function getAssignedDeckPreset(deckId: string): PresetName | null {
+  return loadDeckPresets()[deckId] ?? null;
+}
+
+/** Assign a preset to a deck and its sub-decks; null clears it so the deck inherits from its parent. */
+export function setDeckPreset(deckId: string, name: PresetName | null): void {
+  putEntry('deckPresets', deckId, name ?? undefined);
 }
 
+/**
+ * Preset in effect for a deck: its own assignment or the nearest ancestor's.
+ * Null means no deck in the chain has one and the global config applies.
+ */
+export function resolveDeckPreset(deckId?: string | null): { name: PresetName; deckId: string } | null {
+  const s = loadDeckPresets();
+  let cur = getDeckById(deckId);
+  while (cur) {
+    const name = s[cur.id];
+    if (name && getPresetConfig(name)) return { name, deckId: cur.id };
+    cur = getDeckById(cur.parentId);
+  }
+  return null;
+}
+
+/** Scheduler config for cards in a deck (falls back to the global config). */
+export function getSchedulerConfigForDeck(deckId?: string | null): SchedulerConfig {
+  const resolved = resolveDeckPreset(deckId);
+  return (resolved && getPresetConfig(resolved.name)) || getSchedulerConfig();
+}
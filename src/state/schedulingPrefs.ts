@@ -1,18 +1,46 @@
+import { learningDayKey, learningWeekday } from './clock';
+import { getMapStore, putEntry } from '../data/collectionDb';
+
 export type NewVsReviewOrder = 'new-first' | 'review-first' | 'interleave';
 
-export type NewCardPick = 'parent-longest-interval' | 'newest-created-first' | 'random';
+export type NewCardPick = 'parent-longest-interval' | 'newest-created-first' | 'likely-reply-first' | 'random';
 
 export type ReviewOrder = 'due-date' | 'random';
 
+/** Inclusive range of local dates (YYYY-MM-DD) with no reviews scheduled */
+export type DaysOff = { start: string; end: string; label?: string };
+
 export type CardSchedulingPrefs = {
   newVsReviewOrder: NewVsReviewOrder;
   interleaveRatio: number; // 1 new per N reviews when interleaving
   newPick: NewCardPick;
   reviewOrder: ReviewOrder;
   groupByDeck: boolean;
+  // Blitz review: per-card clock; running out grades Again, a fast correct move grades Easy
+  blitzTimeLimitSec: number;
+  blitzEasyUnderSec: number;
+  // Due-date spread for intervals of 3+ days: random offset of up to ±fuzzPercent
+  // of the interval (at least a day); with loadBalance, the least-loaded day in that window
+  fuzzPercent: number;
+  loadBalance: boolean;
+  // Lineage rules (cards linked through fields.parent / fields.children)
+  lineagePullChildren: boolean; // failing a parent brings its immature children due with it
+  lineageCapChildren: boolean;  // a child's interval never grows past its parent's
+  lineageGateNew: boolean;      // new children wait until the parent's interval reaches lineageGateDays
+  lineageGateDays: number;
+  // Review load per weekday in percent, Sunday first (0 = no reviews that day)
+  weekdayLoad: number[];
+  daysOff: DaysOff[];
+  // Bury until tomorrow once a card is reviewed: cards sharing its parent, and
+  // cards whose review position is the same (reached by another move order)
+  burySiblings: boolean;
+  buryTranspositions: boolean;
+  // Hour (0-23) a new learning day starts; reviews before it count for the previous day
+  dayRolloverHour: number;
 };
 
-const KEY = 'chessflashcards.cardScheduling.v1';
+// Stored in the collection database ('settings' store, this key)
+const PREFS_KEY = 'schedulingPrefs';
 
 export const DEFAULT_SCHEDULING_PREFS: CardSchedulingPrefs = {
   // Default 1: review new cards first each day
@@ -23,19 +51,39 @@ export const DEFAULT_SCHEDULING_PREFS: CardSchedulingPrefs = {
   // Default 3: for non-new cards, order by due date (earliest first)
   reviewOrder: 'due-date',
   groupByDeck: true,
+  blitzTimeLimitSec: 10,
+  blitzEasyUnderSec: 3,
+  fuzzPercent: 5,
+  loadBalance: true,
+  lineagePullChildren: false,
+  lineageCapChildren: false,
+  lineageGateNew: false,
+  lineageGateDays: 7,
+  weekdayLoad: [100, 100, 100, 100, 100, 100, 100],
+  daysOff: [],
+  burySiblings: false,
+  buryTranspositions: false,
+  dayRolloverHour: 4,
 };
 
 export function getSchedulingPrefs(): CardSchedulingPrefs {
   try {
-    const raw = localStorage.getItem(KEY);
-    if (!raw) return DEFAULT_SCHEDULING_PREFS;
-    const parsed = JSON.parse(raw) || {};
+    const parsed = getMapStore<Partial<CardSchedulingPrefs>>('settings')[PREFS_KEY];
+    if (!parsed || typeof parsed !== 'object') return DEFAULT_SCHEDULING_PREFS;
     const next = { ...DEFAULT_SCHEDULING_PREFS, ...parsed } as CardSchedulingPrefs;
     // sanitize unknown values from older versions
-    const validNew: NewCardPick[] = ['parent-longest-interval','newest-created-first','random'];
+    const validNew: NewCardPick[] = ['parent-longest-interval','newest-created-first','likely-reply-first','random'];
     const validRev: ReviewOrder[] = ['due-date','random'];
     if (!validNew.includes(next.newPick as any)) next.newPick = DEFAULT_SCHEDULING_PREFS.newPick;
     if (!validRev.includes(next.reviewOrder as any)) next.reviewOrder = DEFAULT_SCHEDULING_PREFS.reviewOrder;
+    if (!(next.blitzTimeLimitSec > 0)) next.blitzTimeLimitSec = DEFAULT_SCHEDULING_PREFS.blitzTimeLimitSec;
+    if (!(next.blitzEasyUnderSec >= 0)) next.blitzEasyUnderSec = DEFAULT_SCHEDULING_PREFS.blitzEasyUnderSec;
+    if (!(next.fuzzPercent >= 0 && next.fuzzPercent <= 25)) next.fuzzPercent = DEFAULT_SCHEDULING_PREFS.fuzzPercent;
+    if (!(next.lineageGateDays >= 0)) next.lineageGateDays = DEFAULT_SCHEDULING_PREFS.lineageGateDays;
+    if (!Array.isArray(next.weekdayLoad) || next.weekdayLoad.length !== 7 || !next.weekdayLoad.every(v => v >= 0 && v <= 100)) next.weekdayLoad = DEFAULT_SCHEDULING_PREFS.weekdayLoad;
+    if (!(Number.isInteger(next.dayRolloverHour) && next.dayRolloverHour >= 0 && next.dayRolloverHour <= 23)) next.dayRolloverHour = DEFAULT_SCHEDULING_PREFS.dayRolloverHour;
+    if (!Array.isArray(next.daysOff)) next.daysOff = [];
+    next.daysOff = next.daysOff.filter(r => r && typeof r.start === 'string' && typeof r.end === 'string' && r.start <= r.end);
     return next;
   } catch {
     return DEFAULT_SCHEDULING_PREFS;
@@ -45,6 +93,16 @@ export function getSchedulingPrefs(): CardSchedulingPrefs {
 export function setSchedulingPrefs(patch: Partial<CardSchedulingPrefs>): CardSchedulingPrefs {
   const cur = getSchedulingPrefs();
   const next = { ...cur, ...patch } as CardSchedulingPrefs;
-  try { localStorage.setItem(KEY, JSON.stringify(next)); } catch {}
+  putEntry('settings', PREFS_KEY, next);
   return next;
 }
+
+/**
+ * Share of a normal day's reviews to plan on the learning day containing `ms`:
+ * 0 inside a days-off range, otherwise the weekday's load (1 = full).
+ */
+export function dayCapacity(ms: number, prefs: CardSchedulingPrefs = getSchedulingPrefs()): number {
+  const date = learningDayKey(ms, prefs.dayRolloverHour);
+  if (prefs.daysOff.some(r => date >= r.start && date <= r.end)) return 0;
+  return (prefs.weekdayLoad[learningWeekday(ms, prefs.dayRolloverHour)] ?? 100) / 100;
+}
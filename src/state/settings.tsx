@@ -2,9 +2,18 @@ import React, { createContext, useContext, useEffect, useMemo, useState } from '
 
 type Theme = 'dark' | 'light';
 
+/** 'self-grade': reveal the answer and pick a grade; 'play-move': play the move on the board and get graded */
+export type ReviewMode = 'self-grade' | 'play-move' | 'blitz';
+
+/** Review front: the board, no board (answer from the move list), or the line replayed from the start */
+export type FrontVariant = 'board' | 'blindfold' | 'replay';
+
 export type Settings = {
   theme: Theme;
   frontStartAtReview: boolean;
+  reviewMode: ReviewMode;
+  frontVariant: FrontVariant;
+  replayMoveMs: number;   // pace of the 'replay' front
 
   // Card creation settings
   otherAnswersAcceptance: number; // pawns
@@ -20,6 +29,9 @@ export type Settings = {
 const DEFAULTS: Settings = {
   theme: 'dark',
   frontStartAtReview: false,
+  reviewMode: 'self-grade',
+  frontVariant: 'board',
+  replayMoveMs: 800,
 
   otherAnswersAcceptance: 0.20,
   maxOtherAnswerCount: 4,
@@ -0,0 +1,36 @@
+import type { Card } from '../data/types';
+import { replaceCards } from '../data/cardStore';
+import { LIST_STORES, MAP_STORES, resetStore } from '../data/collectionDb';
+import { setClock } from '../state/clock';
+
+export const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+/** Local time in ms (month is 1-based), so rollover tests don't depend on the time zone. */
+export function at(year: number, month: number, day: number, hour = 0, minute = 0): number {
+  return new Date(year, month - 1, day, hour, minute).getTime();
+}
+
+/** Pin getNow() to `ms`. */
+export function pinClock(ms: number): void {
+  setClock(() => ms);
+}
+
+export function makeCard(id: string, due: string | 'new', patch: Partial<Omit<Card, 'fields'>> & { fields?: Partial<Card['fields']> } = {}): Card {
+  const { fields, ...rest } = patch;
+  return {
+    id,
+    deck: 'white-other',
+    tags: [],
+    due,
+    ...rest,
+    fields: { moveSequence: '', fen: START_FEN, answer: 'e4', depth: 1, ...fields },
+  };
+}
+
+/** Empty collection database and prefs, then load `cards`. */
+export function resetCollection(cards: Card[] = []): void {
+  localStorage.clear();
+  for (const store of MAP_STORES) resetStore(store, {});
+  for (const store of LIST_STORES) resetStore(store, []);
+  replaceCards(cards);
+}
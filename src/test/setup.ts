@@ -0,0 +1,17 @@
+// Vitest setup: the state modules run in the renderer and expect a window
+// with localStorage. Tests get an in-memory one.
+
+class MemoryStorage {
+  private items = new Map<string, string>();
+  get length() { return this.items.size; }
+  clear() { this.items.clear(); }
+  getItem(key: string) { return this.items.has(key) ? this.items.get(key)! : null; }
+  key(i: number) { return [...this.items.keys()][i] ?? null; }
+  removeItem(key: string) { this.items.delete(key); }
+  setItem(key: string, value: string) { this.items.set(key, String(value)); }
+}
+
+const g = globalThis as any;
+g.localStorage = new MemoryStorage();
+g.sessionStorage = new MemoryStorage();
+g.window = globalThis;
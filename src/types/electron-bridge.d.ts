@@ -1,3 +1,6 @@
+import type { Card } from '../data/types';
+import type { DeckRule } from '../../scripts/deck-rules.js';
+
 export {};
 
 declare global {
@@ -29,6 +32,7 @@ declare global {
     autogen?: {
       scanChessCom: (opts: { username?: string; limit?: number }) => Promise<{ ok: boolean; message?: string; scanned?: number; created?: number; cancelled?: boolean }>;
       cancel: () => void;
+      getReplyCounts?: () => Promise<Record<string, Record<string, number>>>;
       onProgress: (cb: (p: { phase?: string; index?: number; total?: number; url?: string }) => void) => () => void;
       onDone: (cb: (r: { ok?: boolean; message?: string; scanned?: number; created?: number; cancelled?: boolean }) => void) => () => void;
     };
@@ -39,18 +43,26 @@ declare global {
     };
 
     cards?: {
-      readAll?: () => Promise<any[]>;
-      readOne: (id: string) => Promise<any | null>;
-      update: (card: any) => Promise<boolean>;
-      create?: (card: any) => Promise<boolean>;
+      readAll?: () => Promise<Card[]>;
+      readOne?: (id: string) => Promise<Card | null>;
+      update?: (card: Card) => Promise<boolean>;
+      updateMany?: (cards: Card[]) => Promise<boolean>;
+      create?: (card: Card) => Promise<boolean>;
       setDue?: (id: string, due: string | 'new' | undefined) => Promise<boolean>;
       exportToDownloads?: () => Promise<{ ok: boolean; path?: string; message?: string }>;
       exportJsonToDownloads?: (cards: any[], name?: string) => Promise<{ ok: boolean; path?: string; message?: string }>;
+      listBackups?: () => Promise<{ name: string; createdAt: number; size: number }[]>;
+      readBackup?: (name: string) => Promise<Card[] | null>;
+      restoreBackup?: (name: string) => Promise<{ ok: boolean; message?: string }>;
     };
 
     decks?: {
-      getLimits: () => Promise<Record<string, any>>;
-      setLimits: (storeObj: Record<string, any>) => Promise<boolean>;
+      /** deckSettings.json, read once to import into the collection database */
+      getLimits?: () => Promise<Record<string, any>>;
+      getTree?: () => Promise<{ id: string; name: string; parentId?: string | null }[] | null>;
+      setTree?: (list: { id: string; name: string; parentId?: string | null }[]) => Promise<boolean>;
+      getRules?: () => Promise<DeckRule[] | null>;
+      setRules?: (list: DeckRule[]) => Promise<boolean>;
     };
 
     zoom?: {
@@ -1,9 +1,11 @@
 // vite.config.ts
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
 export default defineConfig({
   plugins: [react()],
   build: { outDir: 'dist', emptyOutDir: true },
-  server: { port: 5173 }
+  server: { port: 5173 },
+  test: { environment: 'node', setupFiles: ['src/test/setup.ts'] }
 });